@@ -5,21 +5,65 @@
  */
 import { config as dotenvConfig } from 'dotenv';
 import { z } from 'zod';
-import type { AppConfig } from '../types/subtitle.js';
+import type { AppConfig, ModelPrice, OpenAIEndpointConfig } from '../types/subtitle.js';
 
 // Load .env file
 dotenvConfig();
 
+const fallbackEndpointSchema = z.array(z.object({
+  model: z.string().min(1),
+  baseUrl: z.string().optional(),
+  apiKey: z.string().optional(),
+}));
+
+const modelPriceSchema = z.record(z.object({
+  input: z.number().nonnegative(),
+  output: z.number().nonnegative(),
+}));
+
+const clientBudgetSchema = z.record(z.object({
+  daily: z.number().nonnegative().optional(),
+  monthly: z.number().nonnegative().optional(),
+}));
+
+// USD per 1M tokens; MODEL_PRICES overrides or extends these
+const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+};
+
+// Hosts original_url may point at (subdomains included); YT_ALLOWED_HOSTS extends these
+const DEFAULT_UPSTREAM_HOSTS = ['youtube.com', 'youtube-nocookie.com', 'googlevideo.com'];
+
 // Zod schema for environment validation
 const envSchema = z.object({
   // Server
   PORT: z.string().default('3000').transform(Number),
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
 
+  // Translation provider
+  TRANSLATION_PROVIDER: z.enum(['openai', 'deepl', 'google', 'mock']).default('openai'),
+  DEEPL_API_KEY: z.string().optional(),
+  DEEPL_API_URL: z.string().default('https://api-free.deepl.com/v2'),
+  GOOGLE_TRANSLATE_API_KEY: z.string().optional(),
+  GOOGLE_TRANSLATE_API_URL: z.string().default('https://translation.googleapis.com/language/translate/v2'),
+
   // OpenAI
-  OPENAI_API_KEY: z.string().min(1, 'OPENAI_API_KEY is required'),
+  OPENAI_API_KEY: z.string().default(''),
   OPENAI_BASE_URL: z.string().optional(),
   OPENAI_MODEL: z.string().default('gpt-4o'),
+  // JSON array of {model, baseUrl?, apiKey?}, tried in order after the primary model
+  OPENAI_FALLBACK_ENDPOINTS: z.string().default('[]').transform((value, ctx) => {
+    try {
+      return JSON.parse(value) as unknown;
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'OPENAI_FALLBACK_ENDPOINTS must be a JSON array' });
+      return z.NEVER;
+    }
+  }).pipe(fallbackEndpointSchema),
+  OPENAI_CIRCUIT_FAILURE_THRESHOLD: z.string().default('3').transform(Number),
+  OPENAI_CIRCUIT_COOLDOWN_MS: z.string().default('60000').transform(Number),
   TRANSLATE_TIMEOUT_MS: z.string().default('20000').transform(Number),
   QUEUE_CONCURRENCY: z.string().default('2').transform(Number),
   TRANSLATION_SUMMARY_ENABLED: z.string().default('false').transform((v) => v === 'true'),
@@ -28,6 +72,8 @@ const envSchema = z.object({
   TRANSLATION_GLOSSARY_ENABLED: z.string().default('false').transform((v) => v === 'true'),
   TRANSLATION_GLOSSARY_MAX_TOKENS: z.string().default('200').transform(Number),
   TRANSLATION_GLOSSARY_CHUNK_CHARS: z.string().default('12000').transform(Number),
+  TRANSLATION_GLOSSARY_ENFORCE: z.string().default('true').transform((v) => v === 'true'),
+  TRANSLATION_GLOSSARY_CORRECTION_RETRIES: z.string().default('1').transform(Number),
   TRANSLATION_CONTEXT_ENABLED: z.string().default('true').transform((v) => v === 'true'),
   TRANSLATION_CONTEXT_BATCH_SIZE: z.string().default('12').transform(Number),
   TRANSLATION_CONTEXT_PRECEDING_LINES: z.string().default('2').transform(Number),
@@ -36,6 +82,35 @@ const envSchema = z.object({
   TRANSLATION_CONTEXT_BATCH_RETRIES: z.string().default('0').transform(Number),
   TRANSLATION_CONTEXT_MAX_TOKENS: z.string().default('500').transform(Number),
   TRANSLATION_SOURCE_RESTORE_ENABLED: z.string().default('true').transform((v) => v === 'true'),
+  TRANSLATION_PRIORITY_WINDOW_MS: z.string().default('300000').transform(Number),
+  TRANSLATION_MEMORY_ENABLED: z.string().default('true').transform((v) => v === 'true'),
+  TRANSLATION_MEMORY_FUZZY: z.string().default('false').transform((v) => v === 'true'),
+  // JSON object of {model: {input, output}} in USD per 1M tokens
+  MODEL_PRICES: z.string().default('{}').transform((value, ctx) => {
+    try {
+      return JSON.parse(value) as unknown;
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'MODEL_PRICES must be a JSON object' });
+      return z.NEVER;
+    }
+  }).pipe(modelPriceSchema),
+
+  // Budgets (USD; 0 disables a cap)
+  BUDGET_DAILY_USD: z.string().default('0').transform(Number),
+  BUDGET_MONTHLY_USD: z.string().default('0').transform(Number),
+  BUDGET_CLIENT_DAILY_USD: z.string().default('0').transform(Number),
+  BUDGET_CLIENT_MONTHLY_USD: z.string().default('0').transform(Number),
+  // JSON object of {clientId: {daily, monthly}} overriding the client defaults
+  BUDGET_CLIENTS: z.string().default('{}').transform((value, ctx) => {
+    try {
+      return JSON.parse(value) as unknown;
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'BUDGET_CLIENTS must be a JSON object' });
+      return z.NEVER;
+    }
+  }).pipe(clientBudgetSchema),
+  BUDGET_SOFT_RATIO: z.string().default('0.8').transform(Number),
+  BUDGET_ECONOMY_MODEL: z.string().optional(),
 
   // Database
   DB_PATH: z.string().default('./data/subtitles.db'),
@@ -52,6 +127,9 @@ const envSchema = z.object({
 
   // YouTube
   YT_FETCH_TIMEOUT_MS: z.string().default('5000').transform(Number),
+  YT_ALLOWED_HOSTS: z.string().default('').transform((value) => (
+    value.split(',').map(host => host.trim().toLowerCase().replace(/^\*?\./, '')).filter(Boolean)
+  )),
 
   // Subtitle processing
   SEGMENT_GAP_MS: z.string().default('1200').transform(Number),
@@ -70,11 +148,53 @@ const envSchema = z.object({
   SUBTITLE_RENDER_MAX_CHARS_CJK: z.string().default('20').transform(Number),
   SUBTITLE_RENDER_MAX_WORDS: z.string().default('12').transform(Number),
   SUBTITLE_OUTPUT_MODE: z.enum(['translation-only', 'bilingual', 'original-only']).default('translation-only'),
+  SUBTITLE_SPEAKER_LABELS: z.enum(['none', 'dash', 'name']).default('none'),
+  SUBTITLE_LYRICS_MODE: z.enum(['translate', 'keep', 'drop']).default('translate'),
+
+  // Client API keys (issued via /admin/keys)
+  API_KEYS_REQUIRED: z.string().default('false').transform((v) => v === 'true'),
+  API_KEY_DEFAULT_RATE_LIMIT: z.string().default('60').transform(Number),
+  API_KEY_DEFAULT_DAILY_QUOTA: z.string().default('0').transform(Number),
 
   // Admin (optional)
   ADMIN_TOKEN: z.string().optional(),
+}).superRefine((env, ctx) => {
+  const requiredKeys: Record<typeof env.TRANSLATION_PROVIDER, keyof typeof env | null> = {
+    openai: 'OPENAI_API_KEY',
+    deepl: 'DEEPL_API_KEY',
+    google: 'GOOGLE_TRANSLATE_API_KEY',
+    mock: null,
+  };
+  const requiredKey = requiredKeys[env.TRANSLATION_PROVIDER];
+
+  if (requiredKey && !env[requiredKey]) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [requiredKey],
+      message: `${requiredKey} is required when TRANSLATION_PROVIDER=${env.TRANSLATION_PROVIDER}`,
+    });
+  }
 });
 
+/**
+ * Primary model first, then fallbacks (inheriting the primary base URL and key)
+ */
+function buildOpenAIEndpoints(env: z.infer<typeof envSchema>): OpenAIEndpointConfig[] {
+  const entries = [
+    { model: env.OPENAI_MODEL, baseUrl: env.OPENAI_BASE_URL, apiKey: env.OPENAI_API_KEY },
+    ...env.OPENAI_FALLBACK_ENDPOINTS.map(entry => ({
+      model: entry.model,
+      baseUrl: entry.baseUrl ?? env.OPENAI_BASE_URL,
+      apiKey: entry.apiKey ?? env.OPENAI_API_KEY,
+    })),
+  ];
+
+  return entries.map(entry => ({
+    id: `${entry.model}@${entry.baseUrl ?? 'default'}`,
+    ...entry,
+  }));
+}
+
 /**
  * Load and validate environment variables
  */
@@ -99,9 +219,26 @@ function loadEnv(): AppConfig {
       apiKey: env.OPENAI_API_KEY,
       baseUrl: env.OPENAI_BASE_URL,
       model: env.OPENAI_MODEL,
+      endpoints: buildOpenAIEndpoints(env),
+      circuitBreaker: {
+        failureThreshold: Math.max(1, env.OPENAI_CIRCUIT_FAILURE_THRESHOLD),
+        cooldownMs: Math.max(0, env.OPENAI_CIRCUIT_COOLDOWN_MS),
+      },
       timeout: env.TRANSLATE_TIMEOUT_MS,
     },
 
+    translationProvider: {
+      name: env.TRANSLATION_PROVIDER,
+      deepl: {
+        apiKey: env.DEEPL_API_KEY || null,
+        baseUrl: env.DEEPL_API_URL,
+      },
+      google: {
+        apiKey: env.GOOGLE_TRANSLATE_API_KEY || null,
+        baseUrl: env.GOOGLE_TRANSLATE_API_URL,
+      },
+    },
+
     translationSummary: {
       enabled: env.TRANSLATION_SUMMARY_ENABLED,
       maxTokens: env.TRANSLATION_SUMMARY_MAX_TOKENS,
@@ -111,6 +248,8 @@ function loadEnv(): AppConfig {
       enabled: env.TRANSLATION_GLOSSARY_ENABLED,
       maxTokens: env.TRANSLATION_GLOSSARY_MAX_TOKENS,
       chunkChars: env.TRANSLATION_GLOSSARY_CHUNK_CHARS,
+      enforce: env.TRANSLATION_GLOSSARY_ENFORCE,
+      correctionRetries: env.TRANSLATION_GLOSSARY_CORRECTION_RETRIES,
     },
 
     translationContext: {
@@ -127,6 +266,47 @@ function loadEnv(): AppConfig {
       enabled: env.TRANSLATION_SOURCE_RESTORE_ENABLED,
     },
 
+    translationPriority: {
+      windowMs: env.TRANSLATION_PRIORITY_WINDOW_MS,
+    },
+
+    translationMemory: {
+      enabled: env.TRANSLATION_MEMORY_ENABLED,
+      fuzzy: env.TRANSLATION_MEMORY_FUZZY,
+    },
+
+    usage: {
+      prices: { ...DEFAULT_MODEL_PRICES, ...env.MODEL_PRICES },
+    },
+
+    budget: {
+      global: {
+        dailyUsd: env.BUDGET_DAILY_USD,
+        monthlyUsd: env.BUDGET_MONTHLY_USD,
+      },
+      client: {
+        dailyUsd: env.BUDGET_CLIENT_DAILY_USD,
+        monthlyUsd: env.BUDGET_CLIENT_MONTHLY_USD,
+      },
+      clients: Object.fromEntries(
+        Object.entries(env.BUDGET_CLIENTS).map(([clientId, limits]) => [
+          clientId,
+          {
+            ...(limits.daily !== undefined ? { dailyUsd: limits.daily } : {}),
+            ...(limits.monthly !== undefined ? { monthlyUsd: limits.monthly } : {}),
+          },
+        ])
+      ),
+      softRatio: Math.min(1, Math.max(0, env.BUDGET_SOFT_RATIO)),
+      economyModel: env.BUDGET_ECONOMY_MODEL || null,
+    },
+
+    apiKeys: {
+      required: env.API_KEYS_REQUIRED,
+      defaultRateLimit: Math.max(0, env.API_KEY_DEFAULT_RATE_LIMIT),
+      defaultDailyQuota: Math.max(0, env.API_KEY_DEFAULT_DAILY_QUOTA),
+    },
+
     database: {
       path: env.DB_PATH,
       verbose: env.DB_VERBOSE,
@@ -146,6 +326,7 @@ function loadEnv(): AppConfig {
 
     youtube: {
       fetchTimeoutMs: env.YT_FETCH_TIMEOUT_MS,
+      allowedHosts: [...new Set([...DEFAULT_UPSTREAM_HOSTS, ...env.YT_ALLOWED_HOSTS])],
     },
 
     subtitle: {
@@ -165,6 +346,8 @@ function loadEnv(): AppConfig {
       renderMaxCharsCjk: env.SUBTITLE_RENDER_MAX_CHARS_CJK,
       renderMaxWords: env.SUBTITLE_RENDER_MAX_WORDS,
       outputMode: env.SUBTITLE_OUTPUT_MODE,
+      speakerLabels: env.SUBTITLE_SPEAKER_LABELS,
+      lyricsMode: env.SUBTITLE_LYRICS_MODE,
     },
 
     admin: {
@@ -196,6 +379,21 @@ export function getConfig(): AppConfig {
       openai: {
         ...config.openai,
         apiKey: '***' + config.openai.apiKey.slice(-4),
+        endpoints: config.openai.endpoints.map(endpoint => ({
+          ...endpoint,
+          apiKey: '***' + endpoint.apiKey.slice(-4),
+        })),
+      },
+      translationProvider: {
+        ...config.translationProvider,
+        deepl: {
+          ...config.translationProvider.deepl,
+          apiKey: config.translationProvider.deepl.apiKey ? '***' : null,
+        },
+        google: {
+          ...config.translationProvider.google,
+          apiKey: config.translationProvider.google.apiKey ? '***' : null,
+        },
       },
       admin: {
         token: config.admin.token ? '***' : null,
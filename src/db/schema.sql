@@ -30,6 +30,18 @@ CREATE TABLE IF NOT EXISTS caption_jobs (
 
   -- Result storage
   bilingual_json TEXT,             -- Final bilingual subtitle JSON
+  source_json TEXT,                -- Original timedtext payload (rehydrated on retry)
+
+  -- Workload (set when translation starts)
+  segments_total INTEGER,          -- Segments after segmentation
+  model TEXT,                      -- Translation provider model
+  channel_id TEXT,                 -- YouTube channel (selects channel glossaries)
+  client_id TEXT,                  -- API client (per-client budgets)
+
+  -- Glossary enforcement (lines checked / first-pass violations / left after corrections)
+  glossary_checked INTEGER,
+  glossary_violations INTEGER,
+  glossary_unresolved INTEGER,
 
   -- Metadata
   created_at INTEGER NOT NULL,     -- Unix timestamp (ms)
@@ -95,28 +107,158 @@ CREATE INDEX IF NOT EXISTS idx_caption_segments_status
 ON caption_segments(status);
 
 -- ========================================
--- Statistics Table (Optional)
+-- Translation Throughput Table
+-- ========================================
+-- Measured segments per run; drives job ETA per model
+CREATE TABLE IF NOT EXISTS translation_throughput (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  job_id TEXT NOT NULL,
+  model TEXT NOT NULL,
+  segment_count INTEGER NOT NULL,  -- Segments translated in this run (resumed excluded)
+  duration_ms INTEGER NOT NULL,
+  created_at INTEGER NOT NULL      -- Unix timestamp (ms)
+);
+
+CREATE INDEX IF NOT EXISTS idx_translation_throughput_model
+ON translation_throughput(model, created_at);
+
+-- ========================================
+-- Translation Memory Table
+-- ========================================
+-- Reusable segment translations shared across videos (intros, sponsor reads)
+CREATE TABLE IF NOT EXISTS translation_memory (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  source_key TEXT NOT NULL,        -- Whitespace-normalized source text (exact match)
+  loose_key TEXT NOT NULL,         -- Lowercased, punctuation stripped (near-exact match)
+  source_text TEXT NOT NULL,       -- Source text as first seen
+  source_lang TEXT NOT NULL,
+  target_lang TEXT NOT NULL,
+  model TEXT NOT NULL,
+  translated_text TEXT NOT NULL,
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL,     -- Unix timestamp (ms)
+  updated_at INTEGER NOT NULL,     -- Unix timestamp (ms)
+  last_used_at INTEGER,            -- Unix timestamp (ms) of the last reuse
+
+  UNIQUE(source_key, source_lang, target_lang, model)
+);
+
+CREATE INDEX IF NOT EXISTS idx_translation_memory_loose
+ON translation_memory(loose_key, source_lang, target_lang, model);
+
+-- ========================================
+-- Glossary Terms Table
 -- ========================================
--- Track API usage and costs
+-- Persistent terminology merged into translation prompts
+CREATE TABLE IF NOT EXISTS glossary_terms (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  scope TEXT NOT NULL CHECK(scope IN ('global', 'channel', 'video')),
+  scope_id TEXT NOT NULL DEFAULT '',   -- Channel or video ID ('' for global)
+  target_lang TEXT NOT NULL DEFAULT '', -- '' applies to every target language
+  source_term TEXT NOT NULL,
+  translation TEXT,                    -- NULL for never-translate entries
+  never_translate INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'approved' CHECK(status IN ('approved', 'suggested')),
+  note TEXT,
+  created_at INTEGER NOT NULL,         -- Unix timestamp (ms)
+  updated_at INTEGER NOT NULL,         -- Unix timestamp (ms)
+
+  UNIQUE(scope, scope_id, target_lang, source_term)
+);
+
+CREATE INDEX IF NOT EXISTS idx_glossary_terms_status
+ON glossary_terms(status, target_lang);
+
+-- ========================================
+-- API Usage Tables
+-- ========================================
+-- Chat completion usage and cost per provider/model/endpoint/purpose/day
 CREATE TABLE IF NOT EXISTS api_stats (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
 
   -- API details
-  provider TEXT NOT NULL,          -- 'openai', 'youtube'
-  endpoint TEXT NOT NULL,          -- API endpoint
+  provider TEXT NOT NULL,          -- 'openai'
+  model TEXT NOT NULL,             -- Model that served the request
+  endpoint TEXT NOT NULL,          -- Fallback-chain endpoint ID (model@baseUrl)
+  purpose TEXT NOT NULL,           -- summary|glossary|restore|context|single-line
 
   -- Usage metrics
-  request_count INTEGER DEFAULT 0,
-  token_count INTEGER DEFAULT 0,   -- For LLM APIs
-  cost_usd REAL DEFAULT 0.0,       -- Estimated cost in USD
+  request_count INTEGER NOT NULL DEFAULT 0,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  token_count INTEGER NOT NULL DEFAULT 0,   -- prompt + completion
+  cost_usd REAL NOT NULL DEFAULT 0.0,       -- From the configured price table
 
-  -- Timing
-  avg_latency_ms INTEGER,          -- Average response time
+  -- Timing (successful requests)
+  total_latency_ms INTEGER NOT NULL DEFAULT 0,
+  avg_latency_ms INTEGER,
 
   -- Time window
-  date TEXT NOT NULL,              -- YYYY-MM-DD format
+  date TEXT NOT NULL,              -- YYYY-MM-DD (UTC)
+
+  UNIQUE(provider, model, endpoint, purpose, date)
+);
+
+-- Usage attributed to a caption job; kept after the job expires
+CREATE TABLE IF NOT EXISTS job_usage (
+  job_id TEXT NOT NULL,
+  model TEXT NOT NULL,
+  purpose TEXT NOT NULL,
+  request_count INTEGER NOT NULL DEFAULT 0,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd REAL NOT NULL DEFAULT 0.0,
+  total_latency_ms INTEGER NOT NULL DEFAULT 0,
+  updated_at INTEGER NOT NULL,     -- Unix timestamp (ms)
+
+  PRIMARY KEY (job_id, model, purpose)
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_usage_updated
+ON job_usage(updated_at);
+
+-- Daily spend per API client (per-client budgets)
+CREATE TABLE IF NOT EXISTS client_usage (
+  client_id TEXT NOT NULL,
+  date TEXT NOT NULL,              -- YYYY-MM-DD (UTC)
+  request_count INTEGER NOT NULL DEFAULT 0,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd REAL NOT NULL DEFAULT 0.0,
+
+  PRIMARY KEY (client_id, date)
+);
+
+-- ========================================
+-- Client API Keys
+-- ========================================
+CREATE TABLE IF NOT EXISTS api_keys (
+  id TEXT PRIMARY KEY,                 -- Public key ID, also the default client ID
+  key_hash TEXT NOT NULL UNIQUE,       -- SHA-256 of the secret
+  key_prefix TEXT NOT NULL,            -- Leading characters of the secret, for display
+  name TEXT NOT NULL,
+  client_id TEXT NOT NULL,             -- Client for usage accounting and budgets
+  rate_limit INTEGER NOT NULL,         -- Requests per minute (0 = unlimited)
+  daily_quota INTEGER NOT NULL,        -- New translations per UTC day (0 = unlimited)
+  allowed_tlangs TEXT,                 -- JSON array of target languages (NULL = any)
+  created_at INTEGER NOT NULL,         -- Unix timestamp (ms)
+  revoked_at INTEGER,                  -- Unix timestamp (ms)
+  last_used_at INTEGER                 -- Unix timestamp (ms)
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_client
+ON api_keys(client_id);
+
+-- Daily requests per key; rejected counts rate-limit and language refusals
+CREATE TABLE IF NOT EXISTS api_key_usage (
+  key_id TEXT NOT NULL,
+  date TEXT NOT NULL,                  -- YYYY-MM-DD (UTC)
+  request_count INTEGER NOT NULL DEFAULT 0,
+  translation_count INTEGER NOT NULL DEFAULT 0,
+  rejected_count INTEGER NOT NULL DEFAULT 0,
 
-  UNIQUE(provider, endpoint, date)
+  PRIMARY KEY (key_id, date)
 );
 
 -- ========================================
@@ -49,14 +49,31 @@ export function initDatabase(config: DatabaseConfig): Database.Database {
 
   // Initialize schema
   const schemaSQL = readFileSync(join(__dirname, 'schema.sql'), 'utf-8');
+  dropLegacyApiStats(db);
   db.exec(schemaSQL);
   migrateCaptionJobsSchema(db);
+  migrateCaptionJobsColumns(db);
 
   console.log(`[DB] SQLite database initialized at: ${config.path}`);
 
   return db;
 }
 
+/**
+ * The original api_stats table was never written to; drop it so the schema
+ * recreates it with per-model/purpose usage columns
+ */
+function dropLegacyApiStats(database: Database.Database): void {
+  const columns = database.prepare(`
+    SELECT name FROM pragma_table_info('api_stats')
+  `).all() as Array<{ name: string }>;
+
+  if (columns.length > 0 && !columns.some((column) => column.name === 'purpose')) {
+    console.log('[DB] Recreating legacy api_stats table for usage accounting');
+    database.exec('DROP TABLE api_stats');
+  }
+}
+
 function migrateCaptionJobsSchema(database: Database.Database): void {
   const columns = database.prepare(`
     SELECT name FROM pragma_table_info('caption_jobs')
@@ -124,6 +141,33 @@ function migrateCaptionJobsSchema(database: Database.Database): void {
   }
 }
 
+function migrateCaptionJobsColumns(database: Database.Database): void {
+  const columns = database.prepare(`
+    SELECT name FROM pragma_table_info('caption_jobs')
+  `).all() as Array<{ name: string }>;
+  const existing = new Set(columns.map((column) => column.name));
+
+  const additions: Array<{ name: string; definition: string }> = [
+    { name: 'source_json', definition: 'TEXT' },
+    { name: 'segments_total', definition: 'INTEGER' },
+    { name: 'model', definition: 'TEXT' },
+    { name: 'channel_id', definition: 'TEXT' },
+    { name: 'client_id', definition: 'TEXT' },
+    { name: 'glossary_checked', definition: 'INTEGER' },
+    { name: 'glossary_violations', definition: 'INTEGER' },
+    { name: 'glossary_unresolved', definition: 'INTEGER' },
+  ];
+
+  for (const column of additions) {
+    if (existing.has(column.name)) {
+      continue;
+    }
+
+    console.log(`[DB] Migrating caption_jobs schema to include ${column.name}`);
+    database.exec(`ALTER TABLE caption_jobs ADD COLUMN ${column.name} ${column.definition}`);
+  }
+}
+
 /**
  * Get database instance
  */
@@ -2,19 +2,88 @@
  * HTTP Routes
  */
 import { Hono, type Context } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import { bodyLimit } from 'hono/body-limit';
 import { getDatabase, getCacheStats } from '../db/sqlite.js';
 import { getConfig } from '../config/env.js';
-import { fetchYouTubeTimedText, generateCacheKey, generateSourceHash } from '../services/youtube.js';
-import { getBilingualSubtitle, getCaptionJobByKey } from '../services/cache.js';
 import {
+  buildJobCacheKey,
+  detectSubtitleFormat,
+  fetchYouTubeTimedText,
+  generateCacheKey,
+  generateSourceHash,
+  parseTimedTextResponse,
+} from '../services/youtube.js';
+import {
+  deleteGlossaryTerm,
+  getApiKey,
+  getApiKeyUsage,
+  getBilingualSubtitle,
+  getCaptionJob,
+  getCaptionJobByKey,
+  getCaptionSegments,
+  getJobUsage,
+  getSpend,
+  getUsageReport,
+  listApiKeys,
+  listCaptionJobs,
+  listGlossaryTerms,
+  listTranslationMemory,
+  purgeTranslationMemory,
+  revokeApiKey,
+  updateApiKey,
+  updateGlossaryTerm,
+  upsertGlossaryTerm,
+} from '../services/cache.js';
+import { buildJobStatus, estimateTranslationSeconds } from '../services/jobs.js';
+import { getTranslationProvider } from '../services/providers/index.js';
+import { parseYouTubeTimedText, SubtitleParseError } from '../subtitle/parse.js';
+import { extractStyleSheet } from '../subtitle/style.js';
+import { subscribeJobEvents } from '../services/events.js';
+import {
+  buildTranslationCues,
   buildTranslationTaskKey,
   enqueueTranslation,
   getQueueStatus,
   isTranslationInFlight,
 } from '../queue/queue.js';
-import { parseWebVTT } from '../subtitle/parse.js';
-import { renderYouTubeSrv3, renderYouTubeTimedText } from '../subtitle/render.js';
-import type { SubtitleRequest, ErrorResponse, HealthCheckResponse } from '../types/subtitle.js';
+import { getEndpointHealth } from '../services/providers/circuit.js';
+import { setJobPriority } from '../queue/priority.js';
+import { evaluateBudget } from '../services/budget.js';
+import { authorizeApiKey, consumeTranslationQuota, issueApiKey } from '../services/api-keys.js';
+import { estimateTranslationRun } from '../services/translator.js';
+import { UpstreamPolicyError } from '../services/upstream.js';
+import {
+  buildRenderCues,
+  createDocumentFromSegments,
+  createSourceDocument,
+} from '../subtitle/document.js';
+import {
+  renderASS,
+  renderSRT,
+  renderTTML,
+  renderWebVTT,
+  renderYouTubeSrv3,
+  renderYouTubeKaraokeTimedText,
+  renderYouTubeTimedText,
+  resolveRenderFormat,
+} from '../subtitle/render.js';
+import type {
+  ApiKey,
+  ApiKeyInput,
+  BilingualSubtitleDocument,
+  EstimateResponse,
+  GlossaryScope,
+  GlossaryTermInput,
+  GlossaryTermStatus,
+  JobEvent,
+  SpeakerLabelMode,
+  SubtitleOutputMode,
+  SubtitleRequest,
+  ErrorResponse,
+  HealthCheckResponse,
+  YouTubeTimedTextResponse,
+} from '../types/subtitle.js';
 
 const app = new Hono();
 app.use('*', async (c, next) => {
@@ -22,8 +91,8 @@ app.use('*', async (c, next) => {
   const requestHeaders = c.req.header('Access-Control-Request-Headers');
 
   c.header('Access-Control-Allow-Origin', origin);
-  c.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  c.header('Access-Control-Allow-Headers', requestHeaders ?? 'Content-Type, Authorization');
+  c.header('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS');
+  c.header('Access-Control-Allow-Headers', requestHeaders ?? 'Content-Type, Authorization, X-Api-Key');
 
   if (c.req.method === 'OPTIONS') {
     return c.body(null, 204);
@@ -55,8 +124,16 @@ app.get('/health', (c) => {
     const totalRequests = cacheHits + cacheMisses;
     const hitRate = totalRequests > 0 ? (cacheHits / totalRequests) : 0;
 
+    const config = getConfig();
+    const translationEndpoints = config.translationProvider.name === 'openai'
+      ? getEndpointHealth(config.openai.endpoints)
+      : undefined;
+    const allEndpointsOpen = translationEndpoints !== undefined
+      && translationEndpoints.length > 0
+      && translationEndpoints.every(endpoint => endpoint.state === 'open');
+
     const response: HealthCheckResponse = {
-      status: 'ok',
+      status: allEndpointsOpen ? 'degraded' : 'ok',
       database: 'connected',
       cache: {
         hits: cacheHits,
@@ -68,6 +145,7 @@ app.get('/health', (c) => {
         processing: queueStatus.isProcessing ? 1 : 0,
         failed: stats.failed_jobs,
       },
+      translationEndpoints,
       uptime: process.uptime(),
     };
 
@@ -89,20 +167,380 @@ app.get('/health', (c) => {
 // Subtitle Proxy Endpoint
 // ========================================
 
+const OUTPUT_MODES: readonly SubtitleOutputMode[] = ['translation-only', 'bilingual', 'original-only'];
+const SPEAKER_LABEL_MODES: readonly SpeakerLabelMode[] = ['none', 'dash', 'name'];
+
+// Proxy-only query parameters that must not be forwarded to YouTube
+const PROXY_QUERY_PARAMS = ['original_url', 'mode', 't', 'karaoke', 'speakers', 'channel', 'client', 'api_key'];
+// Every output format is rendered locally, so YouTube is always asked for
+// json3: the source (and its hash) is then the same whatever `fmt` a client wants
+const UPSTREAM_FORMAT = 'json3';
+
 const buildOriginalTimedtextUrl = (c: Context): string => {
   const requestUrl = new URL(c.req.url);
   const baseUrl = new URL('https://www.youtube.com/api/timedtext');
   baseUrl.search = requestUrl.search;
-  baseUrl.searchParams.delete('original_url');
+  for (const param of PROXY_QUERY_PARAMS) {
+    baseUrl.searchParams.delete(param);
+  }
+  baseUrl.searchParams.set('fmt', UPSTREAM_FORMAT);
   return baseUrl.toString();
 };
 
+/**
+ * Ask a client-supplied timedtext URL for json3 as well; other URLs (and
+ * invalid ones, which the upstream policy rejects) are left untouched
+ */
+const normalizeOriginalUrl = (rawUrl: string): string => {
+  try {
+    const url = new URL(rawUrl);
+    if (url.pathname.endsWith('/api/timedtext') || url.searchParams.has('fmt')) {
+      url.searchParams.set('fmt', UPSTREAM_FORMAT);
+      return url.toString();
+    }
+  } catch {
+    // Fall through
+  }
+  return rawUrl;
+};
+
+/**
+ * Resolve the output mode from `?mode=` or the `X-Subtitle-Mode` header.
+ * Returns undefined when neither is set, null when the value is invalid.
+ */
+const parseOutputMode = (c: Context): SubtitleOutputMode | undefined | null => (
+  parseOutputModeValue(c.req.query('mode') ?? c.req.header('X-Subtitle-Mode'))
+);
+
+const parseOutputModeValue = (value: string | undefined): SubtitleOutputMode | undefined | null => {
+  const raw = value?.trim().toLowerCase();
+  if (!raw) {
+    return undefined;
+  }
+
+  return OUTPUT_MODES.find(mode => mode === raw) ?? null;
+};
+
+const invalidOutputModeError: ErrorResponse = {
+  error: 'invalid_output_mode',
+  message: `Invalid output mode; expected one of: ${OUTPUT_MODES.join(', ')}`,
+};
+
+/**
+ * Resolve `?speakers=`; undefined when absent, null when invalid
+ */
+const parseSpeakerLabels = (c: Context): SpeakerLabelMode | undefined | null => {
+  const raw = c.req.query('speakers')?.trim().toLowerCase();
+  if (!raw) {
+    return undefined;
+  }
+
+  return SPEAKER_LABEL_MODES.find(mode => mode === raw) ?? null;
+};
+
+const invalidSpeakerLabelsError: ErrorResponse = {
+  error: 'invalid_speaker_labels',
+  message: `Invalid speaker labels; expected one of: ${SPEAKER_LABEL_MODES.join(', ')}`,
+};
+
+/**
+ * Parse a playback position in milliseconds.
+ * Returns undefined when absent, null when the value is invalid.
+ */
+const parsePlaybackPosition = (raw: string | undefined): number | undefined | null => {
+  if (raw === undefined || raw.trim() === '') {
+    return undefined;
+  }
+
+  const positionMs = Number(raw);
+  return Number.isFinite(positionMs) && positionMs >= 0 ? Math.round(positionMs) : null;
+};
+
+/**
+ * Parse an opt-in query flag (`1`, `true`, `yes`)
+ */
+const parseFlag = (raw: string | undefined): boolean => (
+  raw !== undefined && ['1', 'true', 'yes'].includes(raw.trim().toLowerCase())
+);
+
+const invalidPositionError: ErrorResponse = {
+  error: 'invalid_position',
+  message: 'Playback position t must be a non-negative number of milliseconds',
+};
+
+const CHANNEL_ID_PATTERN = /^[A-Za-z0-9@._-]{1,100}$/;
+
+/**
+ * Parse a channel ID or handle; undefined when absent, null when invalid
+ */
+const parseChannelId = (raw: string | undefined): string | undefined | null => {
+  const value = raw?.trim();
+  if (!value) {
+    return undefined;
+  }
+
+  return CHANNEL_ID_PATTERN.test(value) ? value : null;
+};
+
+const invalidChannelError: ErrorResponse = {
+  error: 'invalid_channel',
+  message: 'Invalid channel ID',
+};
+
+const CLIENT_ID_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+
+/**
+ * Resolve the API client from `?client=` or the `X-Client-Id` header.
+ * Returns undefined when neither is set, null when the value is invalid.
+ */
+const parseClientId = (c: Context): string | undefined | null => {
+  const value = (c.req.query('client') ?? c.req.header('X-Client-Id'))?.trim();
+  if (!value) {
+    return undefined;
+  }
+
+  return CLIENT_ID_PATTERN.test(value) ? value : null;
+};
+
+const invalidClientError: ErrorResponse = {
+  error: 'invalid_client',
+  message: 'Invalid client ID',
+};
+
+const apiKeyRequiredError: ErrorResponse = {
+  error: 'api_key_required',
+  message: 'An API key is required (api_key query parameter or X-Api-Key header)',
+};
+
+const quotaExceededError: ErrorResponse = {
+  error: 'quota_exceeded',
+  message: 'Daily translation quota of this API key is used up',
+};
+
+/**
+ * Authorize the request's API key from `?api_key=` (Loon can only rewrite
+ * URLs) or the `X-Api-Key` header. Resolves to the key (null when none is
+ * presented and keys are optional) or to the error response to send.
+ */
+const authenticateApiKey = async (c: Context, targetLanguage: string): Promise<ApiKey | null | Response> => {
+  const secret = (c.req.query('api_key') ?? c.req.header('X-Api-Key'))?.trim();
+  if (!secret) {
+    return getConfig().apiKeys.required ? c.json(apiKeyRequiredError, 401) : null;
+  }
+
+  const authorization = await authorizeApiKey(secret, targetLanguage);
+  if (!authorization.key) {
+    if (authorization.retryAfterSeconds !== undefined) {
+      c.header('Retry-After', String(authorization.retryAfterSeconds));
+    }
+    return c.json(authorization.error, authorization.status);
+  }
+
+  return authorization.key;
+};
+
+/**
+ * Error response for a failed subtitle fetch: policy violations are the
+ * caller's fault (400) unless YouTube redirected there (502); anything else
+ * means YouTube is unavailable (503)
+ */
+const subtitleFetchError = (c: Context, error: unknown): Response => {
+  if (error instanceof UpstreamPolicyError) {
+    const errorResponse: ErrorResponse = { error: error.code, message: error.message };
+    return c.json(errorResponse, error.redirect ? 502 : 400);
+  }
+
+  const errorResponse: ErrorResponse = {
+    error: 'youtube_api_error',
+    message: error instanceof Error ? error.message : 'Failed to fetch subtitle from YouTube',
+  };
+  return c.json(errorResponse, 503);
+};
+
+const renderSubtitleDocument = (
+  c: Context,
+  document: BilingualSubtitleDocument,
+  params: SubtitleRequest,
+  statusHeaders: Record<string, string>
+) => {
+  const config = getConfig();
+  const outputMode = params.mode ?? config.subtitle.outputMode;
+  const cues = buildRenderCues(document, outputMode, params.speakers ?? config.subtitle.speakerLabels);
+  const format = resolveRenderFormat(params.fmt);
+  const headers = {
+    ...statusHeaders,
+    'X-Video-Id': params.v,
+    'X-Subtitle-Mode': outputMode,
+  };
+
+  if (format === 'vtt') {
+    const vtt = renderWebVTT(cues, {
+      kind: params.kind || 'captions',
+      language: params.tlang || 'zh-CN',
+      outputMode,
+    });
+    return c.text(vtt, 200, {
+      'Content-Type': 'text/vtt; charset=utf-8',
+      ...headers,
+    });
+  }
+
+  if (format === 'srt') {
+    return c.text(renderSRT(cues, { outputMode }), 200, {
+      'Content-Type': 'application/x-subrip; charset=utf-8',
+      ...headers,
+    });
+  }
+
+  if (format === 'ttml') {
+    const ttml = renderTTML(cues, {
+      language: outputMode === 'original-only' ? params.lang : params.tlang || 'zh-CN',
+      outputMode,
+    });
+    return c.text(ttml, 200, {
+      'Content-Type': 'application/ttml+xml; charset=utf-8',
+      ...headers,
+    });
+  }
+
+  if (format === 'ass') {
+    return c.text(renderASS(cues, { title: params.v, outputMode }), 200, {
+      'Content-Type': 'text/x-ssa; charset=utf-8',
+      ...headers,
+    });
+  }
+
+  if (format === 'srv3') {
+    const srv3 = renderYouTubeSrv3(cues, {
+      overlapGapMs: config.subtitle.srv3OverlapGapMs,
+      outputMode,
+      styles: document.styles,
+    });
+    return c.text(srv3, 200, {
+      'Content-Type': 'text/xml; charset=utf-8',
+      ...headers,
+    });
+  }
+
+  // Word-timed original lines need the unsplit document cues
+  if (params.karaoke && outputMode !== 'translation-only') {
+    return c.json(
+      renderYouTubeKaraokeTimedText(document.cues, { outputMode, styles: document.styles }),
+      200,
+      headers
+    );
+  }
+
+  // YouTube timedtext JSON (json3)
+  return c.json(renderYouTubeTimedText(cues, { outputMode, styles: document.styles }), 200, headers);
+};
+
+/**
+ * Merge an in-progress job's translated segments with originals for the rest.
+ * The job's source (same hash) supplies cue styles and speakers.
+ * Returns null until at least one segment is translated.
+ */
+async function loadPartialDocument(
+  jobId: string,
+  params: SubtitleRequest,
+  source: YouTubeTimedTextResponse
+): Promise<{ document: BilingualSubtitleDocument; coverage: number } | null> {
+  const segments = await getCaptionSegments(jobId);
+  const translated = segments.filter(segment => segment.status === 'done' && segment.translated_text);
+  if (translated.length === 0) {
+    return null;
+  }
+
+  return {
+    document: createDocumentFromSegments(segments, {
+      sourceLanguage: params.lang,
+      targetLanguage: params.tlang || 'zh-CN',
+      track: params.kind || 'asr',
+      styles: extractStyleSheet(source),
+    }, buildTranslationCues(source)),
+    coverage: (translated.length / segments.length) * 100,
+  };
+}
+
+/**
+ * ETA for a cache miss: the job's own estimate once segmented, otherwise
+ * the raw source cue count at the current model's throughput
+ */
+async function estimateMissSeconds(
+  jobId: string | null,
+  source: YouTubeTimedTextResponse
+): Promise<number | null> {
+  try {
+    const job = jobId ? await getCaptionJob(jobId) : null;
+    if (job && job.segments_total !== null) {
+      return (await buildJobStatus(job)).etaSeconds;
+    }
+
+    const cueCount = parseYouTubeTimedText(source).length;
+    return await estimateTranslationSeconds(cueCount, getTranslationProvider().model);
+  } catch (error) {
+    console.warn('[API] Failed to estimate translation time:', error);
+    return null;
+  }
+}
+
+/**
+ * Video ID and source language checks shared by the subtitle and estimate endpoints
+ */
+function validateSourceParams(params: Pick<SubtitleRequest, 'v' | 'lang'>): ErrorResponse | null {
+  if (!params.v || !/^[a-zA-Z0-9_-]{11}$/.test(params.v)) {
+    return {
+      error: 'invalid_video_id',
+      message: 'Invalid or missing video ID',
+    };
+  }
+
+  if (!params.lang || params.lang.length > 10) {
+    return {
+      error: 'invalid_language',
+      message: 'Invalid or missing language code',
+    };
+  }
+
+  return null;
+}
+
 const handleSubtitleRequest = async (c: Context) => {
   try {
     // Parse query parameters
     const query = c.req.query();
     const fmtParam = (query.fmt || query.format || 'json3').toString();
-    const originalUrl = query.original_url || buildOriginalTimedtextUrl(c);
+    const originalUrl = query.original_url ? normalizeOriginalUrl(query.original_url) : buildOriginalTimedtextUrl(c);
+    const outputMode = parseOutputMode(c);
+    if (outputMode === null) {
+      return c.json(invalidOutputModeError, 400);
+    }
+
+    const playbackPosition = parsePlaybackPosition(query.t);
+    if (playbackPosition === null) {
+      return c.json(invalidPositionError, 400);
+    }
+
+    const speakerLabels = parseSpeakerLabels(c);
+    if (speakerLabels === null) {
+      return c.json(invalidSpeakerLabelsError, 400);
+    }
+
+    const channel = parseChannelId(query.channel);
+    if (channel === null) {
+      return c.json(invalidChannelError, 400);
+    }
+
+    const client = parseClientId(c);
+    if (client === null) {
+      return c.json(invalidClientError, 400);
+    }
+
+    const apiKey = await authenticateApiKey(c, query.tlang || 'zh-CN');
+    if (apiKey instanceof Response) {
+      return apiKey;
+    }
+
     const params: SubtitleRequest = {
       v: query.v || '',
       lang: query.lang || '',
@@ -110,23 +548,19 @@ const handleSubtitleRequest = async (c: Context) => {
       kind: query.kind || 'asr',
       fmt: fmtParam,
       original_url: originalUrl,
+      mode: outputMode,
+      t: playbackPosition,
+      karaoke: parseFlag(query.karaoke),
+      speakers: speakerLabels,
+      channel,
+      // A key's usage and budgets always belong to its own client
+      client: apiKey?.client_id ?? client,
     };
 
     // Validate required parameters
-    if (!params.v || !/^[a-zA-Z0-9_-]{11}$/.test(params.v)) {
-      const error: ErrorResponse = {
-        error: 'invalid_video_id',
-        message: 'Invalid or missing video ID',
-      };
-      return c.json(error, 400);
-    }
-
-    if (!params.lang || params.lang.length > 10) {
-      const error: ErrorResponse = {
-        error: 'invalid_language',
-        message: 'Invalid or missing language code',
-      };
-      return c.json(error, 400);
+    const paramsError = validateSourceParams(params);
+    if (paramsError) {
+      return c.json(paramsError, 400);
     }
 
     // Generate cache key
@@ -137,38 +571,9 @@ const handleSubtitleRequest = async (c: Context) => {
 
     if (cachedBilingual) {
       console.log(`[API] Cache hit for ${params.v} (${params.lang} -> ${params.tlang})`);
-
-      const requestedFormat = params.fmt?.toLowerCase();
-      if (requestedFormat === 'vtt') {
-        // Return cached bilingual subtitle as WebVTT
-        return c.text(cachedBilingual, 200, {
-          'Content-Type': 'text/vtt; charset=utf-8',
-          'X-Translation-Status': 'completed',
-          'X-Cache-Status': 'HIT',
-          'X-Video-Id': params.v,
-        });
-      }
-
-      const cues = parseWebVTT(cachedBilingual);
-      if (requestedFormat?.startsWith('srv')) {
-        const config = getConfig();
-        const srv3 = renderYouTubeSrv3(cues, {
-          overlapGapMs: config.subtitle.srv3OverlapGapMs,
-        });
-        return c.text(srv3, 200, {
-          'Content-Type': 'text/xml; charset=utf-8',
-          'X-Translation-Status': 'completed',
-          'X-Cache-Status': 'HIT',
-          'X-Video-Id': params.v,
-        });
-      }
-
-      // Return cached bilingual subtitle as YouTube timedtext JSON
-      const timedtextJson = renderYouTubeTimedText(cues);
-      return c.json(timedtextJson, 200, {
+      return renderSubtitleDocument(c, cachedBilingual, params, {
         'X-Translation-Status': 'completed',
         'X-Cache-Status': 'HIT',
-        'X-Video-Id': params.v,
       });
     }
 
@@ -180,13 +585,7 @@ const handleSubtitleRequest = async (c: Context) => {
       originalResult = await fetchYouTubeTimedText(params);
     } catch (error) {
       console.error(`[API] Failed to fetch YouTube subtitle:`, error);
-
-      const errorResponse: ErrorResponse = {
-        error: 'youtube_api_error',
-        message: error instanceof Error ? error.message : 'Failed to fetch subtitle from YouTube',
-      };
-
-      return c.json(errorResponse, 503);
+      return subtitleFetchError(c, error);
     }
 
     // Generate source hash
@@ -198,37 +597,85 @@ const handleSubtitleRequest = async (c: Context) => {
       lang: params.lang,
       tlang: params.tlang || 'zh-CN',
       track: params.kind || 'asr',
-      fmt: params.fmt || 'json3',
       sourceHash,
     });
 
+    let jobId = existingJob?.id ?? null;
+    const budget = await evaluateBudget(params.client);
+    const budgetHeaders: Record<string, string> = budget.level === 'ok' ? {} : {
+      'X-Budget-Status': budget.level === 'hard' ? 'exceeded' : 'economy',
+      'X-Budget-Reason': budget.reason ?? '',
+    };
+    let skipReason: 'budget' | 'quota' | null = null;
+
     if (existingJob && (existingJob.status === 'pending' || existingJob.status === 'translating')) {
       console.log(`[Queue] Skip enqueue; existing job in progress: ${existingJob.id}`);
     } else if (isTranslationInFlight(taskKey)) {
       console.log(`[Queue] Skip enqueue; task already in flight: ${taskKey}`);
+    } else if (budget.level === 'hard') {
+      // Hard budget cap: serve originals only until the budget resets
+      console.log(`[API] Skip enqueue for ${params.v}: ${budget.reason}`);
+      skipReason = 'budget';
+    } else if (apiKey && !(await consumeTranslationQuota(apiKey))) {
+      console.log(`[API] Skip enqueue for ${params.v}: daily quota of API key ${apiKey.id} used up`);
+      skipReason = 'quota';
     } else {
-      // Enqueue translation task (async, non-blocking)
-      enqueueTranslation(params, originalResult.parsed, sourceHash).catch(error => {
+      // Enqueue translation task (translation itself runs in the background)
+      try {
+        jobId = await enqueueTranslation(params, originalResult.parsed, sourceHash) ?? jobId;
+      } catch (error) {
         console.error(`[API] Failed to enqueue translation:`, error);
+      }
+    }
+
+    // Move translation of the running job toward the current playback position
+    if (jobId && params.t !== undefined) {
+      setJobPriority(jobId, params.t);
+    }
+
+    const estimatedSeconds = skipReason ? null : await estimateMissSeconds(jobId, originalResult.parsed);
+    const jobHeaders: Record<string, string> = {
+      ...(jobId ? { 'X-Job-Id': jobId } : {}),
+      ...(estimatedSeconds !== null ? { 'X-Estimated-Time': String(estimatedSeconds) } : {}),
+      ...budgetHeaders,
+      ...(skipReason === 'quota' ? { 'X-Quota-Status': 'exceeded' } : {}),
+    };
+    const missStatus = skipReason ? 'skipped' : 'pending';
+
+    // Serve the translated prefix of a running job, originals for the rest
+    const partial = jobId ? await loadPartialDocument(jobId, params, originalResult.parsed) : null;
+    if (partial) {
+      console.log(`[API] Serving partial translation for ${params.v}: ${partial.coverage.toFixed(1)}%`);
+      return renderSubtitleDocument(c, partial.document, params, {
+        'X-Translation-Status': 'partial',
+        'X-Translation-Coverage': partial.coverage.toFixed(1),
+        'X-Cache-Status': 'MISS',
+        ...jobHeaders,
       });
     }
 
-    // Return original subtitle immediately (keep original format)
-    const responseContent = originalResult.rawText;
-    const requestedFormat = params.fmt?.toLowerCase();
-    const contentType = originalResult.contentType
-      || (requestedFormat === 'vtt'
-        ? 'text/vtt; charset=utf-8'
-        : requestedFormat?.startsWith('srv')
-          ? 'text/xml; charset=utf-8'
-          : 'application/json; charset=utf-8');
+    // Other formats than the fetched one are rendered from the originals
+    const sourceFormat = detectSubtitleFormat(originalResult.rawText, originalResult.contentType);
+    if (resolveRenderFormat(params.fmt) !== 'json3' || sourceFormat !== 'json3') {
+      const sourceDocument = createSourceDocument(parseYouTubeTimedText(originalResult.parsed), {
+        sourceLanguage: params.lang,
+        targetLanguage: params.tlang || 'zh-CN',
+        track: params.kind || 'asr',
+      });
+      return renderSubtitleDocument(c, sourceDocument, params, {
+        'X-Translation-Status': missStatus,
+        'X-Cache-Status': 'MISS',
+        ...jobHeaders,
+      });
+    }
 
-    return c.text(responseContent, 200, {
-      'Content-Type': contentType,
-      'X-Translation-Status': 'pending',
+    // Return the original json3 immediately
+    return c.text(originalResult.rawText, 200, {
+      'Content-Type': originalResult.contentType || 'application/json; charset=utf-8',
+      'X-Translation-Status': missStatus,
       'X-Cache-Status': 'MISS',
       'X-Video-Id': params.v,
-      'X-Estimated-Time': '45',
+      ...jobHeaders,
     });
 
   } catch (error) {
@@ -247,50 +694,1038 @@ app.get('/api/subtitle', handleSubtitleRequest);
 app.get('/api/timedtext', handleSubtitleRequest);
 
 // ========================================
-// Cache Statistics (Admin only)
+// Cost Estimate
 // ========================================
 
-app.get('/admin/stats', async (c) => {
-  const config = getConfig();
+/**
+ * Dry run of a translation: batches, tokens, cost and wall time for a video
+ * with the current provider and settings. Nothing is translated or enqueued.
+ */
+app.get('/api/estimate', async (c) => {
+  const query = c.req.query();
+  const params: SubtitleRequest = {
+    v: query.v || '',
+    lang: query.lang || '',
+    tlang: query.tlang || 'zh-CN',
+    kind: query.kind || 'asr',
+    fmt: 'json3',
+    original_url: query.original_url ? normalizeOriginalUrl(query.original_url) : buildOriginalTimedtextUrl(c),
+  };
 
-  // Check admin token
-  const token = c.req.header('Authorization')?.replace('Bearer ', '');
-  if (config.admin.token && token !== config.admin.token) {
-    const error: ErrorResponse = {
-      error: 'unauthorized',
-      message: 'Invalid or missing admin token',
-    };
-    return c.json(error, 401);
+  const paramsError = validateSourceParams(params);
+  if (paramsError) {
+    return c.json(paramsError, 400);
   }
 
-  try {
-    const stats = getCacheStats();
-    const db = getDatabase();
-
-    // Get recent jobs
-    const recentJobs = db.prepare(`
-      SELECT id, video_id, lang, status, created_at
-      FROM caption_jobs
-      ORDER BY created_at DESC
-      LIMIT 10
-    `).all();
+  const apiKey = await authenticateApiKey(c, params.tlang || 'zh-CN');
+  if (apiKey instanceof Response) {
+    return apiKey;
+  }
 
-    return c.json({
-      statistics: stats,
-      recentJobs,
-    });
+  let source: YouTubeTimedTextResponse;
+  try {
+    source = (await fetchYouTubeTimedText(params)).parsed;
   } catch (error) {
-    console.error('[Admin] Error fetching stats:', error);
+    console.error(`[API] Failed to fetch YouTube subtitle for estimate:`, error);
+    return subtitleFetchError(c, error);
+  }
 
+  try {
+    const tlang = params.tlang || 'zh-CN';
+    const estimate = await estimateTranslationRun(buildTranslationCues(source), tlang);
+    const response: EstimateResponse = {
+      videoId: params.v,
+      lang: params.lang,
+      tlang,
+      ...estimate,
+      estimatedSeconds: await estimateTranslationSeconds(
+        estimate.segments - estimate.localSegments,
+        estimate.model
+      ),
+    };
+    return c.json(response);
+  } catch (error) {
+    console.error('[API] Error estimating translation:', error);
     const errorResponse: ErrorResponse = {
       error: 'internal_error',
-      message: 'Failed to fetch statistics',
+      message: 'An internal error occurred',
     };
-
     return c.json(errorResponse, 500);
   }
 });
 
+// ========================================
+// Job Status
+// ========================================
+
+app.get('/api/jobs', async (c) => {
+  const query = c.req.query();
+
+  if (!query.v) {
+    const error: ErrorResponse = {
+      error: 'invalid_video_id',
+      message: 'Missing video ID',
+    };
+    return c.json(error, 400);
+  }
+
+  const jobs = await listCaptionJobs({
+    videoId: query.v,
+    lang: query.lang || undefined,
+    tlang: query.tlang || undefined,
+  });
+
+  return c.json({
+    jobs: await Promise.all(jobs.map(job => buildJobStatus(job))),
+  });
+});
+
+app.get('/api/jobs/:id', async (c) => {
+  const jobId = c.req.param('id');
+  const job = await getCaptionJob(jobId);
+
+  if (!job) {
+    const error: ErrorResponse = {
+      error: 'job_not_found',
+      message: `Job ${jobId} not found`,
+    };
+    return c.json(error, 404);
+  }
+
+  return c.json(await buildJobStatus(job));
+});
+
+app.post('/api/jobs/:id/priority', async (c) => {
+  const jobId = c.req.param('id');
+  const job = await getCaptionJob(jobId);
+
+  if (!job) {
+    const error: ErrorResponse = {
+      error: 'job_not_found',
+      message: `Job ${jobId} not found`,
+    };
+    return c.json(error, 404);
+  }
+
+  const apiKey = await authenticateApiKey(c, job.tlang);
+  if (apiKey instanceof Response) {
+    return apiKey;
+  }
+
+  let rawPosition = c.req.query('t');
+  if (rawPosition === undefined) {
+    const body = await c.req.json<{ t?: number | string }>().catch(() => null);
+    rawPosition = body?.t !== undefined ? String(body.t) : undefined;
+  }
+
+  const positionMs = parsePlaybackPosition(rawPosition);
+  if (positionMs === undefined || positionMs === null) {
+    return c.json(invalidPositionError, 400);
+  }
+
+  setJobPriority(jobId, positionMs);
+  console.log(`[API] Job ${jobId} prioritized at ${positionMs}ms`);
+
+  return c.json({ jobId, t: positionMs, status: job.status });
+});
+
+// ========================================
+// Job Progress Stream (SSE)
+// ========================================
+
+const SSE_HEARTBEAT_MS = 15000;
+
+app.get('/api/jobs/:id/events', async (c) => {
+  const jobId = c.req.param('id');
+  const job = await getCaptionJob(jobId);
+
+  if (!job) {
+    const error: ErrorResponse = {
+      error: 'job_not_found',
+      message: `Job ${jobId} not found`,
+    };
+    return c.json(error, 404);
+  }
+
+  return streamSSE(c, async (stream) => {
+    let writes: Promise<void> = Promise.resolve();
+    const send = (event: JobEvent) => {
+      writes = writes.then(() => stream.writeSSE({
+        event: event.type,
+        data: JSON.stringify(event),
+      }));
+      return writes;
+    };
+
+    await new Promise<void>((resolve) => {
+      let heartbeat: ReturnType<typeof setInterval> | null = null;
+      let closed = false;
+
+      const close = () => {
+        if (closed) {
+          return;
+        }
+        closed = true;
+        unsubscribe();
+        if (heartbeat) {
+          clearInterval(heartbeat);
+        }
+        void writes.finally(resolve);
+      };
+
+      // Subscribe before sending the snapshot so no transition is missed
+      const unsubscribe = subscribeJobEvents(jobId, (event) => {
+        void send(event);
+        if (event.type === 'done' || event.type === 'failed') {
+          close();
+        }
+      });
+
+      stream.onAbort(close);
+
+      void send({
+        type: 'status',
+        jobId,
+        status: job.status,
+        errorCode: job.error_code,
+        errorMessage: job.error_message,
+      });
+
+      if (job.status === 'done') {
+        void send({ type: 'done', jobId, cacheKey: buildJobCacheKey(job) });
+        close();
+        return;
+      }
+
+      // Failed with no retry left: nothing more will happen on this stream
+      if (job.status === 'failed' && job.retry_count >= getConfig().queue.maxRetries) {
+        void send({ type: 'failed', jobId, errorCode: job.error_code, errorMessage: job.error_message });
+        close();
+        return;
+      }
+
+      heartbeat = setInterval(() => {
+        writes = writes.then(() => stream.write(': keep-alive\n\n')).then(() => undefined);
+      }, SSE_HEARTBEAT_MS);
+    });
+  });
+});
+
+// ========================================
+// Upload & Translate
+// ========================================
+
+const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+const UPLOAD_TRACK = 'upload';
+const RENDER_FORMAT_NAMES = ['json3', 'srv1', 'srv2', 'srv3', 'vtt', 'srt', 'ttml', 'dfxp', 'ass', 'ssa'];
+
+const uploadTooLargeError: ErrorResponse = {
+  error: 'payload_too_large',
+  message: `Subtitle file exceeds ${MAX_UPLOAD_BYTES} bytes`,
+};
+
+/**
+ * Read an uploaded subtitle from a multipart `file` field or the raw body.
+ * Multipart text fields override query parameters.
+ */
+async function readSubtitleUpload(c: Context): Promise<{
+  text: string;
+  contentType: string | null;
+  fields: Record<string, string | undefined>;
+}> {
+  const query = c.req.query();
+  const requestType = c.req.header('Content-Type') ?? null;
+
+  if (requestType?.includes('multipart/form-data')) {
+    const body = await c.req.parseBody();
+    const file = body.file;
+    const fields: Record<string, string | undefined> = { ...query };
+    for (const [key, value] of Object.entries(body)) {
+      if (typeof value === 'string') {
+        fields[key] = value;
+      }
+    }
+
+    if (file instanceof File) {
+      return { text: await file.text(), contentType: file.type || null, fields };
+    }
+    return { text: typeof file === 'string' ? file : '', contentType: null, fields };
+  }
+
+  return { text: await c.req.text(), contentType: requestType, fields: query };
+}
+
+// Cuts the body stream off at the limit, whether or not Content-Length is sent
+const uploadBodyLimit = bodyLimit({
+  maxSize: MAX_UPLOAD_BYTES,
+  onError: (c) => c.json(uploadTooLargeError, 413),
+});
+
+app.post('/api/translate', uploadBodyLimit, async (c) => {
+  const upload = await readSubtitleUpload(c);
+
+  if (!upload.text.trim()) {
+    const error: ErrorResponse = {
+      error: 'empty_subtitle',
+      message: 'Request body must contain a subtitle file (vtt, srt, srv3, json3, ttml or ass)',
+    };
+    return c.json(error, 400);
+  }
+
+  const { fields } = upload;
+  const tlang = fields.tlang || 'zh-CN';
+  const lang = fields.lang || 'auto';
+  if (tlang.length > 10 || lang.length > 10) {
+    const error: ErrorResponse = {
+      error: 'invalid_language',
+      message: 'Invalid language code',
+    };
+    return c.json(error, 400);
+  }
+
+  const outputMode = parseOutputModeValue(fields.mode);
+  if (outputMode === null) {
+    return c.json(invalidOutputModeError, 400);
+  }
+
+  const channel = parseChannelId(fields.channel);
+  if (channel === null) {
+    return c.json(invalidChannelError, 400);
+  }
+
+  const client = parseClientId(c);
+  if (client === null) {
+    return c.json(invalidClientError, 400);
+  }
+
+  const apiKey = await authenticateApiKey(c, tlang);
+  if (apiKey instanceof Response) {
+    return apiKey;
+  }
+
+  const outputFormat = fields.fmt?.trim().toLowerCase() || 'json3';
+  if (!RENDER_FORMAT_NAMES.includes(outputFormat)) {
+    const error: ErrorResponse = {
+      error: 'invalid_format',
+      message: `Invalid output format; expected one of: ${RENDER_FORMAT_NAMES.join(', ')}`,
+    };
+    return c.json(error, 400);
+  }
+
+  let source: YouTubeTimedTextResponse;
+  try {
+    source = parseTimedTextResponse(upload.text, upload.contentType);
+    if (!Array.isArray(source.events) || parseYouTubeTimedText(source).length === 0) {
+      throw new SubtitleParseError('json3', 'no subtitle cues found');
+    }
+  } catch (error) {
+    if (error instanceof SubtitleParseError || error instanceof SyntaxError) {
+      const errorResponse: ErrorResponse = {
+        error: 'invalid_subtitle',
+        message: error.message,
+      };
+      return c.json(errorResponse, 400);
+    }
+    throw error;
+  }
+
+  const sourceHash = generateSourceHash(JSON.stringify(source));
+  const params: SubtitleRequest = {
+    v: `${UPLOAD_TRACK}-${sourceHash}`,
+    lang,
+    tlang,
+    kind: UPLOAD_TRACK,
+    fmt: 'json3',
+    mode: outputMode,
+    channel,
+    client: apiKey?.client_id ?? client,
+  };
+
+  const existingJob = await getCaptionJobByKey({
+    videoId: params.v,
+    lang,
+    tlang,
+    track: UPLOAD_TRACK,
+    sourceHash,
+  });
+
+  let jobId = existingJob?.id ?? null;
+  let status = existingJob?.status ?? 'pending';
+  const reusable = existingJob
+    && (existingJob.status === 'done' || existingJob.status === 'pending' || existingJob.status === 'translating');
+
+  if (!reusable && !isTranslationInFlight(buildTranslationTaskKey(params, sourceHash))) {
+    if (apiKey && !(await consumeTranslationQuota(apiKey))) {
+      return c.json(quotaExceededError, 429);
+    }
+    jobId = await enqueueTranslation(params, source, sourceHash) ?? jobId;
+    status = 'pending';
+  }
+
+  if (!jobId) {
+    const error: ErrorResponse = {
+      error: 'internal_error',
+      message: 'Failed to create translation job',
+    };
+    return c.json(error, 500);
+  }
+
+  const downloadQuery = new URLSearchParams({ fmt: outputFormat });
+  if (outputMode) {
+    downloadQuery.set('mode', outputMode);
+  }
+
+  console.log(`[API] Upload ${params.v} (${lang} -> ${tlang}) queued as job ${jobId}`);
+
+  return c.json({
+    jobId,
+    status,
+    statusUrl: `/api/jobs/${jobId}`,
+    eventsUrl: `/api/jobs/${jobId}/events`,
+    downloadUrl: `/api/translate/${jobId}/download?${downloadQuery.toString()}`,
+  }, 202);
+});
+
+app.get('/api/translate/:id/download', async (c) => {
+  const jobId = c.req.param('id');
+  const job = await getCaptionJob(jobId);
+
+  if (!job || job.track !== UPLOAD_TRACK) {
+    const error: ErrorResponse = {
+      error: 'job_not_found',
+      message: `Job ${jobId} not found`,
+    };
+    return c.json(error, 404);
+  }
+
+  if (job.status !== 'done') {
+    const error: ErrorResponse = {
+      error: 'translation_not_ready',
+      message: `Job ${jobId} is ${job.status}`,
+    };
+    return c.json(error, 409);
+  }
+
+  const outputMode = parseOutputMode(c);
+  if (outputMode === null) {
+    return c.json(invalidOutputModeError, 400);
+  }
+
+  const speakerLabels = parseSpeakerLabels(c);
+  if (speakerLabels === null) {
+    return c.json(invalidSpeakerLabelsError, 400);
+  }
+
+  const document = await getBilingualSubtitle(buildJobCacheKey(job));
+  if (!document) {
+    const error: ErrorResponse = {
+      error: 'result_not_found',
+      message: `No stored translation for job ${jobId}`,
+    };
+    return c.json(error, 404);
+  }
+
+  const params: SubtitleRequest = {
+    v: job.video_id,
+    lang: job.lang,
+    tlang: job.tlang,
+    kind: job.track,
+    fmt: c.req.query('fmt') || 'json3',
+    mode: outputMode,
+    karaoke: parseFlag(c.req.query('karaoke')),
+    speakers: speakerLabels,
+  };
+
+  c.header(
+    'Content-Disposition',
+    `attachment; filename="${job.video_id}.${job.tlang}.${resolveRenderFormat(params.fmt)}"`
+  );
+
+  return renderSubtitleDocument(c, document, params, {
+    'X-Translation-Status': 'completed',
+    'X-Job-Id': jobId,
+  });
+});
+
+// ========================================
+// Cache Statistics (Admin only)
+// ========================================
+
+/**
+ * Reject requests without the admin bearer token; null when authorized
+ */
+const requireAdmin = (c: Context) => {
+  const config = getConfig();
+  const token = c.req.header('Authorization')?.replace('Bearer ', '');
+  if (config.admin.token && token !== config.admin.token) {
+    const error: ErrorResponse = {
+      error: 'unauthorized',
+      message: 'Invalid or missing admin token',
+    };
+    return c.json(error, 401);
+  }
+  return null;
+};
+
+/**
+ * Like requireAdmin, but fails closed: endpoints that change state or manage
+ * API keys stay unavailable until ADMIN_TOKEN is configured
+ */
+const requireAdminToken = (c: Context) => {
+  if (!getConfig().admin.token) {
+    const error: ErrorResponse = {
+      error: 'admin_token_not_configured',
+      message: 'Set ADMIN_TOKEN to use this endpoint',
+    };
+    return c.json(error, 503);
+  }
+  return requireAdmin(c);
+};
+
+app.get('/admin/stats', async (c) => {
+  const unauthorized = requireAdmin(c);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  try {
+    const stats = getCacheStats();
+    const db = getDatabase();
+
+    // Get recent jobs
+    const recentJobs = db.prepare(`
+      SELECT id, video_id, lang, status, created_at
+      FROM caption_jobs
+      ORDER BY created_at DESC
+      LIMIT 10
+    `).all();
+
+    // How well each model follows stored glossaries (line counts)
+    const glossaryByModel = db.prepare(`
+      SELECT model,
+        SUM(glossary_checked) AS checked,
+        SUM(glossary_violations) AS violations,
+        SUM(glossary_unresolved) AS unresolved
+      FROM caption_jobs
+      WHERE glossary_checked > 0
+      GROUP BY model
+      ORDER BY model
+    `).all();
+
+    return c.json({
+      statistics: stats,
+      recentJobs,
+      glossaryByModel,
+    });
+  } catch (error) {
+    console.error('[Admin] Error fetching stats:', error);
+
+    const errorResponse: ErrorResponse = {
+      error: 'internal_error',
+      message: 'Failed to fetch statistics',
+    };
+
+    return c.json(errorResponse, 500);
+  }
+});
+
+// ========================================
+// Translation Memory (Admin only)
+// ========================================
+
+const MAX_MEMORY_PAGE_SIZE = 500;
+
+/**
+ * Read the shared translation memory filters from the query string
+ */
+const parseMemoryFilter = (c: Context) => ({
+  sourceLanguage: c.req.query('source_lang') || undefined,
+  targetLanguage: c.req.query('target_lang') || undefined,
+  model: c.req.query('model') || undefined,
+  search: c.req.query('q') || undefined,
+});
+
+app.get('/admin/memory', async (c) => {
+  const unauthorized = requireAdmin(c);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const limit = Math.min(Math.max(1, Number(c.req.query('limit')) || 50), MAX_MEMORY_PAGE_SIZE);
+  const offset = Math.max(0, Number(c.req.query('offset')) || 0);
+  const { entries, total } = await listTranslationMemory({ ...parseMemoryFilter(c), limit, offset });
+
+  return c.json({ entries, total, limit, offset });
+});
+
+app.delete('/admin/memory/:id', async (c) => {
+  const unauthorized = requireAdminToken(c);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const id = Number(c.req.param('id'));
+  const deleted = Number.isInteger(id) ? await purgeTranslationMemory({ id }) : 0;
+  if (deleted === 0) {
+    const error: ErrorResponse = {
+      error: 'memory_entry_not_found',
+      message: `Translation memory entry ${c.req.param('id')} not found`,
+    };
+    return c.json(error, 404);
+  }
+
+  return c.json({ deleted });
+});
+
+app.delete('/admin/memory', async (c) => {
+  const unauthorized = requireAdminToken(c);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const filter = parseMemoryFilter(c);
+  const beforeParam = c.req.query('before');
+  const before = beforeParam ? Number(beforeParam) : undefined;
+  if (before !== undefined && !Number.isFinite(before)) {
+    const error: ErrorResponse = {
+      error: 'invalid_filter',
+      message: 'before must be a Unix timestamp in milliseconds',
+    };
+    return c.json(error, 400);
+  }
+
+  // Purging everything must be explicit
+  const hasFilter = Object.values(filter).some(Boolean) || before !== undefined;
+  if (!hasFilter && c.req.query('all') !== '1') {
+    const error: ErrorResponse = {
+      error: 'missing_filter',
+      message: 'Pass source_lang, target_lang, model, q or before, or all=1 to purge every entry',
+    };
+    return c.json(error, 400);
+  }
+
+  const deleted = await purgeTranslationMemory({ ...filter, before });
+  return c.json({ deleted });
+});
+
+// ========================================
+// Glossary (Admin only)
+// ========================================
+
+const GLOSSARY_SCOPES: readonly GlossaryScope[] = ['global', 'channel', 'video'];
+const GLOSSARY_STATUSES: readonly GlossaryTermStatus[] = ['approved', 'suggested'];
+const MAX_GLOSSARY_PAGE_SIZE = 500;
+
+type GlossaryTermBody = {
+  scope?: string;
+  scope_id?: string;
+  target_lang?: string;
+  source_term?: string;
+  translation?: string | null;
+  never_translate?: boolean;
+  status?: string;
+  note?: string | null;
+};
+
+const invalidGlossaryTerm = (message: string): ErrorResponse => ({
+  error: 'invalid_glossary_term',
+  message,
+});
+
+const glossaryTermNotFound = (id: string): ErrorResponse => ({
+  error: 'glossary_term_not_found',
+  message: `Glossary term ${id} not found`,
+});
+
+const isUniqueConstraintError = (error: unknown): boolean => (
+  error instanceof Error && (error as { code?: string }).code === 'SQLITE_CONSTRAINT_UNIQUE'
+);
+
+const glossaryTermConflictError: ErrorResponse = {
+  error: 'glossary_term_conflict',
+  message: 'A term with the same scope, target language and source term already exists',
+};
+
+/**
+ * Validate a term body; partial bodies (PATCH) may omit any field.
+ * Returns the input or an error message.
+ */
+const parseGlossaryTermBody = (
+  body: GlossaryTermBody,
+  partial: boolean
+): Partial<GlossaryTermInput> | string => {
+  const input: Partial<GlossaryTermInput> = {};
+
+  if (body.scope !== undefined || !partial) {
+    const scope = GLOSSARY_SCOPES.find(value => value === (body.scope ?? 'global'));
+    if (!scope) {
+      return `scope must be one of: ${GLOSSARY_SCOPES.join(', ')}`;
+    }
+    input.scope = scope;
+  }
+  if (body.scope_id !== undefined) {
+    input.scopeId = String(body.scope_id).trim();
+  }
+  if (input.scope && input.scope !== 'global' && !(input.scopeId ?? '')) {
+    return `scope_id is required for ${input.scope} terms`;
+  }
+  if (body.target_lang !== undefined) {
+    const targetLanguage = String(body.target_lang).trim();
+    if (targetLanguage.length > 10) {
+      return 'Invalid target_lang';
+    }
+    input.targetLanguage = targetLanguage;
+  }
+  if (body.source_term !== undefined || !partial) {
+    const sourceTerm = typeof body.source_term === 'string' ? body.source_term.trim() : '';
+    if (!sourceTerm || sourceTerm.length > 200) {
+      return 'source_term must be a non-empty string of at most 200 characters';
+    }
+    input.sourceTerm = sourceTerm;
+  }
+  if (body.translation !== undefined) {
+    input.translation = body.translation === null ? null : String(body.translation);
+  }
+  if (body.never_translate !== undefined) {
+    input.neverTranslate = body.never_translate === true;
+  }
+  if (!partial && !input.neverTranslate && !input.translation?.trim()) {
+    return 'translation is required unless never_translate is true';
+  }
+  if (body.status !== undefined) {
+    const status = GLOSSARY_STATUSES.find(value => value === body.status);
+    if (!status) {
+      return `status must be one of: ${GLOSSARY_STATUSES.join(', ')}`;
+    }
+    input.status = status;
+  }
+  if (body.note !== undefined) {
+    input.note = body.note === null ? null : String(body.note);
+  }
+
+  return input;
+};
+
+app.get('/admin/glossary', async (c) => {
+  const unauthorized = requireAdmin(c);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const limit = Math.min(Math.max(1, Number(c.req.query('limit')) || 50), MAX_GLOSSARY_PAGE_SIZE);
+  const offset = Math.max(0, Number(c.req.query('offset')) || 0);
+  const { terms, total } = await listGlossaryTerms({
+    scope: GLOSSARY_SCOPES.find(scope => scope === c.req.query('scope')),
+    scopeId: c.req.query('scope_id'),
+    targetLanguage: c.req.query('target_lang'),
+    status: GLOSSARY_STATUSES.find(status => status === c.req.query('status')),
+    search: c.req.query('q') || undefined,
+    limit,
+    offset,
+  });
+
+  return c.json({ terms, total, limit, offset });
+});
+
+app.post('/admin/glossary', async (c) => {
+  const unauthorized = requireAdminToken(c);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const body = await c.req.json<GlossaryTermBody>().catch(() => null);
+  const input = body ? parseGlossaryTermBody(body, false) : 'Request body must be a JSON object';
+  if (typeof input === 'string') {
+    return c.json(invalidGlossaryTerm(input), 400);
+  }
+
+  const term = await upsertGlossaryTerm(input as GlossaryTermInput);
+  return c.json(term, 201);
+});
+
+app.patch('/admin/glossary/:id', async (c) => {
+  const unauthorized = requireAdminToken(c);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const body = await c.req.json<GlossaryTermBody>().catch(() => null);
+  const changes = body ? parseGlossaryTermBody(body, true) : 'Request body must be a JSON object';
+  if (typeof changes === 'string') {
+    return c.json(invalidGlossaryTerm(changes), 400);
+  }
+
+  const id = Number(c.req.param('id'));
+  try {
+    const term = Number.isInteger(id) ? await updateGlossaryTerm(id, changes) : null;
+    return term ? c.json(term) : c.json(glossaryTermNotFound(c.req.param('id')), 404);
+  } catch (error) {
+    if (isUniqueConstraintError(error)) {
+      return c.json(glossaryTermConflictError, 409);
+    }
+    throw error;
+  }
+});
+
+/**
+ * Approve a suggested term, optionally moving it to another scope or
+ * correcting its translation on the way
+ */
+app.post('/admin/glossary/:id/approve', async (c) => {
+  const unauthorized = requireAdminToken(c);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const body = await c.req.json<GlossaryTermBody>().catch(() => ({}));
+  const changes = parseGlossaryTermBody({ ...body, status: 'approved' }, true);
+  if (typeof changes === 'string') {
+    return c.json(invalidGlossaryTerm(changes), 400);
+  }
+
+  const id = Number(c.req.param('id'));
+  try {
+    const term = Number.isInteger(id) ? await updateGlossaryTerm(id, changes) : null;
+    return term ? c.json(term) : c.json(glossaryTermNotFound(c.req.param('id')), 404);
+  } catch (error) {
+    if (isUniqueConstraintError(error)) {
+      return c.json(glossaryTermConflictError, 409);
+    }
+    throw error;
+  }
+});
+
+app.delete('/admin/glossary/:id', async (c) => {
+  const unauthorized = requireAdminToken(c);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const id = Number(c.req.param('id'));
+  const deleted = Number.isInteger(id) ? await deleteGlossaryTerm(id) : false;
+  if (!deleted) {
+    return c.json(glossaryTermNotFound(c.req.param('id')), 404);
+  }
+
+  return c.json({ deleted: 1 });
+});
+
+// ========================================
+// Usage and Cost (Admin only)
+// ========================================
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_USAGE_DAYS = 30;
+
+app.get('/admin/usage', async (c) => {
+  const unauthorized = requireAdmin(c);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const to = c.req.query('to') || new Date().toISOString().slice(0, 10);
+  const from = c.req.query('from')
+    || new Date(Date.parse(`${to}T00:00:00.000Z`) - (DEFAULT_USAGE_DAYS - 1) * 86_400_000).toISOString().slice(0, 10);
+  if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || Number.isNaN(Date.parse(from)) || from > to) {
+    const error: ErrorResponse = {
+      error: 'invalid_date_range',
+      message: 'from and to must be YYYY-MM-DD dates with from <= to',
+    };
+    return c.json(error, 400);
+  }
+
+  const report = await getUsageReport({ from, to });
+  return c.json({ from, to, ...report, budget: await evaluateBudget() });
+});
+
+app.get('/admin/usage/jobs/:id', async (c) => {
+  const unauthorized = requireAdmin(c);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const jobId = c.req.param('id');
+  const usage = await getJobUsage(jobId);
+  if (usage.breakdown.length === 0 && !await getCaptionJob(jobId)) {
+    const error: ErrorResponse = {
+      error: 'job_not_found',
+      message: `Job ${jobId} not found`,
+    };
+    return c.json(error, 404);
+  }
+
+  return c.json({ jobId, ...usage });
+});
+
+// ========================================
+// Client API Keys (Admin only)
+// ========================================
+
+const DEFAULT_KEY_USAGE_DAYS = 30;
+
+type ApiKeyBody = {
+  name?: string;
+  client?: string;
+  rate_limit?: number;
+  daily_quota?: number;
+  allowed_tlangs?: string[] | null;
+};
+
+const invalidApiKeyBody = (message: string): ErrorResponse => ({
+  error: 'invalid_api_key_request',
+  message,
+});
+
+const apiKeyNotFound = (id: string): ErrorResponse => ({
+  error: 'api_key_not_found',
+  message: `API key ${id} not found`,
+});
+
+const isLimit = (value: unknown): value is number => (
+  typeof value === 'number' && Number.isInteger(value) && value >= 0
+);
+
+/**
+ * Validate a key body; partial bodies (PATCH) may omit any field.
+ * Returns the input or an error message.
+ */
+const parseApiKeyBody = (body: ApiKeyBody, partial: boolean): Partial<ApiKeyInput> | string => {
+  const input: Partial<ApiKeyInput> = {};
+
+  if (body.name !== undefined || !partial) {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name || name.length > 100) {
+      return 'name must be a non-empty string of at most 100 characters';
+    }
+    input.name = name;
+  }
+  if (body.client !== undefined) {
+    const clientId = String(body.client).trim();
+    if (!CLIENT_ID_PATTERN.test(clientId)) {
+      return 'client must be 1-64 letters, digits, ".", "_" or "-"';
+    }
+    input.clientId = clientId;
+  }
+  if (body.rate_limit !== undefined) {
+    if (!isLimit(body.rate_limit)) {
+      return 'rate_limit must be a non-negative integer (requests per minute, 0 = unlimited)';
+    }
+    input.rateLimit = body.rate_limit;
+  }
+  if (body.daily_quota !== undefined) {
+    if (!isLimit(body.daily_quota)) {
+      return 'daily_quota must be a non-negative integer (translations per day, 0 = unlimited)';
+    }
+    input.dailyQuota = body.daily_quota;
+  }
+  if (body.allowed_tlangs !== undefined) {
+    const languages = body.allowed_tlangs;
+    if (languages !== null && (
+      !Array.isArray(languages)
+      || languages.some(language => typeof language !== 'string' || !language.trim() || language.length > 10)
+    )) {
+      return 'allowed_tlangs must be an array of language codes or null';
+    }
+    input.allowedTargetLanguages = languages?.map(language => language.trim()) ?? null;
+  }
+
+  return input;
+};
+
+app.get('/admin/keys', async (c) => {
+  const unauthorized = requireAdminToken(c);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const keys = await listApiKeys({
+    includeRevoked: c.req.query('include_revoked') === '1',
+    clientId: c.req.query('client') || undefined,
+  });
+  return c.json({ keys });
+});
+
+/**
+ * Issue a key. The secret is only returned in this response.
+ */
+app.post('/admin/keys', async (c) => {
+  const unauthorized = requireAdminToken(c);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const body = await c.req.json<ApiKeyBody>().catch(() => null);
+  const input = body ? parseApiKeyBody(body, false) : 'Request body must be a JSON object';
+  if (typeof input === 'string') {
+    return c.json(invalidApiKeyBody(input), 400);
+  }
+
+  const { key, secret } = await issueApiKey(input as ApiKeyInput);
+  return c.json({ key, secret }, 201);
+});
+
+/**
+ * One key with its daily request history and its client's spend
+ */
+app.get('/admin/keys/:id', async (c) => {
+  const unauthorized = requireAdminToken(c);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const key = await getApiKey(c.req.param('id'));
+  if (!key) {
+    return c.json(apiKeyNotFound(c.req.param('id')), 404);
+  }
+
+  const days = Math.min(Math.max(1, Number(c.req.query('days')) || DEFAULT_KEY_USAGE_DAYS), 366);
+  const today = new Date().toISOString().slice(0, 10);
+  const from = new Date(Date.parse(`${today}T00:00:00.000Z`) - (days - 1) * 86_400_000).toISOString().slice(0, 10);
+  const usage = await getApiKeyUsage(key.id, { from, to: today });
+  const translationsToday = usage.find(day => day.date === today)?.translation_count ?? 0;
+
+  return c.json({
+    key,
+    quota: {
+      date: today,
+      used: translationsToday,
+      remaining: key.daily_quota > 0 ? Math.max(0, key.daily_quota - translationsToday) : null,
+    },
+    usage,
+    spend: await getSpend(today, key.client_id),
+    budget: await evaluateBudget(key.client_id),
+  });
+});
+
+app.patch('/admin/keys/:id', async (c) => {
+  const unauthorized = requireAdminToken(c);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const body = await c.req.json<ApiKeyBody>().catch(() => null);
+  const changes = body ? parseApiKeyBody(body, true) : 'Request body must be a JSON object';
+  if (typeof changes === 'string') {
+    return c.json(invalidApiKeyBody(changes), 400);
+  }
+
+  const key = await updateApiKey(c.req.param('id'), changes);
+  return key ? c.json(key) : c.json(apiKeyNotFound(c.req.param('id')), 404);
+});
+
+/**
+ * Revoke a key; its usage history is kept
+ */
+app.delete('/admin/keys/:id', async (c) => {
+  const unauthorized = requireAdminToken(c);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const key = await revokeApiKey(c.req.param('id'));
+  return key ? c.json(key) : c.json(apiKeyNotFound(c.req.param('id')), 404);
+});
+
 // ========================================
 // 404 Handler
 // ========================================
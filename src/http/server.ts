@@ -5,7 +5,7 @@ import { serve } from '@hono/node-server';
 import app from './routes.js';
 import { getConfig } from '../config/env.js';
 import { initDatabase, closeDatabase, cleanupExpiredJobs } from '../db/sqlite.js';
-import { startWorker, stopWorker } from '../queue/queue.js';
+import { recoverInterruptedJobs, startWorker, stopWorker } from '../queue/queue.js';
 
 // ========================================
 // Server Startup
@@ -28,7 +28,8 @@ async function startServer() {
     cleanupExpiredJobs();
   }, config.cache.cleanupIntervalMs);
 
-  // Start translation worker
+  // Resume jobs interrupted by the previous shutdown, then start the worker
+  await recoverInterruptedJobs();
   startWorker();
 
   // Start HTTP server
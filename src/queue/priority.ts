@@ -0,0 +1,27 @@
+/**
+ * Job Playback Priorities
+ *
+ * Latest playback position requested per running job. The translator's range
+ * scheduler reads it before each batch, so a newer position re-orders the
+ * ranges that are still pending.
+ */
+
+const playbackPositions = new Map<string, number>();
+
+export function setJobPriority(jobId: string, positionMs: number): void {
+  playbackPositions.set(jobId, Math.max(0, Math.round(positionMs)));
+}
+
+export function getJobPriority(jobId: string): number | null {
+  return playbackPositions.get(jobId) ?? null;
+}
+
+export function clearJobPriority(jobId: string): void {
+  playbackPositions.delete(jobId);
+}
+
+export default {
+  setJobPriority,
+  getJobPriority,
+  clearJobPriority,
+};
@@ -1,27 +1,48 @@
 /**
  * Translation Task Queue
  *
- * In-process queue with concurrency control and retry logic
+ * In-process queue with concurrency control and retry logic.
+ * Jobs persist their original timedtext payload in SQLite so pending and
+ * failed work can be rehydrated after a restart.
  */
 import { randomUUID } from 'crypto';
 import { getConfig } from '../config/env.js';
 import { parseYouTubeTimedText } from '../subtitle/parse.js';
-import {
-  buildSourceSegments,
-  optimizeBilingualCues,
-  optimizeSubtitleTiming,
-} from '../subtitle/segment.js';
-import { renderWebVTT } from '../subtitle/render.js';
+import { buildSourceSegments, optimizeSubtitleTiming } from '../subtitle/segment.js';
+import { classifyCues } from '../subtitle/classify.js';
+import { attachWordTimings, createBilingualDocument, serializeBilingualDocument } from '../subtitle/document.js';
+import { buildScrollingAsrTimeline } from '../subtitle/timeline.js';
+import { extractStyleSheet } from '../subtitle/style.js';
 import { translateToBilingual } from '../services/translator.js';
+import { runWithUsageScope } from '../services/usage.js';
+import { evaluateBudget, nextBudgetWindow } from '../services/budget.js';
 import {
   createCaptionJob,
   updateCaptionJobStatus,
+  getCaptionJobByKey,
+  getCaptionSegments,
+  initCaptionSegments,
+  saveCaptionSegments,
+  clearCaptionSegments,
   getPendingJobs,
   incrementJobRetry,
+  deferCaptionJob,
+  resetInterruptedJobs,
+  setCaptionJobWorkload,
+  setCaptionJobGlossaryStats,
+  recordTranslationThroughput,
   setBilingualSubtitle,
 } from '../services/cache.js';
 import { generateCacheKey } from '../services/youtube.js';
-import type { YouTubeTimedTextResponse, SubtitleRequest } from '../types/subtitle.js';
+import { emitJobEvent } from '../services/events.js';
+import { getTranslationProvider } from '../services/providers/index.js';
+import { clearJobPriority, getJobPriority, setJobPriority } from './priority.js';
+import type {
+  CaptionJob,
+  SubtitleCue,
+  SubtitleRequest,
+  YouTubeTimedTextResponse,
+} from '../types/subtitle.js';
 
 interface TranslationTask {
   id: string;
@@ -47,6 +68,18 @@ export function isTranslationInFlight(taskKey: string): boolean {
   return inFlightTaskKeys.has(taskKey);
 }
 
+/**
+ * Segments a job translates: parsed, re-segmented, retimed and with
+ * sound-event / lyric cues tagged
+ */
+export function buildTranslationCues(originalJson: YouTubeTimedTextResponse): SubtitleCue[] {
+  const originalCues = parseYouTubeTimedText(originalJson);
+  const preserveTiming = getConfig().subtitle.outputMode === 'translation-only';
+  const optimizedSourceCues = buildSourceSegments(originalJson, originalCues, { preserveTiming });
+
+  return classifyCues(optimizeSubtitleTiming(optimizedSourceCues));
+}
+
 /**
  * Enqueue translation task
  */
@@ -62,30 +95,40 @@ export async function enqueueTranslation(
   }
 
   inFlightTaskKeys.add(taskKey);
-  const taskId = randomUUID();
-
-  const task: TranslationTask = {
-    id: taskId,
-    params,
-    originalJson,
-    sourceHash,
-    createdAt: Date.now(),
-    taskKey,
-  };
+  let taskId: string;
 
   try {
-    taskQueue.push(task);
-
-    // Create pending job in database
-    await createCaptionJob({
-      id: taskId,
+    const jobKey = {
       videoId: params.v,
       lang: params.lang,
       tlang: params.tlang || 'zh-CN',
       track: params.kind || 'asr',
-      fmt: params.fmt || 'json3',
       sourceHash,
+    };
+
+    // Reuse the existing row id so status updates hit the upserted job
+    const existingJob = await getCaptionJobByKey(jobKey);
+    taskId = existingJob?.id ?? randomUUID();
+
+    // Create pending job in database (with payload for later retries).
+    // Jobs serve every output format; rows from older versions keep their fmt.
+    await createCaptionJob({
+      id: taskId,
+      ...jobKey,
+      fmt: existingJob?.fmt ?? 'json3',
       status: 'pending',
+      sourceJson: JSON.stringify(originalJson),
+      channelId: params.channel,
+      clientId: params.client,
+    });
+
+    taskQueue.push({
+      id: taskId,
+      params,
+      originalJson,
+      sourceHash,
+      createdAt: Date.now(),
+      taskKey,
     });
   } catch (error) {
     inFlightTaskKeys.delete(taskKey);
@@ -101,6 +144,13 @@ export async function enqueueTranslation(
   return taskId;
 }
 
+/**
+ * Return jobs interrupted by a previous shutdown to the pending pool
+ */
+export async function recoverInterruptedJobs(): Promise<number> {
+  return resetInterruptedJobs();
+}
+
 /**
  * Start background worker
  */
@@ -145,9 +195,17 @@ async function processQueue(): Promise<void> {
     }
 
     console.log(`[Queue] Found ${pendingJobs.length} pending jobs for retry`);
-    // Note: Retry logic would need original subtitle data, which we don't store
-    // For simplicity, we'll skip retries for now
-    return;
+
+    for (const job of pendingJobs) {
+      const task = await rehydrateTask(job);
+      if (task) {
+        tasksToProcess.push(task);
+      }
+    }
+
+    if (tasksToProcess.length === 0) {
+      return;
+    }
   }
 
   console.log(`[Queue] Processing ${tasksToProcess.length} tasks...`);
@@ -157,6 +215,51 @@ async function processQueue(): Promise<void> {
   await Promise.allSettled(promises);
 }
 
+/**
+ * Rebuild an in-memory task from a persisted caption job
+ */
+async function rehydrateTask(job: CaptionJob): Promise<TranslationTask | null> {
+  const params: SubtitleRequest = {
+    v: job.video_id,
+    lang: job.lang,
+    tlang: job.tlang,
+    kind: job.track,
+    fmt: job.fmt,
+    ...(job.channel_id ? { channel: job.channel_id } : {}),
+    ...(job.client_id ? { client: job.client_id } : {}),
+  };
+  const taskKey = buildTranslationTaskKey(params, job.source_hash);
+
+  if (inFlightTaskKeys.has(taskKey)) {
+    return null;
+  }
+
+  let originalJson: YouTubeTimedTextResponse;
+  try {
+    originalJson = JSON.parse(job.source_json ?? '') as YouTubeTimedTextResponse;
+  } catch (error) {
+    console.error(`[Queue] Failed to rehydrate job ${job.id}: invalid source payload`);
+    await updateCaptionJobStatus(job.id, 'failed', undefined, {
+      code: 'invalid_source',
+      message: error instanceof Error ? error.message : 'Invalid source payload',
+    });
+    await incrementJobRetry(job.id);
+    return null;
+  }
+
+  inFlightTaskKeys.add(taskKey);
+  console.log(`[Queue] Rehydrated job ${job.id} (retry ${job.retry_count})`);
+
+  return {
+    id: job.id,
+    params,
+    originalJson,
+    sourceHash: job.source_hash,
+    createdAt: job.created_at,
+    taskKey,
+  };
+}
+
 function scheduleQueueDrain(): void {
   if (drainScheduled) {
     return;
@@ -197,41 +300,103 @@ async function processTask(task: TranslationTask): Promise<void> {
     console.log(`[Queue] Processing task: ${id}`);
     const config = getConfig();
 
+    // Budgets are checked when the job starts; a capped job waits for the next
+    // budget window without using up its retries
+    const budget = await evaluateBudget(params.client);
+    if (budget.level === 'hard') {
+      console.warn(`[Queue] Deferring task ${id}: ${budget.reason}`);
+      await updateCaptionJobStatus(id, 'failed', undefined, {
+        code: 'budget_exceeded',
+        message: budget.reason ?? 'Translation budget exhausted',
+      });
+      await deferCaptionJob(id, nextBudgetWindow());
+      return;
+    }
+
+    const economy = budget.level === 'soft';
+    const economyModel = economy && config.translationProvider.name === 'openai'
+      ? config.budget.economyModel ?? undefined
+      : undefined;
+    if (economy) {
+      console.log(`[Queue] Economy mode for ${id}${economyModel ? ` (${economyModel})` : ''}: ${budget.reason}`);
+    }
+
     // Update status to translating
     await updateCaptionJobStatus(id, 'translating');
 
-    // Parse original subtitles
-    const originalCues = parseYouTubeTimedText(originalJson);
-    const preserveTiming = config.subtitle.outputMode === 'translation-only';
-    const optimizedSourceCues = buildSourceSegments(originalJson, originalCues, { preserveTiming });
+    if (params.t !== undefined && getJobPriority(id) === null) {
+      setJobPriority(id, params.t);
+    }
 
-    // Optimize timing
-    const optimizedCues = optimizeSubtitleTiming(optimizedSourceCues);
+    const optimizedCues = buildTranslationCues(originalJson);
 
-    // Translate to bilingual
-    const translatedBilingualCues = await translateToBilingual(
+    // Resume from segments persisted by an earlier attempt
+    const completed = await loadCompletedSegments(id, optimizedCues);
+    await initCaptionSegments(id, optimizedCues);
+    const model = economyModel ?? getTranslationProvider().model;
+    await setCaptionJobWorkload(id, { segmentsTotal: optimizedCues.length, model });
+    const translationStart = Date.now();
+    const glossaryStats = { checked: 0, violations: 0, unresolved: 0 };
+
+    // Translate to bilingual (provider usage is attributed to this job and client)
+    const usageScope = { jobId: id, clientId: params.client, model: economyModel };
+    const translatedBilingualCues = await runWithUsageScope(usageScope, () => translateToBilingual(
       optimizedCues,
       params.tlang || 'zh-CN',
-      config.queue.concurrency
+      config.queue.concurrency,
+      {
+        completed,
+        onBatchTranslated: (segments) => saveCaptionSegments(id, segments),
+        onProgress: (progress) => emitJobEvent({ type: 'progress', jobId: id, ...progress }),
+        getPlaybackPosition: () => getJobPriority(id),
+        sourceLanguage: params.lang,
+        glossary: { videoId: params.v, channelId: params.channel },
+        economy,
+        onGlossaryChecked: (stats) => {
+          glossaryStats.checked += stats.checked;
+          glossaryStats.violations += stats.violations;
+          glossaryStats.unresolved += stats.unresolved;
+        },
+      }
+    ));
+
+    if (glossaryStats.checked > 0) {
+      await setCaptionJobGlossaryStats(id, glossaryStats);
+      console.log(
+        `[Queue] Glossary check for ${id}: ${glossaryStats.violations}/${glossaryStats.checked} lines violated, ${glossaryStats.unresolved} unresolved`
+      );
+    }
+
+    const segmentsTranslated = optimizedCues.length - completed.size;
+    if (segmentsTranslated > 0) {
+      await recordTranslationThroughput({
+        jobId: id,
+        model,
+        segmentCount: segmentsTranslated,
+        durationMs: Date.now() - translationStart,
+      });
+    }
+
+    // Keep aligned source/translation cues; display splitting happens at render time
+    const document = attachWordTimings(
+      createBilingualDocument(translatedBilingualCues, {
+        sourceLanguage: params.lang,
+        targetLanguage: params.tlang || 'zh-CN',
+        track: params.kind || 'asr',
+        styles: extractStyleSheet(originalJson),
+      }),
+      buildScrollingAsrTimeline(originalJson.events)
     );
-    const bilingualCues = preserveTiming
-      ? translatedBilingualCues
-      : optimizeBilingualCues(translatedBilingualCues);
-
-    // Render to WebVTT
-    const webvtt = renderWebVTT(bilingualCues, {
-      kind: params.kind || 'captions',
-      language: params.tlang || 'zh-CN',
-    });
 
     // Store in cache
     const cacheKey = generateCacheKey(params);
-    await setBilingualSubtitle(cacheKey, webvtt);
+    await setBilingualSubtitle(cacheKey, document);
 
     // Update job status to done
-    await updateCaptionJobStatus(id, 'done', webvtt);
+    await updateCaptionJobStatus(id, 'done', serializeBilingualDocument(document));
+    clearJobPriority(id);
 
-    console.log(`[Queue] Task completed: ${id} (${bilingualCues.length} segments)`);
+    console.log(`[Queue] Task completed: ${id} (${document.cues.length} segments)`);
 
   } catch (error) {
     console.error(`[Queue] Task failed: ${id}`, error);
@@ -249,6 +414,48 @@ async function processTask(task: TranslationTask): Promise<void> {
   }
 }
 
+/**
+ * Load translations finished by a previous attempt of this job.
+ *
+ * Persisted segments are only reused when their timing still lines up with the
+ * current segmentation; otherwise the job starts over.
+ */
+async function loadCompletedSegments(
+  jobId: string,
+  cues: SubtitleCue[]
+): Promise<Map<number, string>> {
+  const completed = new Map<number, string>();
+  const segments = await getCaptionSegments(jobId);
+  if (segments.length === 0) {
+    return completed;
+  }
+
+  const isAligned = segments.every(segment => {
+    const cue = cues[segment.segment_index];
+    return cue
+      && segment.start_ms === Math.round(cue.startTime)
+      && segment.end_ms === Math.round(cue.endTime);
+  });
+
+  if (!isAligned) {
+    console.log(`[Queue] Discarding stale segments for job ${jobId}: segmentation changed`);
+    await clearCaptionSegments(jobId);
+    return completed;
+  }
+
+  for (const segment of segments) {
+    if (segment.status === 'done' && segment.translated_text) {
+      completed.set(segment.segment_index, segment.translated_text);
+    }
+  }
+
+  if (completed.size > 0) {
+    console.log(`[Queue] Resuming job ${jobId}: ${completed.size}/${cues.length} segments already translated`);
+  }
+
+  return completed;
+}
+
 /**
  * Get queue status
  */
@@ -270,10 +477,12 @@ export function clearQueue(): void {
 
 export default {
   enqueueTranslation,
+  recoverInterruptedJobs,
   startWorker,
   stopWorker,
   getQueueStatus,
   clearQueue,
   buildTranslationTaskKey,
+  buildTranslationCues,
   isTranslationInFlight,
 };
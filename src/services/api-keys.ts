@@ -0,0 +1,140 @@
+/**
+ * Client API Keys
+ *
+ * Issues per-client keys (only a SHA-256 hash is stored) and authorizes
+ * subtitle requests against a key's target languages, per-minute rate limit
+ * and daily translation quota. Rate limits are counted in memory per
+ * process; quotas and usage history live in SQLite.
+ */
+import { createHash, randomBytes } from 'crypto';
+import type { ApiKey, ApiKeyInput, ErrorResponse } from '../types/subtitle.js';
+import { getConfig } from '../config/env.js';
+import {
+  consumeApiKeyTranslation,
+  createApiKey,
+  getApiKeyByHash,
+  recordApiKeyRequest,
+} from './cache.js';
+
+const SECRET_PREFIX = 'ysk_';
+const RATE_WINDOW_MS = 60_000;
+
+export type ApiKeyAuthorization =
+  | { key: ApiKey }
+  | { key: null; status: 401 | 403 | 429; error: ErrorResponse; retryAfterSeconds?: number };
+
+// Key ID -> request timestamps inside the current window
+const recentRequests = new Map<string, number[]>();
+
+export function hashApiKeySecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+/**
+ * Create a key; the secret is returned once and never stored
+ */
+export async function issueApiKey(input: ApiKeyInput): Promise<{ key: ApiKey; secret: string }> {
+  const config = getConfig().apiKeys;
+  const id = `key_${randomBytes(6).toString('hex')}`;
+  const secret = `${SECRET_PREFIX}${randomBytes(24).toString('base64url')}`;
+
+  const key = await createApiKey({
+    id,
+    keyHash: hashApiKeySecret(secret),
+    keyPrefix: secret.slice(0, SECRET_PREFIX.length + 4),
+    name: input.name,
+    clientId: input.clientId ?? id,
+    rateLimit: input.rateLimit ?? config.defaultRateLimit,
+    dailyQuota: input.dailyQuota ?? config.defaultDailyQuota,
+    allowedTargetLanguages: input.allowedTargetLanguages ?? null,
+  });
+
+  return { key, secret };
+}
+
+/**
+ * Seconds until the key may make another request, or null when it is under
+ * its limit (the request is then counted)
+ */
+function takeRateLimitSlot(key: ApiKey, now: number): number | null {
+  if (key.rate_limit <= 0) {
+    return null;
+  }
+
+  const windowStart = now - RATE_WINDOW_MS;
+  const timestamps = (recentRequests.get(key.id) ?? []).filter(timestamp => timestamp > windowStart);
+  if (timestamps.length >= key.rate_limit) {
+    recentRequests.set(key.id, timestamps);
+    return Math.max(1, Math.ceil((timestamps[0] + RATE_WINDOW_MS - now) / 1000));
+  }
+
+  timestamps.push(now);
+  recentRequests.set(key.id, timestamps);
+  return null;
+}
+
+async function recordRequest(key: ApiKey, rejected: boolean): Promise<void> {
+  try {
+    await recordApiKeyRequest(key.id, rejected);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[ApiKeys] Failed to record request for ${key.id}: ${message}`);
+  }
+}
+
+/**
+ * Check a presented secret for a request into the given target language
+ */
+export async function authorizeApiKey(secret: string, targetLanguage: string): Promise<ApiKeyAuthorization> {
+  const key = await getApiKeyByHash(hashApiKeySecret(secret));
+  if (!key || key.revoked_at !== null) {
+    return {
+      key: null,
+      status: 401,
+      error: { error: 'invalid_api_key', message: 'Invalid or revoked API key' },
+    };
+  }
+
+  if (key.allowed_tlangs && !key.allowed_tlangs.includes(targetLanguage)) {
+    await recordRequest(key, true);
+    return {
+      key: null,
+      status: 403,
+      error: {
+        error: 'target_language_not_allowed',
+        message: `This API key may only translate into: ${key.allowed_tlangs.join(', ')}`,
+      },
+    };
+  }
+
+  const retryAfterSeconds = takeRateLimitSlot(key, Date.now());
+  if (retryAfterSeconds !== null) {
+    await recordRequest(key, true);
+    return {
+      key: null,
+      status: 429,
+      error: {
+        error: 'rate_limited',
+        message: `Rate limit of ${key.rate_limit} requests per minute exceeded`,
+      },
+      retryAfterSeconds,
+    };
+  }
+
+  await recordRequest(key, false);
+  return { key };
+}
+
+/**
+ * Take one new translation from the key's daily quota; false once it is used up
+ */
+export async function consumeTranslationQuota(key: ApiKey): Promise<boolean> {
+  return consumeApiKeyTranslation(key.id, key.daily_quota);
+}
+
+export default {
+  hashApiKeySecret,
+  issueApiKey,
+  authorizeApiKey,
+  consumeTranslationQuota,
+};
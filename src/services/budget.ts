@@ -0,0 +1,102 @@
+/**
+ * Spending Budgets
+ *
+ * Compares today's and this month's spend (UTC) with the global and
+ * per-client caps. Past the soft ratio of a cap jobs run in economy mode;
+ * past the cap itself no new translations start.
+ */
+import type { BudgetLevel, BudgetLimits, BudgetStatus } from '../types/subtitle.js';
+import { getConfig } from '../config/env.js';
+import { getSpend } from './cache.js';
+
+const BUDGET_OK: BudgetStatus = { level: 'ok', reason: null };
+
+const LEVEL_RANK: Record<BudgetLevel, number> = { ok: 0, soft: 1, hard: 2 };
+
+/**
+ * Caps for one client: the client defaults with its BUDGET_CLIENTS override
+ */
+export function resolveClientLimits(clientId: string): BudgetLimits {
+  const { client, clients } = getConfig().budget;
+  return { ...client, ...clients[clientId] };
+}
+
+function hasLimits(limits: BudgetLimits): boolean {
+  return limits.dailyUsd > 0 || limits.monthlyUsd > 0;
+}
+
+function checkLimits(
+  label: string,
+  limits: BudgetLimits,
+  spend: { dailyUsd: number; monthlyUsd: number },
+  softRatio: number
+): BudgetStatus {
+  const periods = [
+    { period: 'daily', limit: limits.dailyUsd, spent: spend.dailyUsd },
+    { period: 'monthly', limit: limits.monthlyUsd, spent: spend.monthlyUsd },
+  ];
+  let status = BUDGET_OK;
+
+  for (const { period, limit, spent } of periods) {
+    if (limit <= 0) {
+      continue;
+    }
+
+    const usage = `$${spent.toFixed(2)} of $${limit.toFixed(2)}`;
+    if (spent >= limit) {
+      return { level: 'hard', reason: `${label} ${period} budget exhausted (${usage})` };
+    }
+    if (status.level === 'ok' && spent >= limit * softRatio) {
+      status = { level: 'soft', reason: `${label} ${period} budget nearly exhausted (${usage})` };
+    }
+  }
+
+  return status;
+}
+
+/**
+ * Most severe of the global and (when given) client budget states.
+ * Spend lookup errors never block translation.
+ */
+export async function evaluateBudget(clientId?: string): Promise<BudgetStatus> {
+  const budget = getConfig().budget;
+  const date = new Date().toISOString().slice(0, 10);
+
+  try {
+    const globalStatus = hasLimits(budget.global)
+      ? checkLimits('Global', budget.global, await getSpend(date), budget.softRatio)
+      : BUDGET_OK;
+
+    const clientLimits = clientId ? resolveClientLimits(clientId) : null;
+    if (!clientId || !clientLimits || !hasLimits(clientLimits) || globalStatus.level === 'hard') {
+      return globalStatus;
+    }
+
+    const clientStatus = checkLimits(
+      `Client ${clientId}`,
+      clientLimits,
+      await getSpend(date, clientId),
+      budget.softRatio
+    );
+    return LEVEL_RANK[clientStatus.level] > LEVEL_RANK[globalStatus.level] ? clientStatus : globalStatus;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[Budget] Failed to check spend, allowing translation: ${message}`);
+    return BUDGET_OK;
+  }
+}
+
+/**
+ * Start of the next UTC day, when daily spend resets. Monthly caps are simply
+ * checked again then.
+ */
+export function nextBudgetWindow(now: number = Date.now()): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+}
+
+export default {
+  resolveClientLimits,
+  evaluateBudget,
+  nextBudgetWindow,
+};
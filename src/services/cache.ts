@@ -6,19 +6,41 @@
 import { LRUCache } from 'lru-cache';
 import { getDatabase, updateCacheMetadata } from '../db/sqlite.js';
 import { getConfig } from '../config/env.js';
-import type { CaptionJob, JobStatus } from '../types/subtitle.js';
-import { parseCacheKey } from './youtube.js';
+import type {
+  ApiKey,
+  ApiKeyInput,
+  ApiKeyUsageDay,
+  ApiUsageRecord,
+  BilingualSubtitleDocument,
+  CaptionJob,
+  CaptionSegment,
+  GlossaryContext,
+  GlossaryEnforcementStats,
+  GlossaryScope,
+  GlossaryTerm,
+  GlossaryTermInput,
+  GlossaryTermStatus,
+  JobStatus,
+  SubtitleCue,
+  TranslatedSegment,
+  TranslationMemoryEntry,
+  TranslationMemoryScope,
+  UsageTotals,
+} from '../types/subtitle.js';
+import { buildJobCacheKey, parseCacheKey } from './youtube.js';
+import { parseBilingualDocument } from '../subtitle/document.js';
+import { emitJobEvent } from './events.js';
 
 // LRU cache instance
-let lruCache: LRUCache<string, string> | null = null;
+let lruCache: LRUCache<string, BilingualSubtitleDocument> | null = null;
 
 /**
  * Get LRU cache instance
  */
-function getLRUCache(): LRUCache<string, string> {
+function getLRUCache(): LRUCache<string, BilingualSubtitleDocument> {
   if (!lruCache) {
     const config = getConfig();
-    lruCache = new LRUCache<string, string>({
+    lruCache = new LRUCache<string, BilingualSubtitleDocument>({
       max: config.cache.lruMaxItems,
       ttl: config.cache.ttlHours * 60 * 60 * 1000, // Convert hours to ms
     });
@@ -27,9 +49,9 @@ function getLRUCache(): LRUCache<string, string> {
 }
 
 /**
- * Get bilingual subtitle from cache
+ * Get bilingual subtitle document from cache
  */
-export async function getBilingualSubtitle(cacheKey: string): Promise<string | null> {
+export async function getBilingualSubtitle(cacheKey: string): Promise<BilingualSubtitleDocument | null> {
   // Try LRU cache first
   const lru = getLRUCache();
   const cached = lru.get(cacheKey);
@@ -42,22 +64,24 @@ export async function getBilingualSubtitle(cacheKey: string): Promise<string | n
 
   // Try SQLite persistent cache
   const db = getDatabase();
-  const { videoId, lang, tlang, track, fmt } = parseCacheKey(cacheKey);
+  const { videoId, lang, tlang, track } = parseCacheKey(cacheKey);
 
   const row = db.prepare(`
     SELECT bilingual_json, status
     FROM caption_jobs
-    WHERE video_id = ? AND lang = ? AND tlang = ? AND track = ? AND fmt = ? AND status = 'done'
+    WHERE video_id = ? AND lang = ? AND tlang = ? AND track = ? AND status = 'done'
     ORDER BY created_at DESC
     LIMIT 1
-  `).get(videoId, lang, tlang, track, fmt) as { bilingual_json: string; status: JobStatus } | undefined;
+  `).get(videoId, lang, tlang, track) as { bilingual_json: string; status: JobStatus } | undefined;
 
-  if (row && row.bilingual_json) {
+  // Rows rendered by older versions (WebVTT) are treated as misses
+  const document = row?.bilingual_json ? parseBilingualDocument(row.bilingual_json) : null;
+  if (document) {
     console.log(`[Cache] SQLite cache hit: ${cacheKey}`);
     // Store in LRU for faster access next time
-    lru.set(cacheKey, row.bilingual_json);
+    lru.set(cacheKey, document);
     updateCacheMetadata('cache_hits', 1);
-    return row.bilingual_json;
+    return document;
   }
 
   console.log(`[Cache] Cache miss: ${cacheKey}`);
@@ -66,17 +90,17 @@ export async function getBilingualSubtitle(cacheKey: string): Promise<string | n
 }
 
 /**
- * Store bilingual subtitle in cache
+ * Store bilingual subtitle document in cache
  */
 export async function setBilingualSubtitle(
   cacheKey: string,
-  content: string
+  document: BilingualSubtitleDocument
 ): Promise<void> {
   // Store in LRU cache
   const lru = getLRUCache();
-  lru.set(cacheKey, content);
+  lru.set(cacheKey, document);
 
-  console.log(`[Cache] Stored in cache: ${cacheKey} (${content.length} bytes)`);
+  console.log(`[Cache] Stored in cache: ${cacheKey} (${document.cues.length} cues)`);
 }
 
 /**
@@ -92,6 +116,9 @@ export async function createCaptionJob(params: {
   sourceHash: string;
   status: JobStatus;
   bilingualJson?: string;
+  sourceJson?: string;
+  channelId?: string;
+  clientId?: string;
 }): Promise<void> {
   const db = getDatabase();
   const now = Date.now();
@@ -101,11 +128,16 @@ export async function createCaptionJob(params: {
   db.prepare(`
     INSERT INTO caption_jobs (
       id, video_id, lang, tlang, track, fmt, source_hash, status,
-      bilingual_json, created_at, updated_at, expires_at, retry_count
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0)
+      bilingual_json, source_json, channel_id, client_id, created_at, updated_at, expires_at, retry_count
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0)
     ON CONFLICT(video_id, lang, tlang, track, fmt, source_hash) DO UPDATE SET
       status = excluded.status,
       bilingual_json = excluded.bilingual_json,
+      source_json = COALESCE(excluded.source_json, source_json),
+      channel_id = COALESCE(excluded.channel_id, channel_id),
+      client_id = excluded.client_id,
+      retry_count = 0,
+      next_retry_at = NULL,
       updated_at = excluded.updated_at
   `).run(
     params.id,
@@ -117,6 +149,9 @@ export async function createCaptionJob(params: {
     params.sourceHash,
     params.status,
     params.bilingualJson || null,
+    params.sourceJson || null,
+    params.channelId || null,
+    params.clientId || null,
     now,
     now,
     expiresAt
@@ -152,6 +187,24 @@ export async function updateCaptionJobStatus(
   }
 
   console.log(`[Cache] Updated job status: ${jobId} -> ${status}`);
+
+  emitJobEvent({
+    type: 'status',
+    jobId,
+    status,
+    errorCode: error?.code ?? null,
+    errorMessage: error?.message ?? null,
+  });
+
+  if (status === 'done') {
+    const row = db.prepare(`
+      SELECT video_id, lang, tlang, track FROM caption_jobs WHERE id = ?
+    `).get(jobId) as Pick<CaptionJob, 'video_id' | 'lang' | 'tlang' | 'track'> | undefined;
+
+    if (row) {
+      emitJobEvent({ type: 'done', jobId, cacheKey: buildJobCacheKey(row) });
+    }
+  }
 }
 
 /**
@@ -168,22 +221,21 @@ export async function getCaptionJob(jobId: string): Promise<CaptionJob | null> {
 }
 
 /**
- * Get latest caption job by cache key and source hash
+ * Get latest caption job by cache key and source hash (any output format)
  */
 export async function getCaptionJobByKey(params: {
   videoId: string;
   lang: string;
   tlang: string;
   track: string;
-  fmt: string;
   sourceHash: string;
-}): Promise<Pick<CaptionJob, 'id' | 'status' | 'updated_at'> | null> {
+}): Promise<Pick<CaptionJob, 'id' | 'status' | 'fmt' | 'updated_at'> | null> {
   const db = getDatabase();
 
   const row = db.prepare(`
-    SELECT id, status, updated_at
+    SELECT id, status, fmt, updated_at
     FROM caption_jobs
-    WHERE video_id = ? AND lang = ? AND tlang = ? AND track = ? AND fmt = ? AND source_hash = ?
+    WHERE video_id = ? AND lang = ? AND tlang = ? AND track = ? AND source_hash = ?
     ORDER BY created_at DESC
     LIMIT 1
   `).get(
@@ -191,15 +243,16 @@ export async function getCaptionJobByKey(params: {
     params.lang,
     params.tlang,
     params.track,
-    params.fmt,
     params.sourceHash
-  ) as { id: string; status: JobStatus; updated_at: number } | undefined;
+  ) as { id: string; status: JobStatus; fmt: string; updated_at: number } | undefined;
 
   return row || null;
 }
 
 /**
  * Get pending jobs for retry
+ *
+ * Only jobs that carry their original timedtext payload can be rehydrated.
  */
 export async function getPendingJobs(limit: number = 10): Promise<CaptionJob[]> {
   const db = getDatabase();
@@ -209,6 +262,7 @@ export async function getPendingJobs(limit: number = 10): Promise<CaptionJob[]>
   const rows = db.prepare(`
     SELECT * FROM caption_jobs
     WHERE status IN ('pending', 'failed')
+      AND source_json IS NOT NULL
       AND retry_count < ?
       AND (next_retry_at IS NULL OR next_retry_at <= ?)
     ORDER BY created_at ASC
@@ -219,7 +273,8 @@ export async function getPendingJobs(limit: number = 10): Promise<CaptionJob[]>
 }
 
 /**
- * Increment job retry count
+ * Increment job retry count. Once retries are exhausted no retry is
+ * scheduled and a terminal `failed` event is emitted.
  */
 export async function incrementJobRetry(jobId: string): Promise<void> {
   const db = getDatabase();
@@ -230,8 +285,9 @@ export async function incrementJobRetry(jobId: string): Promise<void> {
   if (!job) return;
 
   const retryCount = job.retry_count + 1;
+  const exhausted = retryCount >= config.queue.maxRetries;
   const delayMs = config.queue.retryBaseMs * Math.pow(2, retryCount - 1);
-  const nextRetryAt = now + delayMs;
+  const nextRetryAt = exhausted ? null : now + delayMs;
 
   db.prepare(`
     UPDATE caption_jobs
@@ -239,9 +295,1096 @@ export async function incrementJobRetry(jobId: string): Promise<void> {
     WHERE id = ?
   `).run(retryCount, nextRetryAt, now, jobId);
 
+  if (exhausted) {
+    console.log(`[Cache] Retries exhausted for job ${jobId} after ${retryCount} attempts`);
+    emitJobEvent({
+      type: 'failed',
+      jobId,
+      errorCode: job.error_code,
+      errorMessage: job.error_message,
+    });
+    return;
+  }
+
   console.log(`[Cache] Retry scheduled for job ${jobId}: retry ${retryCount} in ${delayMs}ms`);
 }
 
+/**
+ * Hold a job until the given time without using up a retry
+ */
+export async function deferCaptionJob(jobId: string, nextRetryAt: number): Promise<void> {
+  const db = getDatabase();
+
+  db.prepare(`
+    UPDATE caption_jobs
+    SET next_retry_at = ?, updated_at = ?
+    WHERE id = ?
+  `).run(nextRetryAt, Date.now(), jobId);
+
+  console.log(`[Cache] Deferred job ${jobId} until ${new Date(nextRetryAt).toISOString()}`);
+}
+
+/**
+ * Get persisted segments for a job, ordered by segment index
+ */
+export async function getCaptionSegments(jobId: string): Promise<CaptionSegment[]> {
+  const db = getDatabase();
+
+  return db.prepare(`
+    SELECT * FROM caption_segments
+    WHERE job_id = ?
+    ORDER BY segment_index ASC
+  `).all(jobId) as CaptionSegment[];
+}
+
+/**
+ * Insert every segment of a job as pending, keeping rows that already exist
+ */
+export async function initCaptionSegments(
+  jobId: string,
+  cues: SubtitleCue[]
+): Promise<void> {
+  if (cues.length === 0) {
+    return;
+  }
+
+  const db = getDatabase();
+  const now = Date.now();
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO caption_segments (
+      id, job_id, segment_index, start_ms, end_ms, source_text,
+      translated_text, status, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, NULL, 'pending', ?, ?)
+  `);
+
+  const insertAll = db.transaction((items: SubtitleCue[]) => {
+    items.forEach((cue, index) => {
+      insert.run(
+        `${jobId}:${index}`,
+        jobId,
+        index,
+        Math.round(cue.startTime),
+        Math.round(cue.endTime),
+        cue.text,
+        now,
+        now
+      );
+    });
+  });
+
+  insertAll(cues);
+}
+
+/**
+ * Upsert translated segments for a job
+ *
+ * The original source text of a pre-initialized row is kept; translators may
+ * report restored (re-punctuated) text.
+ */
+export async function saveCaptionSegments(
+  jobId: string,
+  segments: TranslatedSegment[]
+): Promise<void> {
+  if (segments.length === 0) {
+    return;
+  }
+
+  const db = getDatabase();
+  const now = Date.now();
+  const upsert = db.prepare(`
+    INSERT INTO caption_segments (
+      id, job_id, segment_index, start_ms, end_ms, source_text,
+      translated_text, status, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(job_id, segment_index) DO UPDATE SET
+      start_ms = excluded.start_ms,
+      end_ms = excluded.end_ms,
+      translated_text = excluded.translated_text,
+      status = excluded.status,
+      updated_at = excluded.updated_at
+  `);
+
+  const saveAll = db.transaction((items: TranslatedSegment[]) => {
+    for (const segment of items) {
+      upsert.run(
+        `${jobId}:${segment.index}`,
+        jobId,
+        segment.index,
+        Math.round(segment.startTime),
+        Math.round(segment.endTime),
+        segment.sourceText,
+        segment.translatedText,
+        segment.status,
+        now,
+        now
+      );
+    }
+  });
+
+  saveAll(segments);
+}
+
+/**
+ * Delete all persisted segments for a job
+ */
+export async function clearCaptionSegments(jobId: string): Promise<void> {
+  const db = getDatabase();
+
+  db.prepare(`
+    DELETE FROM caption_segments WHERE job_id = ?
+  `).run(jobId);
+}
+
+/**
+ * Return jobs left in 'translating' by a previous process to the pending pool
+ */
+export async function resetInterruptedJobs(): Promise<number> {
+  const db = getDatabase();
+  const now = Date.now();
+
+  const result = db.prepare(`
+    UPDATE caption_jobs
+    SET status = 'pending', updated_at = ?
+    WHERE status = 'translating'
+  `).run(now);
+
+  if (result.changes > 0) {
+    console.log(`[Cache] Reset ${result.changes} interrupted jobs to pending`);
+  }
+
+  return result.changes;
+}
+
+/**
+ * Record segment count and model once segmentation is known
+ */
+export async function setCaptionJobWorkload(
+  jobId: string,
+  workload: { segmentsTotal: number; model: string }
+): Promise<void> {
+  const db = getDatabase();
+
+  db.prepare(`
+    UPDATE caption_jobs
+    SET segments_total = ?, model = ?, updated_at = ?
+    WHERE id = ?
+  `).run(workload.segmentsTotal, workload.model, Date.now(), jobId);
+}
+
+/**
+ * Record glossary enforcement counts for a finished translation run
+ */
+export async function setCaptionJobGlossaryStats(
+  jobId: string,
+  stats: GlossaryEnforcementStats
+): Promise<void> {
+  const db = getDatabase();
+
+  db.prepare(`
+    UPDATE caption_jobs
+    SET glossary_checked = ?, glossary_violations = ?, glossary_unresolved = ?, updated_at = ?
+    WHERE id = ?
+  `).run(stats.checked, stats.violations, stats.unresolved, Date.now(), jobId);
+}
+
+/**
+ * Count segments already translated for a job
+ */
+export async function countTranslatedSegments(jobId: string): Promise<number> {
+  const db = getDatabase();
+
+  const row = db.prepare(`
+    SELECT COUNT(*) AS count FROM caption_segments
+    WHERE job_id = ? AND status = 'done'
+  `).get(jobId) as { count: number } | undefined;
+
+  return row?.count ?? 0;
+}
+
+/**
+ * List jobs for a video, newest first
+ */
+export async function listCaptionJobs(params: {
+  videoId: string;
+  lang?: string;
+  tlang?: string;
+  limit?: number;
+}): Promise<CaptionJob[]> {
+  const db = getDatabase();
+  const conditions = ['video_id = ?'];
+  const values: Array<string | number> = [params.videoId];
+
+  if (params.lang) {
+    conditions.push('lang = ?');
+    values.push(params.lang);
+  }
+  if (params.tlang) {
+    conditions.push('tlang = ?');
+    values.push(params.tlang);
+  }
+
+  values.push(params.limit ?? 20);
+
+  return db.prepare(`
+    SELECT * FROM caption_jobs
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY updated_at DESC
+    LIMIT ?
+  `).all(...values) as CaptionJob[];
+}
+
+/**
+ * Record how fast one translation run went
+ */
+export async function recordTranslationThroughput(params: {
+  jobId: string;
+  model: string;
+  segmentCount: number;
+  durationMs: number;
+}): Promise<void> {
+  const db = getDatabase();
+
+  db.prepare(`
+    INSERT INTO translation_throughput (job_id, model, segment_count, duration_ms, created_at)
+    VALUES (?, ?, ?, ?, ?)
+  `).run(params.jobId, params.model, params.segmentCount, params.durationMs, Date.now());
+}
+
+/**
+ * Average segments per second over the model's most recent runs
+ */
+export async function getSegmentsPerSecond(
+  model: string,
+  sampleSize: number = 20
+): Promise<number | null> {
+  const db = getDatabase();
+
+  const row = db.prepare(`
+    SELECT SUM(segment_count) AS segments, SUM(duration_ms) AS duration
+    FROM (
+      SELECT segment_count, duration_ms FROM translation_throughput
+      WHERE model = ? AND duration_ms > 0
+      ORDER BY created_at DESC
+      LIMIT ?
+    )
+  `).get(model, sampleSize) as { segments: number | null; duration: number | null } | undefined;
+
+  if (!row?.segments || !row.duration) {
+    return null;
+  }
+
+  return row.segments / (row.duration / 1000);
+}
+
+/**
+ * Exact translation memory key: Unicode- and whitespace-normalized text
+ */
+function toMemorySourceKey(text: string): string {
+  return text.normalize('NFKC').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Near-exact key: exact key lowercased with punctuation and symbols removed
+ */
+function toMemoryLooseKey(text: string): string {
+  return toMemorySourceKey(text)
+    .toLowerCase()
+    .replace(/[\p{P}\p{S}]+/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Look up stored translations for source texts; returns index -> translation
+ */
+export async function lookupTranslationMemory(
+  texts: string[],
+  scope: TranslationMemoryScope,
+  options?: { fuzzy?: boolean }
+): Promise<Map<number, string>> {
+  const db = getDatabase();
+  const exact = db.prepare(`
+    SELECT id, translated_text FROM translation_memory
+    WHERE source_key = ? AND source_lang = ? AND target_lang = ? AND model = ?
+  `);
+  const loose = db.prepare(`
+    SELECT id, translated_text FROM translation_memory
+    WHERE loose_key = ? AND source_lang = ? AND target_lang = ? AND model = ?
+    ORDER BY hit_count DESC, updated_at DESC
+    LIMIT 1
+  `);
+  const touch = db.prepare(`
+    UPDATE translation_memory
+    SET hit_count = hit_count + 1, last_used_at = ?
+    WHERE id = ?
+  `);
+
+  const hits = new Map<number, string>();
+  const now = Date.now();
+
+  db.transaction(() => {
+    texts.forEach((text, index) => {
+      const sourceKey = toMemorySourceKey(text);
+      if (!sourceKey) {
+        return;
+      }
+
+      const scopeValues = [scope.sourceLanguage, scope.targetLanguage, scope.model];
+      let row = exact.get(sourceKey, ...scopeValues) as { id: number; translated_text: string } | undefined;
+      if (!row && options?.fuzzy) {
+        const looseKey = toMemoryLooseKey(text);
+        row = looseKey
+          ? loose.get(looseKey, ...scopeValues) as { id: number; translated_text: string } | undefined
+          : undefined;
+      }
+
+      if (row) {
+        hits.set(index, row.translated_text);
+        touch.run(now, row.id);
+      }
+    });
+  })();
+
+  return hits;
+}
+
+/**
+ * Store source/translation pairs; existing entries get the newer translation
+ */
+export async function saveTranslationMemory(
+  pairs: Array<{ sourceText: string; translatedText: string }>,
+  scope: TranslationMemoryScope
+): Promise<number> {
+  const db = getDatabase();
+  const now = Date.now();
+
+  const upsert = db.prepare(`
+    INSERT INTO translation_memory (
+      source_key, loose_key, source_text, source_lang, target_lang, model,
+      translated_text, hit_count, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?, ?)
+    ON CONFLICT(source_key, source_lang, target_lang, model) DO UPDATE SET
+      translated_text = excluded.translated_text,
+      updated_at = excluded.updated_at
+  `);
+
+  let saved = 0;
+  db.transaction(() => {
+    for (const pair of pairs) {
+      const sourceKey = toMemorySourceKey(pair.sourceText);
+      const translatedText = pair.translatedText.trim();
+      if (!sourceKey || !translatedText) {
+        continue;
+      }
+
+      upsert.run(
+        sourceKey,
+        toMemoryLooseKey(pair.sourceText),
+        pair.sourceText.trim(),
+        scope.sourceLanguage,
+        scope.targetLanguage,
+        scope.model,
+        translatedText,
+        now,
+        now
+      );
+      saved++;
+    }
+  })();
+
+  return saved;
+}
+
+type TranslationMemoryFilter = {
+  sourceLanguage?: string;
+  targetLanguage?: string;
+  model?: string;
+  search?: string;
+  before?: number;
+};
+
+function buildTranslationMemoryWhere(filter: TranslationMemoryFilter): {
+  clause: string;
+  values: Array<string | number>;
+} {
+  const conditions: string[] = [];
+  const values: Array<string | number> = [];
+
+  if (filter.sourceLanguage) {
+    conditions.push('source_lang = ?');
+    values.push(filter.sourceLanguage);
+  }
+  if (filter.targetLanguage) {
+    conditions.push('target_lang = ?');
+    values.push(filter.targetLanguage);
+  }
+  if (filter.model) {
+    conditions.push('model = ?');
+    values.push(filter.model);
+  }
+  if (filter.search) {
+    conditions.push("(source_text LIKE ? ESCAPE '\\' OR translated_text LIKE ? ESCAPE '\\')");
+    const pattern = `%${filter.search.replace(/[\\%_]/g, '\\$&')}%`;
+    values.push(pattern, pattern);
+  }
+  if (filter.before !== undefined) {
+    conditions.push('updated_at < ?');
+    values.push(filter.before);
+  }
+
+  return {
+    clause: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    values,
+  };
+}
+
+/**
+ * List translation memory entries, most reused first
+ */
+export async function listTranslationMemory(
+  filter: TranslationMemoryFilter & { limit?: number; offset?: number }
+): Promise<{ entries: TranslationMemoryEntry[]; total: number }> {
+  const db = getDatabase();
+  const { clause, values } = buildTranslationMemoryWhere(filter);
+
+  const total = (db.prepare(`
+    SELECT COUNT(*) AS count FROM translation_memory ${clause}
+  `).get(...values) as { count: number }).count;
+
+  const entries = db.prepare(`
+    SELECT * FROM translation_memory ${clause}
+    ORDER BY hit_count DESC, updated_at DESC
+    LIMIT ? OFFSET ?
+  `).all(...values, filter.limit ?? 50, filter.offset ?? 0) as TranslationMemoryEntry[];
+
+  return { entries, total };
+}
+
+/**
+ * Delete one entry by id, or every entry matching the filter
+ */
+export async function purgeTranslationMemory(
+  filter: TranslationMemoryFilter & { id?: number }
+): Promise<number> {
+  const db = getDatabase();
+
+  if (filter.id !== undefined) {
+    return db.prepare('DELETE FROM translation_memory WHERE id = ?').run(filter.id).changes;
+  }
+
+  const { clause, values } = buildTranslationMemoryWhere(filter);
+  const deleted = db.prepare(`DELETE FROM translation_memory ${clause}`).run(...values).changes;
+  console.log(`[Cache] Purged ${deleted} translation memory entries`);
+  return deleted;
+}
+
+const GLOSSARY_SCOPE_RANK: Record<GlossaryScope, number> = {
+  global: 0,
+  channel: 1,
+  video: 2,
+};
+
+type GlossaryTermFilter = {
+  scope?: GlossaryScope;
+  scopeId?: string;
+  targetLanguage?: string;
+  status?: GlossaryTermStatus;
+  search?: string;
+};
+
+/**
+ * Approved terms that apply to a job. When several scopes define the same
+ * source term the most specific wins: video over channel over global, and a
+ * target-language entry over an any-language one.
+ */
+export async function resolveGlossaryTerms(context: GlossaryContext): Promise<GlossaryTerm[]> {
+  const db = getDatabase();
+  const rows = db.prepare(`
+    SELECT * FROM glossary_terms
+    WHERE status = 'approved'
+      AND target_lang IN ('', ?)
+      AND (
+        scope = 'global'
+        OR (scope = 'channel' AND scope_id = ?)
+        OR (scope = 'video' AND scope_id = ?)
+      )
+    ORDER BY source_term
+  `).all(context.targetLanguage, context.channelId ?? '', context.videoId ?? '') as GlossaryTerm[];
+
+  const rank = (term: GlossaryTerm) => GLOSSARY_SCOPE_RANK[term.scope] * 2 + (term.target_lang ? 1 : 0);
+  const resolved = new Map<string, GlossaryTerm>();
+  for (const term of rows) {
+    const key = term.source_term.toLowerCase();
+    const current = resolved.get(key);
+    if (!current || rank(term) > rank(current)) {
+      resolved.set(key, term);
+    }
+  }
+
+  return [...resolved.values()];
+}
+
+export async function getGlossaryTerm(id: number): Promise<GlossaryTerm | null> {
+  const db = getDatabase();
+  const row = db.prepare('SELECT * FROM glossary_terms WHERE id = ?').get(id) as GlossaryTerm | undefined;
+  return row ?? null;
+}
+
+/**
+ * List stored terms, newest first
+ */
+export async function listGlossaryTerms(
+  filter: GlossaryTermFilter & { limit?: number; offset?: number }
+): Promise<{ terms: GlossaryTerm[]; total: number }> {
+  const db = getDatabase();
+  const conditions: string[] = [];
+  const values: Array<string | number> = [];
+
+  if (filter.scope) {
+    conditions.push('scope = ?');
+    values.push(filter.scope);
+  }
+  if (filter.scopeId !== undefined) {
+    conditions.push('scope_id = ?');
+    values.push(filter.scopeId);
+  }
+  if (filter.targetLanguage !== undefined) {
+    conditions.push('target_lang = ?');
+    values.push(filter.targetLanguage);
+  }
+  if (filter.status) {
+    conditions.push('status = ?');
+    values.push(filter.status);
+  }
+  if (filter.search) {
+    conditions.push("(source_term LIKE ? ESCAPE '\\' OR translation LIKE ? ESCAPE '\\')");
+    const pattern = `%${filter.search.replace(/[\\%_]/g, '\\$&')}%`;
+    values.push(pattern, pattern);
+  }
+
+  const clause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const total = (db.prepare(`
+    SELECT COUNT(*) AS count FROM glossary_terms ${clause}
+  `).get(...values) as { count: number }).count;
+
+  const terms = db.prepare(`
+    SELECT * FROM glossary_terms ${clause}
+    ORDER BY updated_at DESC, id DESC
+    LIMIT ? OFFSET ?
+  `).all(...values, filter.limit ?? 50, filter.offset ?? 0) as GlossaryTerm[];
+
+  return { terms, total };
+}
+
+/**
+ * Create a term or replace the one with the same scope, language and source term
+ */
+export async function upsertGlossaryTerm(input: GlossaryTermInput): Promise<GlossaryTerm> {
+  const db = getDatabase();
+  const now = Date.now();
+  const scopeId = input.scope === 'global' ? '' : (input.scopeId ?? '');
+
+  const row = db.prepare(`
+    INSERT INTO glossary_terms (
+      scope, scope_id, target_lang, source_term, translation, never_translate,
+      status, note, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(scope, scope_id, target_lang, source_term) DO UPDATE SET
+      translation = excluded.translation,
+      never_translate = excluded.never_translate,
+      status = excluded.status,
+      note = excluded.note,
+      updated_at = excluded.updated_at
+    RETURNING *
+  `).get(
+    input.scope,
+    scopeId,
+    input.targetLanguage ?? '',
+    input.sourceTerm.trim(),
+    input.neverTranslate ? null : (input.translation?.trim() || null),
+    input.neverTranslate ? 1 : 0,
+    input.status ?? 'approved',
+    input.note ?? null,
+    now,
+    now
+  ) as GlossaryTerm;
+
+  console.log(`[Cache] Saved glossary term ${row.id} (${row.scope}:${row.source_term})`);
+  return row;
+}
+
+/**
+ * Update fields of a stored term; null when the id does not exist
+ */
+export async function updateGlossaryTerm(
+  id: number,
+  changes: Partial<GlossaryTermInput>
+): Promise<GlossaryTerm | null> {
+  const existing = await getGlossaryTerm(id);
+  if (!existing) {
+    return null;
+  }
+
+  const db = getDatabase();
+  const scope = changes.scope ?? existing.scope;
+  const neverTranslate = changes.neverTranslate ?? existing.never_translate === 1;
+  const translation = changes.translation !== undefined ? changes.translation : existing.translation;
+
+  return db.prepare(`
+    UPDATE glossary_terms SET
+      scope = ?, scope_id = ?, target_lang = ?, source_term = ?, translation = ?,
+      never_translate = ?, status = ?, note = ?, updated_at = ?
+    WHERE id = ?
+    RETURNING *
+  `).get(
+    scope,
+    scope === 'global' ? '' : (changes.scopeId ?? existing.scope_id),
+    changes.targetLanguage ?? existing.target_lang,
+    changes.sourceTerm?.trim() ?? existing.source_term,
+    neverTranslate ? null : (translation?.trim() || null),
+    neverTranslate ? 1 : 0,
+    changes.status ?? existing.status,
+    changes.note !== undefined ? changes.note : existing.note,
+    Date.now(),
+    id
+  ) as GlossaryTerm;
+}
+
+export async function deleteGlossaryTerm(id: number): Promise<boolean> {
+  const db = getDatabase();
+  return db.prepare('DELETE FROM glossary_terms WHERE id = ?').run(id).changes > 0;
+}
+
+/**
+ * Store auto-extracted terms as suggestions awaiting approval. Terms already
+ * stored for the scope (approved or suggested) are left untouched.
+ */
+export async function saveGlossarySuggestions(
+  suggestions: Array<{ sourceTerm: string; translation: string; note?: string }>,
+  target: { scope: GlossaryScope; scopeId: string; targetLanguage: string }
+): Promise<number> {
+  const db = getDatabase();
+  const now = Date.now();
+  const insert = db.prepare(`
+    INSERT INTO glossary_terms (
+      scope, scope_id, target_lang, source_term, translation, never_translate,
+      status, note, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, 0, 'suggested', ?, ?, ?)
+    ON CONFLICT(scope, scope_id, target_lang, source_term) DO NOTHING
+  `);
+
+  let saved = 0;
+  db.transaction(() => {
+    for (const suggestion of suggestions) {
+      const sourceTerm = suggestion.sourceTerm.trim();
+      const translation = suggestion.translation.trim();
+      if (!sourceTerm || !translation) {
+        continue;
+      }
+
+      saved += insert.run(
+        target.scope,
+        target.scopeId,
+        target.targetLanguage,
+        sourceTerm,
+        translation,
+        suggestion.note?.trim() || null,
+        now,
+        now
+      ).changes;
+    }
+  })();
+
+  return saved;
+}
+
+/**
+ * Add one completion attempt to the daily api_stats row and, when it ran
+ * inside a job, to that job's and its client's usage
+ */
+export async function recordApiUsage(record: ApiUsageRecord): Promise<void> {
+  const db = getDatabase();
+  const now = Date.now();
+  const date = new Date(now).toISOString().slice(0, 10);
+  const requests = record.failed ? 0 : 1;
+  const latencyMs = record.failed ? 0 : Math.round(record.latencyMs);
+  const tokens = record.promptTokens + record.completionTokens;
+
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO api_stats (
+        provider, model, endpoint, purpose, request_count, error_count,
+        prompt_tokens, completion_tokens, token_count, cost_usd,
+        total_latency_ms, avg_latency_ms, date
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(provider, model, endpoint, purpose, date) DO UPDATE SET
+        request_count = request_count + excluded.request_count,
+        error_count = error_count + excluded.error_count,
+        prompt_tokens = prompt_tokens + excluded.prompt_tokens,
+        completion_tokens = completion_tokens + excluded.completion_tokens,
+        token_count = token_count + excluded.token_count,
+        cost_usd = cost_usd + excluded.cost_usd,
+        total_latency_ms = total_latency_ms + excluded.total_latency_ms,
+        avg_latency_ms = CASE
+          WHEN request_count + excluded.request_count > 0
+          THEN (total_latency_ms + excluded.total_latency_ms) / (request_count + excluded.request_count)
+          ELSE NULL
+        END
+    `).run(
+      record.provider,
+      record.model,
+      record.endpoint,
+      record.purpose,
+      requests,
+      record.failed ? 1 : 0,
+      record.promptTokens,
+      record.completionTokens,
+      tokens,
+      record.costUsd,
+      latencyMs,
+      requests > 0 ? latencyMs : null,
+      date
+    );
+
+    if (record.jobId && !record.failed) {
+      db.prepare(`
+        INSERT INTO job_usage (
+          job_id, model, purpose, request_count, prompt_tokens,
+          completion_tokens, cost_usd, total_latency_ms, updated_at
+        ) VALUES (?, ?, ?, 1, ?, ?, ?, ?, ?)
+        ON CONFLICT(job_id, model, purpose) DO UPDATE SET
+          request_count = request_count + 1,
+          prompt_tokens = prompt_tokens + excluded.prompt_tokens,
+          completion_tokens = completion_tokens + excluded.completion_tokens,
+          cost_usd = cost_usd + excluded.cost_usd,
+          total_latency_ms = total_latency_ms + excluded.total_latency_ms,
+          updated_at = excluded.updated_at
+      `).run(
+        record.jobId,
+        record.model,
+        record.purpose,
+        record.promptTokens,
+        record.completionTokens,
+        record.costUsd,
+        latencyMs,
+        now
+      );
+    }
+
+    if (record.clientId && !record.failed) {
+      db.prepare(`
+        INSERT INTO client_usage (
+          client_id, date, request_count, prompt_tokens, completion_tokens, cost_usd
+        ) VALUES (?, ?, 1, ?, ?, ?)
+        ON CONFLICT(client_id, date) DO UPDATE SET
+          request_count = request_count + 1,
+          prompt_tokens = prompt_tokens + excluded.prompt_tokens,
+          completion_tokens = completion_tokens + excluded.completion_tokens,
+          cost_usd = cost_usd + excluded.cost_usd
+      `).run(
+        record.clientId,
+        date,
+        record.promptTokens,
+        record.completionTokens,
+        record.costUsd
+      );
+    }
+  })();
+}
+
+/**
+ * Spend in USD for a UTC day and its month, across all usage or for one client
+ */
+export async function getSpend(date: string, clientId?: string): Promise<{ dailyUsd: number; monthlyUsd: number }> {
+  const db = getDatabase();
+  const table = clientId ? 'client_usage' : 'api_stats';
+  const clientFilter = clientId ? 'AND client_id = ?' : '';
+  const clientArgs = clientId ? [clientId] : [];
+
+  const row = db.prepare(`
+    SELECT
+      COALESCE(SUM(CASE WHEN date = ? THEN cost_usd END), 0) AS daily,
+      COALESCE(SUM(cost_usd), 0) AS monthly
+    FROM ${table}
+    WHERE date BETWEEN ? AND ? ${clientFilter}
+  `).get(date, `${date.slice(0, 7)}-01`, date, ...clientArgs) as { daily: number; monthly: number };
+
+  return { dailyUsd: row.daily, monthlyUsd: row.monthly };
+}
+
+type UsageRow = {
+  request_count: number;
+  error_count?: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+};
+
+function sumUsage(rows: UsageRow[]): UsageTotals {
+  return rows.reduce<UsageTotals>((totals, row) => ({
+    requests: totals.requests + row.request_count,
+    errors: totals.errors + (row.error_count ?? 0),
+    promptTokens: totals.promptTokens + row.prompt_tokens,
+    completionTokens: totals.completionTokens + row.completion_tokens,
+    costUsd: totals.costUsd + row.cost_usd,
+  }), { requests: 0, errors: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 });
+}
+
+/**
+ * Daily usage rows between two UTC dates (inclusive), plus totals and the
+ * most expensive jobs in the window
+ */
+export async function getUsageReport(range: { from: string; to: string; topJobs?: number }): Promise<{
+  totals: UsageTotals;
+  daily: Array<Record<string, unknown>>;
+  topJobs: Array<Record<string, unknown>>;
+}> {
+  const db = getDatabase();
+
+  const daily = db.prepare(`
+    SELECT date, provider, model, endpoint, purpose, request_count, error_count,
+      prompt_tokens, completion_tokens, token_count, cost_usd, avg_latency_ms
+    FROM api_stats
+    WHERE date BETWEEN ? AND ?
+    ORDER BY date DESC, cost_usd DESC
+  `).all(range.from, range.to) as Array<UsageRow & Record<string, unknown>>;
+
+  const fromMs = Date.parse(`${range.from}T00:00:00.000Z`);
+  const toMs = Date.parse(`${range.to}T23:59:59.999Z`);
+  const topJobs = db.prepare(`
+    SELECT u.job_id, j.video_id, j.lang, j.tlang,
+      SUM(u.request_count) AS request_count,
+      SUM(u.prompt_tokens) AS prompt_tokens,
+      SUM(u.completion_tokens) AS completion_tokens,
+      SUM(u.cost_usd) AS cost_usd
+    FROM job_usage u
+    LEFT JOIN caption_jobs j ON j.id = u.job_id
+    WHERE u.updated_at BETWEEN ? AND ?
+    GROUP BY u.job_id
+    ORDER BY cost_usd DESC
+    LIMIT ?
+  `).all(fromMs, toMs, range.topJobs ?? 20) as Array<Record<string, unknown>>;
+
+  return { totals: sumUsage(daily), daily, topJobs };
+}
+
+/**
+ * Usage recorded for one job, per model and purpose
+ */
+export async function getJobUsage(jobId: string): Promise<{
+  totals: UsageTotals;
+  breakdown: Array<Record<string, unknown>>;
+}> {
+  const db = getDatabase();
+  const breakdown = db.prepare(`
+    SELECT model, purpose, request_count, prompt_tokens, completion_tokens,
+      cost_usd, total_latency_ms
+    FROM job_usage
+    WHERE job_id = ?
+    ORDER BY cost_usd DESC
+  `).all(jobId) as Array<UsageRow & Record<string, unknown>>;
+
+  return { totals: sumUsage(breakdown), breakdown };
+}
+
+// ========================================
+// Client API Keys
+// ========================================
+
+type ApiKeyRow = Omit<ApiKey, 'allowed_tlangs'> & {
+  key_hash: string;
+  allowed_tlangs: string | null;
+};
+
+function toApiKey({ key_hash: _keyHash, allowed_tlangs, ...row }: ApiKeyRow): ApiKey {
+  return {
+    ...row,
+    allowed_tlangs: allowed_tlangs ? JSON.parse(allowed_tlangs) as string[] : null,
+  };
+}
+
+function toAllowedTlangsColumn(languages: string[] | null | undefined): string | null {
+  return languages && languages.length > 0 ? JSON.stringify(languages) : null;
+}
+
+/**
+ * Store a newly issued key; the caller generates the ID and secret hash
+ */
+export async function createApiKey(record: {
+  id: string;
+  keyHash: string;
+  keyPrefix: string;
+  name: string;
+  clientId: string;
+  rateLimit: number;
+  dailyQuota: number;
+  allowedTargetLanguages: string[] | null;
+}): Promise<ApiKey> {
+  const db = getDatabase();
+  const row = db.prepare(`
+    INSERT INTO api_keys (
+      id, key_hash, key_prefix, name, client_id, rate_limit, daily_quota,
+      allowed_tlangs, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    RETURNING *
+  `).get(
+    record.id,
+    record.keyHash,
+    record.keyPrefix,
+    record.name,
+    record.clientId,
+    record.rateLimit,
+    record.dailyQuota,
+    toAllowedTlangsColumn(record.allowedTargetLanguages),
+    Date.now()
+  ) as ApiKeyRow;
+
+  console.log(`[Cache] Issued API key ${row.id} (${row.name}, client ${row.client_id})`);
+  return toApiKey(row);
+}
+
+export async function getApiKey(id: string): Promise<ApiKey | null> {
+  const db = getDatabase();
+  const row = db.prepare('SELECT * FROM api_keys WHERE id = ?').get(id) as ApiKeyRow | undefined;
+  return row ? toApiKey(row) : null;
+}
+
+export async function getApiKeyByHash(keyHash: string): Promise<ApiKey | null> {
+  const db = getDatabase();
+  const row = db.prepare('SELECT * FROM api_keys WHERE key_hash = ?').get(keyHash) as ApiKeyRow | undefined;
+  return row ? toApiKey(row) : null;
+}
+
+/**
+ * Issued keys, newest first; revoked keys only when asked for
+ */
+export async function listApiKeys(filter: { includeRevoked?: boolean; clientId?: string } = {}): Promise<ApiKey[]> {
+  const db = getDatabase();
+  const conditions: string[] = [];
+  const values: string[] = [];
+
+  if (!filter.includeRevoked) {
+    conditions.push('revoked_at IS NULL');
+  }
+  if (filter.clientId) {
+    conditions.push('client_id = ?');
+    values.push(filter.clientId);
+  }
+
+  const clause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const rows = db.prepare(`
+    SELECT * FROM api_keys ${clause}
+    ORDER BY created_at DESC, id DESC
+  `).all(...values) as ApiKeyRow[];
+
+  return rows.map(toApiKey);
+}
+
+/**
+ * Update a key's name, client or limits; null when the id does not exist
+ */
+export async function updateApiKey(id: string, changes: Partial<ApiKeyInput>): Promise<ApiKey | null> {
+  const existing = await getApiKey(id);
+  if (!existing) {
+    return null;
+  }
+
+  const db = getDatabase();
+  const row = db.prepare(`
+    UPDATE api_keys SET
+      name = ?, client_id = ?, rate_limit = ?, daily_quota = ?, allowed_tlangs = ?
+    WHERE id = ?
+    RETURNING *
+  `).get(
+    changes.name ?? existing.name,
+    changes.clientId ?? existing.client_id,
+    changes.rateLimit ?? existing.rate_limit,
+    changes.dailyQuota ?? existing.daily_quota,
+    toAllowedTlangsColumn(
+      changes.allowedTargetLanguages !== undefined ? changes.allowedTargetLanguages : existing.allowed_tlangs
+    ),
+    id
+  ) as ApiKeyRow;
+
+  return toApiKey(row);
+}
+
+/**
+ * Revoke a key (kept for its usage history); null when the id does not exist
+ */
+export async function revokeApiKey(id: string): Promise<ApiKey | null> {
+  const db = getDatabase();
+  db.prepare(`
+    UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL
+  `).run(Date.now(), id);
+
+  return getApiKey(id);
+}
+
+/**
+ * Count one request made with a key on the current UTC day
+ */
+export async function recordApiKeyRequest(keyId: string, rejected: boolean): Promise<void> {
+  const db = getDatabase();
+  const now = Date.now();
+  const date = new Date(now).toISOString().slice(0, 10);
+
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO api_key_usage (key_id, date, request_count, rejected_count)
+      VALUES (?, ?, 1, ?)
+      ON CONFLICT(key_id, date) DO UPDATE SET
+        request_count = request_count + 1,
+        rejected_count = rejected_count + excluded.rejected_count
+    `).run(keyId, date, rejected ? 1 : 0);
+
+    db.prepare('UPDATE api_keys SET last_used_at = ? WHERE id = ?').run(now, keyId);
+  })();
+}
+
+/**
+ * Take one translation from a key's daily quota (0 = unlimited).
+ * Returns false, without counting, once the quota is used up.
+ */
+export async function consumeApiKeyTranslation(keyId: string, dailyQuota: number): Promise<boolean> {
+  const db = getDatabase();
+  const date = new Date().toISOString().slice(0, 10);
+
+  return db.transaction(() => {
+    const row = db.prepare(`
+      SELECT translation_count FROM api_key_usage WHERE key_id = ? AND date = ?
+    `).get(keyId, date) as { translation_count: number } | undefined;
+
+    if (dailyQuota > 0 && (row?.translation_count ?? 0) >= dailyQuota) {
+      return false;
+    }
+
+    db.prepare(`
+      INSERT INTO api_key_usage (key_id, date, translation_count)
+      VALUES (?, ?, 1)
+      ON CONFLICT(key_id, date) DO UPDATE SET
+        translation_count = translation_count + 1
+    `).run(keyId, date);
+    return true;
+  })();
+}
+
+/**
+ * Daily request history of a key between two UTC dates (inclusive), newest first
+ */
+export async function getApiKeyUsage(
+  keyId: string,
+  range: { from: string; to: string }
+): Promise<ApiKeyUsageDay[]> {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT date, request_count, translation_count, rejected_count
+    FROM api_key_usage
+    WHERE key_id = ? AND date BETWEEN ? AND ?
+    ORDER BY date DESC
+  `).all(keyId, range.from, range.to) as ApiKeyUsageDay[];
+}
+
 /**
  * Clear all caches
  */
@@ -262,5 +1405,41 @@ export default {
   getCaptionJobByKey,
   getPendingJobs,
   incrementJobRetry,
+  deferCaptionJob,
+  getCaptionSegments,
+  initCaptionSegments,
+  saveCaptionSegments,
+  clearCaptionSegments,
+  resetInterruptedJobs,
+  setCaptionJobWorkload,
+  setCaptionJobGlossaryStats,
+  countTranslatedSegments,
+  listCaptionJobs,
+  recordTranslationThroughput,
+  getSegmentsPerSecond,
+  lookupTranslationMemory,
+  saveTranslationMemory,
+  listTranslationMemory,
+  purgeTranslationMemory,
+  resolveGlossaryTerms,
+  getGlossaryTerm,
+  listGlossaryTerms,
+  upsertGlossaryTerm,
+  updateGlossaryTerm,
+  deleteGlossaryTerm,
+  saveGlossarySuggestions,
+  recordApiUsage,
+  getUsageReport,
+  getJobUsage,
+  getSpend,
+  createApiKey,
+  getApiKey,
+  getApiKeyByHash,
+  listApiKeys,
+  updateApiKey,
+  revokeApiKey,
+  recordApiKeyRequest,
+  consumeApiKeyTranslation,
+  getApiKeyUsage,
   clearAllCaches,
 };
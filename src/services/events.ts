@@ -0,0 +1,32 @@
+/**
+ * Job Event Bus
+ *
+ * In-process fan-out of job status and progress events to SSE subscribers.
+ */
+import { EventEmitter } from 'node:events';
+import type { JobEvent } from '../types/subtitle.js';
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+export function emitJobEvent(event: JobEvent): void {
+  emitter.emit(event.jobId, event);
+}
+
+/**
+ * Subscribe to one job's events; returns the unsubscribe function
+ */
+export function subscribeJobEvents(
+  jobId: string,
+  listener: (event: JobEvent) => void
+): () => void {
+  emitter.on(jobId, listener);
+  return () => {
+    emitter.off(jobId, listener);
+  };
+}
+
+export default {
+  emitJobEvent,
+  subscribeJobEvents,
+};
@@ -0,0 +1,79 @@
+/**
+ * Job Status Service
+ *
+ * Public job view with progress and an ETA from measured per-model throughput.
+ */
+import type { CaptionJob, JobStatusResponse } from '../types/subtitle.js';
+import { countTranslatedSegments, getSegmentsPerSecond } from './cache.js';
+
+// Used until a model has recorded throughput
+const DEFAULT_SEGMENTS_PER_SECOND = 2;
+
+/**
+ * Seconds to translate the given number of segments with a model
+ */
+export async function estimateTranslationSeconds(
+  segments: number,
+  model: string | null
+): Promise<number> {
+  if (segments <= 0) {
+    return 0;
+  }
+
+  const measured = model ? await getSegmentsPerSecond(model) : null;
+  const segmentsPerSecond = measured ?? DEFAULT_SEGMENTS_PER_SECOND;
+
+  return Math.ceil(segments / segmentsPerSecond);
+}
+
+export async function buildJobStatus(job: CaptionJob): Promise<JobStatusResponse> {
+  const segmentsTotal = job.segments_total ?? null;
+  const segmentsDone = job.status === 'done' && segmentsTotal !== null
+    ? segmentsTotal
+    : await countTranslatedSegments(job.id);
+
+  let etaSeconds: number | null = null;
+  if (job.status === 'done') {
+    etaSeconds = 0;
+  } else if (segmentsTotal !== null && job.status !== 'failed') {
+    etaSeconds = await estimateTranslationSeconds(segmentsTotal - segmentsDone, job.model);
+  }
+
+  return {
+    id: job.id,
+    videoId: job.video_id,
+    lang: job.lang,
+    tlang: job.tlang,
+    track: job.track,
+    fmt: job.fmt,
+    status: job.status,
+    retryCount: job.retry_count,
+    nextRetryAt: job.next_retry_at ? new Date(job.next_retry_at).toISOString() : null,
+    error: job.error_code
+      ? { code: job.error_code, message: job.error_message ?? '' }
+      : null,
+    progress: {
+      segmentsDone,
+      segmentsTotal,
+      percent: segmentsTotal
+        ? parseFloat(((segmentsDone / segmentsTotal) * 100).toFixed(1))
+        : null,
+    },
+    model: job.model ?? null,
+    glossary: job.glossary_checked !== null && job.glossary_checked !== undefined
+      ? {
+          checked: job.glossary_checked,
+          violations: job.glossary_violations ?? 0,
+          unresolved: job.glossary_unresolved ?? 0,
+        }
+      : null,
+    etaSeconds,
+    createdAt: new Date(job.created_at).toISOString(),
+    updatedAt: new Date(job.updated_at).toISOString(),
+  };
+}
+
+export default {
+  estimateTranslationSeconds,
+  buildJobStatus,
+};
@@ -0,0 +1,120 @@
+/**
+ * Per-endpoint circuit breaker for the model fallback chain
+ *
+ * An endpoint opens after N consecutive failures and is skipped until its
+ * cooldown expires; the next call after that is a half-open probe.
+ */
+import type {
+  CircuitState,
+  EndpointHealth,
+  OpenAIEndpointConfig,
+} from '../../types/subtitle.js';
+
+interface CircuitRecord {
+  consecutiveFailures: number;
+  totalSuccesses: number;
+  totalFailures: number;
+  lastError: string | null;
+  lastFailureAt: number | null;
+  openedUntil: number | null;
+}
+
+const circuits = new Map<string, CircuitRecord>();
+
+function getRecord(endpointId: string): CircuitRecord {
+  let record = circuits.get(endpointId);
+  if (!record) {
+    record = {
+      consecutiveFailures: 0,
+      totalSuccesses: 0,
+      totalFailures: 0,
+      lastError: null,
+      lastFailureAt: null,
+      openedUntil: null,
+    };
+    circuits.set(endpointId, record);
+  }
+  return record;
+}
+
+export function getCircuitState(endpointId: string, now: number = Date.now()): CircuitState {
+  const record = circuits.get(endpointId);
+  if (!record || record.openedUntil === null) {
+    return 'closed';
+  }
+  return now < record.openedUntil ? 'open' : 'half-open';
+}
+
+export function isEndpointAvailable(endpointId: string, now: number = Date.now()): boolean {
+  return getCircuitState(endpointId, now) !== 'open';
+}
+
+export function recordEndpointSuccess(endpointId: string): void {
+  const record = getRecord(endpointId);
+  if (record.openedUntil !== null) {
+    console.log(`[Translator] Endpoint ${endpointId} recovered; circuit closed`);
+  }
+  record.consecutiveFailures = 0;
+  record.totalSuccesses++;
+  record.openedUntil = null;
+}
+
+export function recordEndpointFailure(
+  endpointId: string,
+  error: unknown,
+  options: { failureThreshold: number; cooldownMs: number },
+  now: number = Date.now()
+): void {
+  const record = getRecord(endpointId);
+  const wasProbing = getCircuitState(endpointId, now) === 'half-open';
+
+  record.consecutiveFailures++;
+  record.totalFailures++;
+  record.lastError = error instanceof Error ? error.message : String(error);
+  record.lastFailureAt = now;
+
+  if (wasProbing || record.consecutiveFailures >= options.failureThreshold) {
+    record.openedUntil = now + options.cooldownMs;
+    console.warn(
+      `[Translator] Circuit opened for endpoint ${endpointId} after ${record.consecutiveFailures} consecutive failures; skipping for ${options.cooldownMs}ms`
+    );
+  }
+}
+
+export function getEndpointHealth(
+  endpoints: OpenAIEndpointConfig[],
+  now: number = Date.now()
+): EndpointHealth[] {
+  return endpoints.map(endpoint => {
+    const record = circuits.get(endpoint.id);
+    const state = getCircuitState(endpoint.id, now);
+
+    return {
+      id: endpoint.id,
+      model: endpoint.model,
+      baseUrl: endpoint.baseUrl ?? null,
+      state,
+      consecutiveFailures: record?.consecutiveFailures ?? 0,
+      totalSuccesses: record?.totalSuccesses ?? 0,
+      totalFailures: record?.totalFailures ?? 0,
+      lastError: record?.lastError ?? null,
+      lastFailureAt: record?.lastFailureAt ? new Date(record.lastFailureAt).toISOString() : null,
+      retryAt: state === 'open' && record?.openedUntil
+        ? new Date(record.openedUntil).toISOString()
+        : null,
+    };
+  });
+}
+
+export function resetCircuitsForTests(): void {
+  circuits.clear();
+}
+
+export default {
+  getCircuitState,
+  isEndpointAvailable,
+  recordEndpointSuccess,
+  recordEndpointFailure,
+  getEndpointHealth,
+  resetCircuitsForTests,
+};
@@ -0,0 +1,68 @@
+/**
+ * DeepL-style document translation provider
+ *
+ * Sends each batch as repeated `text` entries to `/translate`.
+ */
+import type { TranslationProvider } from '../../types/subtitle.js';
+import { getConfig } from '../../config/env.js';
+import { postJson } from './http.js';
+
+const DEEPL_TARGET_LANGUAGES: Record<string, string> = {
+  'zh-CN': 'ZH-HANS',
+  'zh-TW': 'ZH-HANT',
+  'en': 'EN-US',
+  'pt': 'PT-BR',
+};
+
+interface DeepLTranslateResponse {
+  translations?: Array<{ text?: string }>;
+}
+
+export function toDeepLLanguage(language: string, target: boolean): string {
+  if (target && DEEPL_TARGET_LANGUAGES[language]) {
+    return DEEPL_TARGET_LANGUAGES[language];
+  }
+
+  // Source languages accept only the base code
+  const code = target ? language : language.split('-')[0];
+  return code.toUpperCase();
+}
+
+export function createDeepLProvider(): TranslationProvider {
+  const config = getConfig();
+  const { apiKey, baseUrl } = config.translationProvider.deepl;
+
+  return {
+    name: 'deepl',
+    model: 'deepl',
+    async translateTexts(texts: string[], targetLang: string, sourceLang?: string): Promise<string[]> {
+      if (texts.length === 0) {
+        return [];
+      }
+
+      const data = await postJson<DeepLTranslateResponse>(
+        `${baseUrl.replace(/\/+$/, '')}/translate`,
+        {
+          headers: {
+            'Authorization': `DeepL-Auth-Key ${apiKey ?? ''}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            text: texts,
+            target_lang: toDeepLLanguage(targetLang, true),
+            ...(sourceLang ? { source_lang: toDeepLLanguage(sourceLang, false) } : {}),
+          }),
+        },
+        config.openai.timeout,
+        'DeepL'
+      );
+
+      const translations = data.translations ?? [];
+      if (translations.length !== texts.length) {
+        throw new Error(`DeepL returned ${translations.length} translations for ${texts.length} texts`);
+      }
+
+      return translations.map(item => (item.text ?? '').trim());
+    },
+  };
+}
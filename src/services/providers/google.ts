@@ -0,0 +1,58 @@
+/**
+ * Google-Translate-style REST provider (v2 `q`/`target` API)
+ */
+import type { TranslationProvider } from '../../types/subtitle.js';
+import { getConfig } from '../../config/env.js';
+import { postJson } from './http.js';
+
+// YouTube script subtags that Google's v2 API does not accept
+const GOOGLE_LANGUAGES: Record<string, string> = {
+  'zh-Hans': 'zh-CN',
+  'zh-Hant': 'zh-TW',
+};
+
+interface GoogleTranslateResponse {
+  data?: {
+    translations?: Array<{ translatedText?: string }>;
+  };
+}
+
+export function createGoogleProvider(): TranslationProvider {
+  const config = getConfig();
+  const { apiKey, baseUrl } = config.translationProvider.google;
+
+  return {
+    name: 'google',
+    model: 'google-translate-v2',
+    async translateTexts(texts: string[], targetLang: string, sourceLang?: string): Promise<string[]> {
+      if (texts.length === 0) {
+        return [];
+      }
+
+      const url = new URL(baseUrl);
+      url.searchParams.set('key', apiKey ?? '');
+
+      const data = await postJson<GoogleTranslateResponse>(
+        url.toString(),
+        {
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            q: texts,
+            target: targetLang,
+            format: 'text',
+            ...(sourceLang ? { source: GOOGLE_LANGUAGES[sourceLang] ?? sourceLang } : {}),
+          }),
+        },
+        config.openai.timeout,
+        'Google Translate'
+      );
+
+      const translations = data.data?.translations ?? [];
+      if (translations.length !== texts.length) {
+        throw new Error(`Google Translate returned ${translations.length} translations for ${texts.length} texts`);
+      }
+
+      return translations.map(item => (item.translatedText ?? '').trim());
+    },
+  };
+}
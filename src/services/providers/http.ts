@@ -0,0 +1,30 @@
+/**
+ * Shared HTTP helper for REST translation providers
+ */
+
+export async function postJson<T>(
+  url: string,
+  init: { headers?: Record<string, string>; body: string },
+  timeoutMs: number,
+  providerLabel: string
+): Promise<T> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      signal: controller.signal,
+      headers: init.headers,
+      body: init.body,
+    });
+
+    if (!response.ok) {
+      throw new Error(`${providerLabel} API returned ${response.status}: ${response.statusText}`);
+    }
+
+    return await response.json() as T;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
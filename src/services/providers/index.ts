@@ -0,0 +1,37 @@
+/**
+ * Translation Provider Registry
+ *
+ * Resolves the configured provider once per process.
+ */
+import type { TranslationProvider, TranslationProviderName } from '../../types/subtitle.js';
+import { getConfig } from '../../config/env.js';
+import { createOpenAIProvider } from './openai.js';
+import { createDeepLProvider } from './deepl.js';
+import { createGoogleProvider } from './google.js';
+import { createMockProvider } from './mock.js';
+
+const providerFactories: Record<TranslationProviderName, () => TranslationProvider> = {
+  openai: createOpenAIProvider,
+  deepl: createDeepLProvider,
+  google: createGoogleProvider,
+  mock: createMockProvider,
+};
+
+let provider: TranslationProvider | null = null;
+
+export function getTranslationProvider(): TranslationProvider {
+  if (!provider) {
+    provider = providerFactories[getConfig().translationProvider.name]();
+    console.log(`[Translator] Using translation provider: ${provider.name} (${provider.model})`);
+  }
+  return provider;
+}
+
+export function resetTranslationProviderForTests(): void {
+  provider = null;
+}
+
+export default {
+  getTranslationProvider,
+  resetTranslationProviderForTests,
+};
@@ -0,0 +1,18 @@
+/**
+ * Local deterministic provider for development and tests (no network)
+ */
+import type { TranslationProvider } from '../../types/subtitle.js';
+
+export function mockTranslate(text: string, targetLang: string): string {
+  return `[${targetLang}] ${text.trim()}`;
+}
+
+export function createMockProvider(): TranslationProvider {
+  return {
+    name: 'mock',
+    model: 'mock',
+    async translateTexts(texts: string[], targetLang: string): Promise<string[]> {
+      return texts.map(text => mockTranslate(text, targetLang));
+    },
+  };
+}
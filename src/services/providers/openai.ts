@@ -0,0 +1,111 @@
+/**
+ * OpenAI-compatible chat completion provider
+ *
+ * Walks the configured endpoint chain in order, skipping endpoints whose
+ * circuit is open. If every circuit is open the whole chain is probed.
+ * Every attempt is recorded with its token usage, latency and cost.
+ * Jobs in budget economy mode run on the economy model instead of the chain.
+ */
+import OpenAI from 'openai';
+import type {
+  OpenAIEndpointConfig,
+  ProviderCompletionRequest,
+  TranslationProvider,
+} from '../../types/subtitle.js';
+import { getConfig } from '../../config/env.js';
+import {
+  isEndpointAvailable,
+  recordEndpointFailure,
+  recordEndpointSuccess,
+} from './circuit.js';
+import { getUsageScope, recordCompletionUsage } from '../usage.js';
+
+type ChainEntry = {
+  endpoint: OpenAIEndpointConfig;
+  client: OpenAI;
+};
+
+/**
+ * Endpoints already serving the model, else the primary endpoint with it
+ */
+function withModelOverride(chain: ChainEntry[], model: string): ChainEntry[] {
+  const matching = chain.filter(entry => entry.endpoint.model === model);
+  return matching.length > 0
+    ? matching
+    : [{ ...chain[0], endpoint: { ...chain[0].endpoint, model } }];
+}
+
+export function createOpenAIProvider(): TranslationProvider {
+  const config = getConfig();
+  const { endpoints, circuitBreaker } = config.openai;
+  const hasFallbacks = endpoints.length > 1;
+
+  const chain: ChainEntry[] = endpoints.map(endpoint => ({
+    endpoint,
+    client: new OpenAI({
+      apiKey: endpoint.apiKey,
+      baseURL: endpoint.baseUrl,
+      timeout: config.openai.timeout,
+      // With a fallback chain, fail over instead of retrying the same endpoint
+      ...(hasFallbacks ? { maxRetries: 0 } : {}),
+    }),
+  }));
+
+  return {
+    name: 'openai',
+    model: config.openai.model,
+    async complete(request: ProviderCompletionRequest): Promise<string> {
+      const modelOverride = getUsageScope()?.model;
+      const pool = modelOverride ? withModelOverride(chain, modelOverride) : chain;
+      const available = pool.filter(entry => isEndpointAvailable(entry.endpoint.id));
+      const candidates = available.length > 0 ? available : pool;
+      let lastError: unknown = null;
+
+      for (let i = 0; i < candidates.length; i++) {
+        const { endpoint, client } = candidates[i];
+        const usageKey = { provider: 'openai', model: endpoint.model, endpoint: endpoint.id, purpose: request.purpose };
+        const startedAt = Date.now();
+
+        try {
+          const response = await client.chat.completions.create({
+            model: endpoint.model,
+            messages: [{ role: 'user', content: request.prompt }],
+            temperature: request.temperature,
+            max_tokens: request.maxTokens,
+          });
+
+          recordEndpointSuccess(endpoint.id);
+          const content = response.choices[0]?.message?.content?.trim() ?? '';
+          // Endpoints that omit `usage` are counted with the 4-chars-per-token estimate
+          await recordCompletionUsage({
+            ...usageKey,
+            promptTokens: response.usage?.prompt_tokens ?? Math.ceil(request.prompt.length / 4),
+            completionTokens: response.usage?.completion_tokens ?? Math.ceil(content.length / 4),
+            latencyMs: Date.now() - startedAt,
+            failed: false,
+          });
+          return content;
+        } catch (error) {
+          lastError = error;
+          recordEndpointFailure(endpoint.id, error, circuitBreaker);
+          await recordCompletionUsage({
+            ...usageKey,
+            promptTokens: 0,
+            completionTokens: 0,
+            latencyMs: Date.now() - startedAt,
+            failed: true,
+          });
+
+          if (i < candidates.length - 1) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.warn(
+              `[Translator] Endpoint ${endpoint.id} failed, falling back to ${candidates[i + 1].endpoint.id}: ${message}`
+            );
+          }
+        }
+      }
+
+      throw lastError;
+    },
+  };
+}
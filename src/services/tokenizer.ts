@@ -0,0 +1,70 @@
+/**
+ * Tokenizer
+ *
+ * Counts chat prompt tokens with the model's BPE encoding (js-tiktoken).
+ * Encodings are loaded on first use; models without a known OpenAI
+ * encoding are counted with cl100k_base and flagged as approximate.
+ */
+import { Tiktoken } from 'js-tiktoken/lite';
+
+export type TokenEncodingName = 'o200k_base' | 'cl100k_base';
+
+// Fixed framing the Chat Completions API adds around one user message
+const CHAT_MESSAGE_OVERHEAD_TOKENS = 7;
+
+const O200K_MODEL_PATTERN = /^(?:gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|o1|o3|o4|chatgpt-4o)/;
+const CL100K_MODEL_PATTERN = /^(?:gpt-4|gpt-3\.5|text-embedding-3|text-embedding-ada-002)/;
+
+const encoders = new Map<TokenEncodingName, Promise<Tiktoken>>();
+
+/**
+ * Encoding used to count a model's tokens; approximate for non-OpenAI models
+ */
+export function resolveTokenEncoding(model: string): { encoding: TokenEncodingName; approximate: boolean } {
+  const name = model.toLowerCase().replace(/^openai\//, '');
+  if (O200K_MODEL_PATTERN.test(name)) {
+    return { encoding: 'o200k_base', approximate: false };
+  }
+  if (CL100K_MODEL_PATTERN.test(name)) {
+    return { encoding: 'cl100k_base', approximate: false };
+  }
+  return { encoding: 'cl100k_base', approximate: true };
+}
+
+function loadEncoder(encoding: TokenEncodingName): Promise<Tiktoken> {
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    const ranks = encoding === 'o200k_base'
+      ? import('js-tiktoken/ranks/o200k_base')
+      : import('js-tiktoken/ranks/cl100k_base');
+    encoder = ranks.then(module => new Tiktoken(module.default));
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+/**
+ * Token counter for a model; `chat` adds the per-request message framing
+ */
+export async function createTokenCounter(model: string): Promise<{
+  encoding: TokenEncodingName;
+  approximate: boolean;
+  count(text: string): number;
+  chat(prompt: string): number;
+}> {
+  const { encoding, approximate } = resolveTokenEncoding(model);
+  const encoder = await loadEncoder(encoding);
+  const count = (text: string) => (text ? encoder.encode(text).length : 0);
+
+  return {
+    encoding,
+    approximate,
+    count,
+    chat: (prompt: string) => count(prompt) + CHAT_MESSAGE_OVERHEAD_TOKENS,
+  };
+}
+
+export default {
+  resolveTokenEncoding,
+  createTokenCounter,
+};
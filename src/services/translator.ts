@@ -1,13 +1,38 @@
 /**
- * Translation Service (OpenAI GPT-4o)
+ * Translation Service
  *
- * Translates subtitle segments using OpenAI API
+ * Translates subtitle segments through the configured TranslationProvider.
+ * Chat providers get the full summary/glossary/restore/context pipeline;
+ * machine-translation providers translate batches of lines directly.
  */
-import OpenAI from 'openai';
-import type { SubtitleCue } from '../types/subtitle.js';
+import type {
+  CompletionPurpose,
+  GlossaryTerm,
+  LyricsMode,
+  ProviderCompletionRequest,
+  SubtitleCue,
+  TranslatedSegment,
+  TranslationEstimate,
+  TranslationMemoryScope,
+  TranslationProvider,
+  TranslationRunOptions,
+} from '../types/subtitle.js';
 import { getConfig } from '../config/env.js';
-
-let openaiClient: OpenAI | null = null;
+import { getTranslationProvider } from './providers/index.js';
+import { computeCostUsd, getModelPrice, getUsageScope } from './usage.js';
+import { createTokenCounter } from './tokenizer.js';
+import { formatSpeakerLabel } from '../subtitle/speaker.js';
+import { translateSoundEvent } from '../subtitle/classify.js';
+import {
+  lookupTranslationMemory,
+  resolveGlossaryTerms,
+  saveGlossarySuggestions,
+  saveTranslationMemory,
+} from './cache.js';
+
+type ChatProvider = TranslationProvider & {
+  complete(request: ProviderCompletionRequest): Promise<string>;
+};
 
 const languageNames: Record<string, string> = {
   'zh-CN': 'Simplified Chinese',
@@ -25,19 +50,19 @@ const CHINESE_FRAGMENT_START_PATTERN = /^(?:的|了|着|过|并|但|而|或|及|
 const CHINESE_FRAGMENT_END_PATTERN = /(?:的|了|着|过|而|并|及|将|把|被|在|对|给|从|向|为|与)$/;
 const ELLIPSIS_PATTERN = /(?:\.\.\.|…|⋯)/;
 
+function isChatProvider(provider: TranslationProvider): provider is ChatProvider {
+  return typeof provider.complete === 'function';
+}
+
 /**
- * Get OpenAI client instance
+ * Get the configured provider, requiring chat completion support
  */
-function getOpenAIClient(): OpenAI {
-  if (!openaiClient) {
-    const config = getConfig();
-    openaiClient = new OpenAI({
-      apiKey: config.openai.apiKey,
-      baseURL: config.openai.baseUrl,
-      timeout: config.openai.timeout,
-    });
+function getChatProvider(): ChatProvider {
+  const provider = getTranslationProvider();
+  if (!isChatProvider(provider)) {
+    throw new Error(`Translation provider ${provider.name} does not support chat completions`);
   }
-  return openaiClient;
+  return provider;
 }
 
 function resolveTargetLanguage(targetLang: string): string {
@@ -118,17 +143,28 @@ Text:
 ${text}`;
 }
 
+type ContextLine = {
+  index: number;
+  text: string;
+  speaker?: string;
+};
+
 type ContextBatch = {
-  preceding: Array<{ index: number; text: string }>;
-  current: Array<{ index: number; text: string }>;
-  following: Array<{ index: number; text: string }>;
+  preceding: ContextLine[];
+  current: ContextLine[];
+  following: ContextLine[];
 };
 
+function hasSpeakerLabels(batch: ContextBatch): boolean {
+  return [...batch.preceding, ...batch.current, ...batch.following].some(line => line.speaker);
+}
+
 function buildContextualTranslationPrompt(
   batch: ContextBatch,
   targetLanguage: string,
   summary?: string,
-  glossary?: string
+  glossary?: string,
+  corrections?: string[]
 ): string {
   const summarySection = summary
     ? `\n## Summary (Original Language)\n${summary}\n`
@@ -136,6 +172,12 @@ function buildContextualTranslationPrompt(
   const glossarySection = glossary
     ? `\n## Glossary (JSON)\n${glossary}\n`
     : '\n## Glossary (JSON)\n(None)\n';
+  const speakerRule = hasSpeakerLabels(batch)
+    ? '\n8. A <Speaker> label marks who is talking; a different label is a different speaker. Keep each speaker\'s voice, never carry meaning across a speaker change, and do not include the label in the translation.'
+    : '';
+  const correctionSection = corrections && corrections.length > 0
+    ? `\n## Glossary Corrections\nYour previous answer for this batch ignored the Glossary. The Glossary terms are mandatory; fix these lines:\n${corrections.join('\n')}\n`
+    : '';
 
   return `You are a senior subtitle translator. You must preserve meaning and tone while producing natural, fluent ${targetLanguage} subtitles.
 
@@ -152,7 +194,7 @@ ${formatBatchLines(batch.following)}
 
 ## Current Subtitle Batch
 ${formatBatchLines(batch.current)}
-
+${correctionSection}
 # Translation Rules
 1. Translate each Current Subtitle Batch ID independently. The translation for an ID must correspond only to that ID's source text.
 2. Do not omit, merge, move, reorder, summarize, or redistribute meaning across IDs.
@@ -160,7 +202,7 @@ ${formatBatchLines(batch.current)}
 4. If a source line is a sentence fragment, translate it as a natural subtitle fragment for that same ID; do not complete it with text from neighboring IDs.
 5. Keep translation length close to the source line to avoid readability issues.
 6. Use the Glossary to keep proper nouns and key terms consistent.
-7. Do not use ellipsis or placeholder omissions such as "...", "…", or "⋯" unless the source line itself contains them.
+7. Do not use ellipsis or placeholder omissions such as "...", "…", or "⋯" unless the source line itself contains them.${speakerRule}
 
 # Output Requirements
 Return only a JSON array with exactly ${batch.current.length} items.
@@ -169,12 +211,12 @@ IDs must match the bracketed indices in Current Subtitle Batch.
 The output array must be in the same order as Current Subtitle Batch.`;
 }
 
-function formatBatchLines(lines: Array<{ index: number; text: string }>): string {
+function formatBatchLines(lines: ContextLine[]): string {
   if (lines.length === 0) {
     return '(none)';
   }
   return lines
-    .map(line => `[${line.index}] ${line.text}`)
+    .map(line => `[${line.index}] ${line.speaker ? `<${line.speaker}> ` : ''}${line.text}`)
     .join('\n');
 }
 
@@ -302,7 +344,7 @@ ${formatBatchLines(batch.current)}
 3. You may repair punctuation, casing, and sentence completeness.
 4. You may move a few boundary words conceptually so the line reads naturally, but do not summarize or omit meaning.
 5. Do not invent new facts or terminology.
-6. Keep each restored line reasonably close in length to the original subtitle timing window.
+6. Keep each restored line reasonably close in length to the original subtitle timing window.${hasSpeakerLabels(batch) ? '\n7. A <Speaker> label marks who is talking; do not move words across a speaker change and do not include the label in the restored text.' : ''}
 
 # Output
 Return only a JSON array with exactly ${batch.current.length} items.
@@ -346,49 +388,45 @@ function parseSourceRestoreBatch(text: string, expectedCount: number): ParsedSou
 }
 
 async function requestSummary(
-  client: OpenAI,
+  provider: ChatProvider,
   prompt: string,
   maxTokens: number
 ): Promise<string> {
-  const config = getConfig();
-  const response = await client.chat.completions.create({
-    model: config.openai.model,
-    messages: [{ role: 'user', content: prompt }],
+  const summary = await provider.complete({
+    prompt,
     temperature: 0.2,
-    max_tokens: maxTokens,
+    maxTokens,
+    purpose: 'summary',
   });
 
-  const summary = response.choices[0]?.message?.content?.trim();
   if (!summary) {
-    throw new Error('Empty summary response from OpenAI');
+    throw new Error(`Empty summary response from ${provider.name}`);
   }
 
   return summary;
 }
 
 async function requestGlossary(
-  client: OpenAI,
+  provider: ChatProvider,
   prompt: string,
   maxTokens: number
 ): Promise<string> {
-  const config = getConfig();
-  const response = await client.chat.completions.create({
-    model: config.openai.model,
-    messages: [{ role: 'user', content: prompt }],
+  const glossary = await provider.complete({
+    prompt,
     temperature: 0.2,
-    max_tokens: maxTokens,
+    maxTokens,
+    purpose: 'glossary',
   });
 
-  const glossary = response.choices[0]?.message?.content?.trim();
   if (!glossary) {
-    throw new Error('Empty glossary response from OpenAI');
+    throw new Error(`Empty glossary response from ${provider.name}`);
   }
 
   return glossary;
 }
 
 async function summarizeTranscriptText(
-  client: OpenAI,
+  provider: ChatProvider,
   transcriptText: string,
   maxTokens: number,
   chunkChars: number
@@ -398,7 +436,7 @@ async function summarizeTranscriptText(
   try {
     if (chunks.length === 1) {
       return await requestSummary(
-        client,
+        provider,
         buildSummaryPrompt(chunks[0], 'full'),
         maxTokens
       );
@@ -407,7 +445,7 @@ async function summarizeTranscriptText(
     const chunkSummaries: string[] = [];
     for (let i = 0; i < chunks.length; i++) {
       const chunkSummary = await requestSummary(
-        client,
+        provider,
         buildSummaryPrompt(chunks[i], 'chunk'),
         maxTokens
       );
@@ -415,7 +453,7 @@ async function summarizeTranscriptText(
     }
 
     return await requestSummary(
-      client,
+      provider,
       buildSummaryPrompt(chunkSummaries.join('\n'), 'final'),
       maxTokens
     );
@@ -427,7 +465,7 @@ async function summarizeTranscriptText(
 }
 
 async function extractGlossaryText(
-  client: OpenAI,
+  provider: ChatProvider,
   transcriptText: string,
   targetLanguage: string,
   maxTokens: number,
@@ -438,7 +476,7 @@ async function extractGlossaryText(
   try {
     if (chunks.length === 1) {
       return await requestGlossary(
-        client,
+        provider,
         buildGlossaryPrompt(chunks[0], targetLanguage, 'full'),
         maxTokens
       );
@@ -447,7 +485,7 @@ async function extractGlossaryText(
     const chunkGlossaries: string[] = [];
     for (let i = 0; i < chunks.length; i++) {
       const chunkGlossary = await requestGlossary(
-        client,
+        provider,
         buildGlossaryPrompt(chunks[i], targetLanguage, 'chunk'),
         maxTokens
       );
@@ -455,7 +493,7 @@ async function extractGlossaryText(
     }
 
     return await requestGlossary(
-      client,
+      provider,
       buildGlossaryPrompt(chunkGlossaries.join('\n'), targetLanguage, 'final'),
       maxTokens
     );
@@ -469,6 +507,8 @@ async function extractGlossaryText(
 type TranslationGuidance = {
   summary: string | null;
   glossary: string | null;
+  // Stored terms the context translation must use (glossary enforcement)
+  requiredTerms: GlossaryEntry[];
 };
 
 type TranslationRange = {
@@ -527,6 +567,78 @@ function buildDynamicTranslationRanges(
   }));
 }
 
+/**
+ * Build ranges covering only the cues that have no completed translation yet
+ */
+function buildPendingTranslationRanges(
+  cues: SubtitleCue[],
+  completed: ReadonlyMap<number, string> | undefined,
+  maxBatchItems: number,
+  maxBatchChars: number
+): TranslationRange[] {
+  if (!completed || completed.size === 0) {
+    return buildDynamicTranslationRanges(cues, maxBatchItems, maxBatchChars);
+  }
+
+  const ranges: TranslationRange[] = [];
+  let runStart = -1;
+
+  for (let index = 0; index <= cues.length; index++) {
+    const missing = index < cues.length && !completed.has(index);
+    if (missing && runStart === -1) {
+      runStart = index;
+      continue;
+    }
+
+    if (!missing && runStart !== -1) {
+      const offset = runStart;
+      const runRanges = buildDynamicTranslationRanges(cues.slice(runStart, index), maxBatchItems, maxBatchChars);
+      ranges.push(...runRanges.map(range => ({
+        start: range.start + offset,
+        end: range.end + offset,
+        label: '',
+      })));
+      runStart = -1;
+    }
+  }
+
+  return ranges.map((range, index) => ({
+    ...range,
+    label: `${index + 1}/${ranges.length}`,
+  }));
+}
+
+/**
+ * Hand out pending ranges to workers, starting at the range that covers the
+ * current playback position and wrapping to earlier ranges last. The position
+ * is re-read on every pick so a newer request re-prioritizes remaining work.
+ * Without a position, ranges go in index order.
+ */
+function createRangeScheduler(
+  cues: SubtitleCue[],
+  ranges: TranslationRange[],
+  getPlaybackPosition?: TranslationRunOptions['getPlaybackPosition']
+): { next(): TranslationRange | null } {
+  const pending = [...ranges];
+
+  return {
+    next() {
+      if (pending.length === 0) {
+        return null;
+      }
+
+      const positionMs = getPlaybackPosition?.();
+      let pick = 0;
+      if (positionMs !== undefined && positionMs !== null) {
+        const ahead = pending.findIndex(range => cues[range.end - 1].endTime > positionMs);
+        pick = ahead === -1 ? 0 : ahead;
+      }
+
+      return pending.splice(pick, 1)[0];
+    },
+  };
+}
+
 export function debugBuildDynamicTranslationRanges(
   cues: SubtitleCue[],
   maxBatchItems: number,
@@ -607,27 +719,35 @@ function isSuspiciousSingleTranslation(sourceText: string, translation: string):
 
 async function buildTranslationGuidance(
   cues: SubtitleCue[],
-  targetLang: string
+  targetLang: string,
+  options?: Pick<TranslationRunOptions, 'glossary' | 'economy'>
 ): Promise<TranslationGuidance> {
   const config = getConfig();
-  const summaryEnabled = config.translationSummary.enabled;
-  const glossaryEnabled = config.translationGlossary.enabled;
-
-  if (!summaryEnabled && !glossaryEnabled) {
-    return { summary: null, glossary: null };
+  const glossaryScope = options?.glossary;
+  // Economy mode keeps stored glossary terms but skips the extra completions
+  const summaryEnabled = config.translationSummary.enabled && !options?.economy;
+  const glossaryEnabled = config.translationGlossary.enabled && !options?.economy;
+
+  const provider = getTranslationProvider();
+  if (!isChatProvider(provider)) {
+    return { summary: null, glossary: null, requiredTerms: [] };
   }
 
   const transcriptText = buildTranscriptText(cues);
   if (!transcriptText) {
-    return { summary: null, glossary: null };
+    return { summary: null, glossary: null, requiredTerms: [] };
+  }
+
+  const storedTerms = await loadStoredGlossaryTerms(targetLang, glossaryScope);
+  if (!summaryEnabled && !glossaryEnabled && storedTerms.length === 0) {
+    return { summary: null, glossary: null, requiredTerms: [] };
   }
 
-  const client = getOpenAIClient();
   const targetLanguage = resolveTargetLanguage(targetLang);
 
   const summaryPromise = summaryEnabled
     ? summarizeTranscriptText(
-        client,
+        provider,
         transcriptText,
         config.translationSummary.maxTokens,
         config.translationSummary.chunkChars
@@ -636,7 +756,7 @@ async function buildTranslationGuidance(
 
   const glossaryPromise = glossaryEnabled
     ? extractGlossaryText(
-        client,
+        provider,
         transcriptText,
         targetLanguage,
         config.translationGlossary.maxTokens,
@@ -644,31 +764,242 @@ async function buildTranslationGuidance(
       )
     : Promise.resolve(null);
 
-  const [summary, glossary] = await Promise.all([summaryPromise, glossaryPromise]);
+  const [summary, extracted] = await Promise.all([summaryPromise, glossaryPromise]);
 
   if (summary) {
     console.log(`[Translator] Summary generated:\n${summary}`);
   }
-  if (glossary) {
-    console.log(`[Translator] Glossary generated (${glossary.length} chars)`);
+  if (extracted) {
+    console.log(`[Translator] Glossary generated (${extracted.length} chars)`);
+    await suggestGlossaryTerms(extracted, storedTerms, targetLang, glossaryScope);
+  }
+
+  const relevantTerms = storedTerms.filter(term => containsGlossaryTerm(transcriptText, term.source_term));
+
+  return {
+    summary,
+    glossary: mergeGlossary(relevantTerms, extracted),
+    requiredTerms: config.translationGlossary.enforce ? relevantTerms.map(toGlossaryEntry) : [],
+  };
+}
+
+type GlossaryEntry = {
+  source: string;
+  target: string;
+  note?: string;
+};
+
+/**
+ * Approved stored terms for the job; lookup errors never fail the job
+ */
+async function loadStoredGlossaryTerms(
+  targetLang: string,
+  glossaryScope?: TranslationRunOptions['glossary']
+): Promise<GlossaryTerm[]> {
+  try {
+    return await resolveGlossaryTerms({ targetLanguage: targetLang, ...glossaryScope });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[Translator] Stored glossary lookup failed, using extracted terms only: ${message}`);
+    return [];
+  }
+}
+
+/**
+ * Parse an extracted glossary (JSON array, possibly fenced); null when malformed
+ */
+function parseGlossaryEntries(text: string): GlossaryEntry[] | null {
+  const start = text.indexOf('[');
+  const end = text.lastIndexOf(']');
+  if (start === -1 || end <= start) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(text.slice(start, end + 1));
+    if (!Array.isArray(parsed)) {
+      return null;
+    }
+
+    return parsed
+      .filter((item): item is GlossaryEntry => (
+        Boolean(item)
+        && typeof item.source === 'string'
+        && typeof item.target === 'string'
+        && Boolean(item.source.trim())
+      ))
+      .map(item => ({
+        source: item.source.trim(),
+        target: item.target.trim(),
+        ...(typeof item.note === 'string' && item.note.trim() ? { note: item.note.trim() } : {}),
+      }));
+  } catch {
+    return null;
+  }
+}
+
+function toGlossaryEntry(term: GlossaryTerm): GlossaryEntry {
+  if (term.never_translate) {
+    return { source: term.source_term, target: term.source_term, note: 'Never translate; keep as written' };
+  }
+
+  return {
+    source: term.source_term,
+    target: term.translation ?? term.source_term,
+    ...(term.note ? { note: term.note } : {}),
+  };
+}
+
+/**
+ * Case-insensitive term match; Latin/digit edges must sit on word boundaries
+ */
+function containsGlossaryTerm(text: string, term: string): boolean {
+  const trimmed = term.trim();
+  if (!trimmed) {
+    return false;
+  }
+
+  const escaped = trimmed.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const wordEdge = /[\p{Script=Latin}\p{N}]/u;
+  const prefix = wordEdge.test(trimmed[0]) ? '(?<![\\p{L}\\p{N}])' : '';
+  const suffix = wordEdge.test(trimmed[trimmed.length - 1]) ? '(?![\\p{L}\\p{N}])' : '';
+  return new RegExp(`${prefix}${escaped}${suffix}`, 'iu').test(text);
+}
+
+type GlossaryViolation = {
+  index: number;
+  entry: GlossaryEntry;
+};
+
+/**
+ * Lines whose source contains a required term but whose translation lacks
+ * its target; `checked` counts lines containing any required term
+ */
+function findGlossaryViolations(
+  lines: ContextLine[],
+  translations: ReadonlyArray<string | null>,
+  terms: GlossaryEntry[]
+): { checked: number; violations: GlossaryViolation[] } {
+  let checked = 0;
+  const violations: GlossaryViolation[] = [];
+
+  for (const line of lines) {
+    const required = terms.filter(entry => entry.target && containsGlossaryTerm(line.text, entry.source));
+    if (required.length === 0) {
+      continue;
+    }
+
+    checked++;
+    const translation = (translations[line.index] ?? '').toLowerCase();
+    for (const entry of required) {
+      if (!translation.includes(entry.target.toLowerCase())) {
+        violations.push({ index: line.index, entry });
+      }
+    }
+  }
+
+  return { checked, violations };
+}
+
+function countViolatingLines(violations: GlossaryViolation[]): number {
+  return new Set(violations.map(violation => violation.index)).size;
+}
+
+function formatGlossaryCorrection({ index, entry }: GlossaryViolation): string {
+  return entry.source === entry.target
+    ? `- [${index}] keep "${entry.source}" as written, untranslated`
+    : `- [${index}] translate "${entry.source}" as "${entry.target}"`;
+}
+
+/**
+ * Stored terms first, then extracted terms they do not already cover.
+ * An unparseable extraction is appended verbatim.
+ */
+function mergeGlossary(storedTerms: GlossaryTerm[], extracted: string | null): string | null {
+  if (storedTerms.length === 0) {
+    return extracted;
+  }
+
+  const stored = storedTerms.map(toGlossaryEntry);
+  const parsed = extracted ? parseGlossaryEntries(extracted) : [];
+  if (parsed === null) {
+    return `${JSON.stringify(stored)}\n${extracted}`;
   }
 
-  return { summary, glossary };
+  const storedKeys = new Set(stored.map(entry => entry.source.toLowerCase()));
+  return JSON.stringify([
+    ...stored,
+    ...parsed.filter(entry => !storedKeys.has(entry.source.toLowerCase())),
+  ]);
+}
+
+/**
+ * Offer newly extracted terms for approval, scoped to the channel when known,
+ * else to the video. Failures are logged and ignored.
+ */
+async function suggestGlossaryTerms(
+  extracted: string,
+  storedTerms: GlossaryTerm[],
+  targetLang: string,
+  glossaryScope?: TranslationRunOptions['glossary']
+): Promise<void> {
+  const scopeId = glossaryScope?.channelId ?? glossaryScope?.videoId;
+  const entries = scopeId ? parseGlossaryEntries(extracted) : null;
+  if (!scopeId || !entries) {
+    return;
+  }
+
+  const storedKeys = new Set(storedTerms.map(term => term.source_term.toLowerCase()));
+  const suggestions = entries
+    .filter(entry => entry.target && !storedKeys.has(entry.source.toLowerCase()))
+    .map(entry => ({ sourceTerm: entry.source, translation: entry.target, note: entry.note }));
+  if (suggestions.length === 0) {
+    return;
+  }
+
+  try {
+    const saved = await saveGlossarySuggestions(suggestions, {
+      scope: glossaryScope?.channelId ? 'channel' : 'video',
+      scopeId,
+      targetLanguage: targetLang,
+    });
+    if (saved > 0) {
+      console.log(`[Translator] ${saved} glossary terms suggested for approval`);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[Translator] Failed to store glossary suggestions: ${message}`);
+  }
 }
 
 export async function restoreSourceCues(
-  cues: SubtitleCue[]
+  cues: SubtitleCue[],
+  completed?: ReadonlyMap<number, string>,
+  getPlaybackPosition?: TranslationRunOptions['getPlaybackPosition']
 ): Promise<SubtitleCue[]> {
   const config = getConfig();
   if (!config.translationSourceRestore.enabled || cues.length === 0) {
     return cues;
   }
 
-  const client = getOpenAIClient();
+  const provider = getTranslationProvider();
+  if (!isChatProvider(provider)) {
+    return cues;
+  }
+
   const batchSize = Math.max(1, Math.min(config.translationContext.batchSize, 12));
   const precedingLines = Math.max(0, Math.min(config.translationContext.precedingContextLines, 2));
   const followingLines = Math.max(0, Math.min(config.translationContext.followingContextLines, 2));
-  const ranges = buildDynamicTranslationRanges(cues, batchSize, Math.max(600, Math.floor(config.translationContext.maxTokens * 1.5)));
+  const ranges = buildPendingTranslationRanges(
+    cues,
+    completed,
+    batchSize,
+    Math.max(600, Math.floor(config.translationContext.maxTokens * 1.5))
+  );
+  if (ranges.length === 0) {
+    return cues;
+  }
+
   const totalBatches = Math.max(1, ranges.length);
   const batchConcurrency = Math.max(
     1,
@@ -691,16 +1022,15 @@ export async function restoreSourceCues(
     );
 
     try {
-      const response = await client.chat.completions.create({
-        model: config.openai.model,
-        messages: [{ role: 'user', content: prompt }],
+      const content = await provider.complete({
+        prompt,
         temperature: 0.1,
-        max_tokens: Math.max(300, Math.min(1200, config.translationContext.maxTokens)),
+        maxTokens: Math.max(300, Math.min(1200, config.translationContext.maxTokens)),
+        purpose: 'restore',
       });
 
-      const content = response.choices[0]?.message?.content?.trim();
       if (!content) {
-        throw new Error('Empty source restore response from OpenAI');
+        throw new Error(`Empty source restore response from ${provider.name}`);
       }
 
       const parsed = parseSourceRestoreBatch(content, batch.current.length);
@@ -722,14 +1052,10 @@ export async function restoreSourceCues(
     }
   };
 
-  let nextRangeIndex = 0;
+  const scheduler = createRangeScheduler(cues, ranges, getPlaybackPosition);
   const workers = Array.from({ length: batchConcurrency }, async () => {
-    while (true) {
-      const rangeIndex = nextRangeIndex++;
-      if (rangeIndex >= ranges.length) {
-        break;
-      }
-      await runRange(ranges[rangeIndex]);
+    for (let range = scheduler.next(); range; range = scheduler.next()) {
+      await runRange(range);
     }
   });
 
@@ -751,6 +1077,10 @@ export async function restoreSourceCues(
   }));
 }
 
+function toSpeakerField(cue: SubtitleCue): Pick<ContextLine, 'speaker'> {
+  return cue.speaker ? { speaker: formatSpeakerLabel(cue.speaker) } : {};
+}
+
 function buildContextBatch(
   cues: SubtitleCue[],
   startIndex: number,
@@ -762,53 +1092,113 @@ function buildContextBatch(
   const preceding = cues.slice(precedingStart, startIndex).map((cue, offset) => ({
     index: precedingStart + offset,
     text: cue.text,
+    ...toSpeakerField(cue),
   }));
 
   const current = cues.slice(startIndex, endIndex).map((cue, offset) => ({
     index: startIndex + offset,
     text: cue.text,
+    ...toSpeakerField(cue),
   }));
 
   const followingEnd = Math.min(cues.length, endIndex + followingLines);
   const following = cues.slice(endIndex, followingEnd).map((cue, offset) => ({
     index: endIndex + offset,
     text: cue.text,
+    ...toSpeakerField(cue),
   }));
 
   return { preceding, current, following };
 }
 
+/**
+ * Hand a finished range to onBatchTranslated; persistence errors never fail the job
+ */
+async function reportTranslatedRange(
+  cues: SubtitleCue[],
+  range: TranslationRange,
+  translatedTexts: Array<string | null>,
+  failedIndices: ReadonlySet<number>,
+  options?: TranslationRunOptions
+): Promise<void> {
+  if (!options?.onBatchTranslated) {
+    return;
+  }
+
+  const segments: TranslatedSegment[] = [];
+  for (let index = range.start; index < range.end; index++) {
+    const failed = failedIndices.has(index) || !translatedTexts[index];
+    segments.push({
+      index,
+      startTime: cues[index].startTime,
+      endTime: cues[index].endTime,
+      sourceText: cues[index].text,
+      translatedText: failed ? null : translatedTexts[index],
+      status: failed ? 'failed' : 'done',
+    });
+  }
+
+  try {
+    await options.onBatchTranslated(segments);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[Translator] Failed to persist batch ${range.label}: ${message}`);
+  }
+}
+
 export async function translateBatchWithContext(
   cues: SubtitleCue[],
-  targetLang: string = 'zh-CN'
+  targetLang: string = 'zh-CN',
+  options?: TranslationRunOptions,
+  guidance?: TranslationGuidance
 ): Promise<SubtitleCue[]> {
   const config = getConfig();
   const targetLanguage = resolveTargetLanguage(targetLang);
-  const client = getOpenAIClient();
-  const { summary, glossary } = await buildTranslationGuidance(cues, targetLang);
+  const provider = getChatProvider();
+  const completed = options?.completed;
 
   const batchSize = Math.max(1, config.translationContext.batchSize);
   const precedingLines = Math.max(0, config.translationContext.precedingContextLines);
   const followingLines = Math.max(0, config.translationContext.followingContextLines);
   const maxTokens = config.translationContext.maxTokens;
   const dynamicBatchChars = estimateDynamicBatchChars(maxTokens);
-  const ranges = buildDynamicTranslationRanges(cues, batchSize, dynamicBatchChars);
+  const ranges = buildPendingTranslationRanges(cues, completed, batchSize, dynamicBatchChars);
+
+  if (ranges.length === 0) {
+    console.log(`[Translator] All ${cues.length} segments already translated; skipping context translation`);
+    return cues.map((cue, index) => ({
+      ...cue,
+      text: completed?.get(index) ?? cue.text,
+    }));
+  }
+
+  const { summary, glossary, requiredTerms } = guidance
+    ?? await buildTranslationGuidance(cues, targetLang, options);
   const totalBatches = Math.max(1, ranges.length);
   const batchConcurrency = Math.max(
     1,
     Math.min(config.translationContext.concurrency, totalBatches)
   );
   const batchRetries = Math.max(0, config.translationContext.batchRetries);
+  const correctionRetries = Math.max(0, config.translationGlossary.correctionRetries);
   const overallStart = Date.now();
 
-  const translatedTexts: Array<string | null> = new Array(cues.length).fill(null);
+  const translatedTexts: Array<string | null> = cues.map((_, index) => completed?.get(index) ?? null);
+  const failedIndices = new Set<number>();
 
   console.log(
-    `[Translator] Context-aware translation started: ${cues.length} segments, batches=${totalBatches}, maxBatchItems=${batchSize}, dynamicBatchChars=${dynamicBatchChars}, concurrency=${batchConcurrency}, retries=${batchRetries}, preceding=${precedingLines}, following=${followingLines}`
+    `[Translator] Context-aware translation started: ${cues.length} segments (${completed?.size ?? 0} resumed), batches=${totalBatches}, maxBatchItems=${batchSize}, dynamicBatchChars=${dynamicBatchChars}, concurrency=${batchConcurrency}, retries=${batchRetries}, preceding=${precedingLines}, following=${followingLines}`
   );
 
+  let segmentsDone = completed?.size ?? 0;
+  const reportRange = async (range: TranslationRange) => {
+    await reportTranslatedRange(cues, range, translatedTexts, failedIndices, options);
+    segmentsDone += range.end - range.start;
+    options?.onProgress?.({ batch: range.label, segmentsDone, segmentsTotal: cues.length });
+  };
+
   try {
-    let nextRangeIndex = 0;
+    const scheduler = createRangeScheduler(cues, ranges, options?.getPlaybackPosition);
 
     const fallbackSingleLineByIndex = async (
       index: number,
@@ -818,6 +1208,7 @@ export async function translateBatchWithContext(
       try {
         const translation = await translateText(cue.text, targetLang);
         translatedTexts[index] = translation;
+        failedIndices.delete(index);
         console.log(
           `[Translator] Single-line fallback completed for segment ${index}: ${reason}`
         );
@@ -827,6 +1218,7 @@ export async function translateBatchWithContext(
           error
         );
         translatedTexts[index] = cue.text;
+        failedIndices.add(index);
       }
     };
 
@@ -848,7 +1240,13 @@ export async function translateBatchWithContext(
         `[Translator] Context batch ${label} started: segments ${start}-${end - 1}`
       );
 
-      for (let attempt = 0; attempt <= batchRetries; attempt++) {
+      // Glossary corrections extend the retry budget instead of consuming it
+      let attempts = batchRetries + 1;
+      let correctionsLeft = correctionRetries;
+      let corrections: string[] = [];
+      let firstCheck: { checked: number; violatingLines: number } | null = null;
+
+      for (let attempt = 0; attempt < attempts; attempt++) {
         const batchStart = Date.now();
 
         try {
@@ -864,37 +1262,55 @@ export async function translateBatchWithContext(
             batch,
             targetLanguage,
             summary || undefined,
-            glossary || undefined
+            glossary || undefined,
+            corrections
           );
 
-          const response = await client.chat.completions.create({
-            model: config.openai.model,
-            messages: [{ role: 'user', content: prompt }],
+          const content = await provider.complete({
+            prompt,
             temperature: 0.2,
-            max_tokens: maxTokens,
+            maxTokens,
+            purpose: 'context',
           });
 
-          const content = response.choices[0]?.message?.content?.trim();
           if (!content) {
-            throw new Error('Empty translation response from OpenAI');
+            throw new Error(`Empty translation response from ${provider.name}`);
           }
 
           const parsed = parseTranslationBatch(content, batch.current.length);
 
+          // Only this attempt's output counts; a correction retry must return every id again
           const expectedIds = new Set(batch.current.map(item => item.index));
+          const attemptTexts = new Map<number, string>();
           for (const item of parsed) {
             if (!expectedIds.has(item.id)) {
               throw new Error(`Unexpected translation id ${item.id} in batch ${start}-${end - 1}`);
             }
-            translatedTexts[item.id] = item.translation;
+            attemptTexts.set(item.id, item.translation);
           }
 
           for (const id of expectedIds) {
-            if (!translatedTexts[id]) {
+            if (!attemptTexts.get(id)) {
               throw new Error(`Missing translation for id ${id} in batch ${start}-${end - 1}`);
             }
           }
 
+          for (const [id, translation] of attemptTexts) {
+            translatedTexts[id] = translation;
+          }
+
+          const check = findGlossaryViolations(batch.current, translatedTexts, requiredTerms);
+          firstCheck ??= { checked: check.checked, violatingLines: countViolatingLines(check.violations) };
+          if (check.violations.length > 0 && correctionsLeft > 0) {
+            correctionsLeft--;
+            attempts++;
+            corrections = check.violations.map(formatGlossaryCorrection);
+            console.warn(
+              `[Translator] Context batch ${label} ignored the glossary on ${countViolatingLines(check.violations)} lines; requesting a correction`
+            );
+            continue;
+          }
+
           const suspiciousIds = batch.current
             .filter(item => isSuspiciousContextTranslation(
               item.text,
@@ -912,17 +1328,26 @@ export async function translateBatchWithContext(
             )));
           }
 
+          if (firstCheck.checked > 0) {
+            const unresolved = findGlossaryViolations(batch.current, translatedTexts, requiredTerms).violations;
+            options?.onGlossaryChecked?.({
+              checked: firstCheck.checked,
+              violations: firstCheck.violatingLines,
+              unresolved: countViolatingLines(unresolved),
+            });
+          }
+
           console.log(
-            `[Translator] Context batch ${label} completed in ${Date.now() - batchStart}ms (attempt ${attempt + 1}/${batchRetries + 1})`
+            `[Translator] Context batch ${label} completed in ${Date.now() - batchStart}ms (attempt ${attempt + 1}/${attempts})`
           );
           return;
         } catch (error) {
           const message = error instanceof Error ? error.message : String(error);
           console.warn(
-            `[Translator] Context batch ${label} failed in ${Date.now() - batchStart}ms (attempt ${attempt + 1}/${batchRetries + 1}): ${message}`
+            `[Translator] Context batch ${label} failed in ${Date.now() - batchStart}ms (attempt ${attempt + 1}/${attempts}): ${message}`
           );
 
-          if (attempt >= batchRetries) {
+          if (attempt >= attempts - 1) {
             if (end - start <= 1) {
               await fallbackSingleLine(range, message);
               return;
@@ -949,12 +1374,9 @@ export async function translateBatchWithContext(
     };
 
     const workers = Array.from({ length: batchConcurrency }, async () => {
-      while (true) {
-        const rangeIndex = nextRangeIndex++;
-        if (rangeIndex >= ranges.length) {
-          break;
-        }
-        await runBatch(ranges[rangeIndex]);
+      for (let range = scheduler.next(); range; range = scheduler.next()) {
+        await runBatch(range);
+        await reportRange(range);
       }
     });
 
@@ -977,6 +1399,96 @@ export async function translateBatchWithContext(
   }));
 }
 
+async function translateTextsDirect(
+  provider: TranslationProvider,
+  texts: string[],
+  targetLang: string,
+  sourceLang?: string
+): Promise<string[]> {
+  if (!provider.translateTexts) {
+    throw new Error(`Translation provider ${provider.name} cannot translate text`);
+  }
+
+  // Uploads arrive as 'auto'; leave those to the provider's detection
+  const source = sourceLang && sourceLang !== 'auto' ? sourceLang : undefined;
+  const translations = await provider.translateTexts(texts, targetLang, source);
+  if (translations.length !== texts.length || translations.some(translation => !translation)) {
+    throw new Error(`Translation provider ${provider.name} returned incomplete results`);
+  }
+
+  return translations;
+}
+
+/**
+ * Translate batches of lines with a machine-translation provider (no prompts)
+ */
+export async function translateBatchDirect(
+  cues: SubtitleCue[],
+  targetLang: string = 'zh-CN',
+  options?: TranslationRunOptions
+): Promise<SubtitleCue[]> {
+  const config = getConfig();
+  const provider = getTranslationProvider();
+  const completed = options?.completed;
+  const batchSize = Math.max(1, config.translationContext.batchSize);
+  const ranges = buildPendingTranslationRanges(
+    cues,
+    completed,
+    batchSize,
+    estimateDynamicBatchChars(config.translationContext.maxTokens)
+  );
+  const translatedTexts: Array<string | null> = cues.map((_, index) => completed?.get(index) ?? null);
+  const failedIndices = new Set<number>();
+  const batchConcurrency = Math.max(
+    1,
+    Math.min(config.translationContext.concurrency, ranges.length)
+  );
+  const overallStart = Date.now();
+
+  console.log(
+    `[Translator] Direct translation started with ${provider.name}: ${cues.length} segments (${completed?.size ?? 0} resumed), batches=${ranges.length}, maxBatchItems=${batchSize}, concurrency=${batchConcurrency}`
+  );
+
+  let segmentsDone = completed?.size ?? 0;
+  const runRange = async (range: TranslationRange) => {
+    const texts = cues.slice(range.start, range.end).map(cue => cue.text);
+
+    try {
+      const translations = await translateTextsDirect(provider, texts, targetLang, options?.sourceLanguage);
+      translations.forEach((translation, offset) => {
+        translatedTexts[range.start + offset] = translation;
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`[Translator] Direct batch ${range.label} failed, keeping original text: ${message}`);
+      for (let index = range.start; index < range.end; index++) {
+        failedIndices.add(index);
+      }
+    }
+  };
+
+  const scheduler = createRangeScheduler(cues, ranges, options?.getPlaybackPosition);
+  const workers = Array.from({ length: batchConcurrency }, async () => {
+    for (let range = scheduler.next(); range; range = scheduler.next()) {
+      await runRange(range);
+      await reportTranslatedRange(cues, range, translatedTexts, failedIndices, options);
+      segmentsDone += range.end - range.start;
+      options?.onProgress?.({ batch: range.label, segmentsDone, segmentsTotal: cues.length });
+    }
+  });
+
+  await Promise.all(workers);
+
+  console.log(
+    `[Translator] Direct translation completed in ${Date.now() - overallStart}ms`
+  );
+
+  return cues.map((cue, index) => ({
+    ...cue,
+    text: translatedTexts[index] ?? cue.text,
+  }));
+}
+
 /**
  * Translate a single text segment
  */
@@ -986,38 +1498,38 @@ export async function translateText(
   summary?: string,
   glossary?: string
 ): Promise<string> {
-  const client = getOpenAIClient();
-  const config = getConfig();
+  const provider = getTranslationProvider();
+  if (!isChatProvider(provider)) {
+    const [translation] = await translateTextsDirect(provider, [text], targetLang);
+    return translation;
+  }
 
   const targetLanguage = resolveTargetLanguage(targetLang);
   const prompt = buildTranslationPrompt(text, targetLanguage, summary, glossary);
   const maxTokens = Math.max(120, Math.min(240, Math.ceil(text.trim().length * 2)));
 
   try {
-    const response = await client.chat.completions.create({
-      model: config.openai.model,
-      messages: [{ role: 'user', content: prompt }],
+    const translation = await provider.complete({
+      prompt,
       temperature: 0.3,
-      max_tokens: maxTokens,
+      maxTokens,
+      purpose: 'single-line',
     });
 
-    const translation = response.choices[0]?.message?.content?.trim();
-
     if (!translation) {
-      throw new Error('Empty translation response from OpenAI');
+      throw new Error(`Empty translation response from ${provider.name}`);
     }
 
     if (isSuspiciousSingleTranslation(text, translation)) {
-      const retryResponse = await client.chat.completions.create({
-        model: config.openai.model,
-        messages: [{ role: 'user', content: buildStrictTranslationPrompt(text, targetLanguage) }],
+      const retriedTranslation = await provider.complete({
+        prompt: buildStrictTranslationPrompt(text, targetLanguage),
         temperature: 0.1,
-        max_tokens: maxTokens,
+        maxTokens,
+        purpose: 'single-line',
       });
 
-      const retriedTranslation = retryResponse.choices[0]?.message?.content?.trim();
       if (!retriedTranslation) {
-        throw new Error('Empty strict translation response from OpenAI');
+        throw new Error(`Empty strict translation response from ${provider.name}`);
       }
 
       if (isSuspiciousSingleTranslation(text, retriedTranslation)) {
@@ -1042,12 +1554,21 @@ export async function translateText(
 export async function translateBatch(
   cues: SubtitleCue[],
   targetLang: string = 'zh-CN',
-  concurrency: number = 2
+  concurrency: number = 2,
+  options?: TranslationRunOptions,
+  guidance?: TranslationGuidance
 ): Promise<SubtitleCue[]> {
   const results: SubtitleCue[] = [];
   const config = getConfig();
   const actualConcurrency = Math.min(concurrency, config.queue.concurrency);
-  const { summary, glossary } = await buildTranslationGuidance(cues, targetLang);
+  const completed = options?.completed;
+
+  if (completed && cues.every((_, index) => completed.has(index))) {
+    console.log(`[Translator] All ${cues.length} segments already translated; skipping translation`);
+    return cues.map((cue, index) => ({ ...cue, text: completed.get(index) ?? cue.text }));
+  }
+
+  const { summary, glossary } = guidance ?? await buildTranslationGuidance(cues, targetLang, options);
 
   if (summary) {
     console.log(`[Translator] Using summary context (${summary.length} chars)`);
@@ -1060,8 +1581,15 @@ export async function translateBatch(
 
   for (let i = 0; i < cues.length; i += actualConcurrency) {
     const batch = cues.slice(i, i + actualConcurrency);
+    const settled: TranslatedSegment[] = [];
+
+    const promises = batch.map(async (cue, offset) => {
+      const index = i + offset;
+      const resumed = completed?.get(index);
+      if (resumed) {
+        return { ...cue, text: resumed };
+      }
 
-    const promises = batch.map(async (cue) => {
       try {
         const translation = await translateText(
           cue.text,
@@ -1069,12 +1597,28 @@ export async function translateBatch(
           summary || undefined,
           glossary || undefined
         );
+        settled.push({
+          index,
+          startTime: cue.startTime,
+          endTime: cue.endTime,
+          sourceText: cue.text,
+          translatedText: translation,
+          status: 'done',
+        });
         return {
           ...cue,
           text: translation,
         };
       } catch (error) {
-        console.error(`[Translator] Failed to translate segment ${i}:`, error);
+        console.error(`[Translator] Failed to translate segment ${index}:`, error);
+        settled.push({
+          index,
+          startTime: cue.startTime,
+          endTime: cue.endTime,
+          sourceText: cue.text,
+          translatedText: null,
+          status: 'failed',
+        });
         // Return original text on error
         return cue;
       }
@@ -1083,10 +1627,24 @@ export async function translateBatch(
     const batchResults = await Promise.all(promises);
     results.push(...batchResults);
 
+    if (options?.onBatchTranslated && settled.length > 0) {
+      try {
+        await options.onBatchTranslated(settled.sort((left, right) => left.index - right.index));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`[Translator] Failed to persist segments ${i}-${i + batch.length - 1}: ${message}`);
+      }
+    }
+
     // Progress logging
     const progress = Math.min(i + actualConcurrency, cues.length);
     const percentage = ((progress / cues.length) * 100).toFixed(1);
     console.log(`[Translator] Progress: ${progress}/${cues.length} (${percentage}%)`);
+    options?.onProgress?.({
+      batch: `${i}-${progress - 1}`,
+      segmentsDone: progress,
+      segmentsTotal: cues.length,
+    });
 
     // Small delay between batches to avoid rate limiting
     if (i + actualConcurrency < cues.length) {
@@ -1098,30 +1656,181 @@ export async function translateBatch(
   return results;
 }
 
+/**
+ * Restore (optional) and translate cues with a chat provider
+ */
+async function translateSourceCues(
+  originalCues: SubtitleCue[],
+  targetLang: string,
+  concurrency: number,
+  options?: TranslationRunOptions,
+  guidance?: TranslationGuidance
+): Promise<SubtitleCue[]> {
+  const config = getConfig();
+  const sourceCues = config.translationSourceRestore.enabled && !options?.economy
+    ? await restoreSourceCues(originalCues, options?.completed, options?.getPlaybackPosition)
+    : originalCues;
+
+  if (!config.translationContext.enabled) {
+    return translateBatch(sourceCues, targetLang, concurrency, options, guidance);
+  }
+
+  try {
+    return await translateBatchWithContext(sourceCues, targetLang, options, guidance);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[Translator] Context-aware translation failed, falling back to per-line translation: ${message}`);
+    return translateBatch(sourceCues, targetLang, concurrency, options, guidance);
+  }
+}
+
+/**
+ * Cue index window to finish before the rest of the video: the opening span,
+ * or the span from the requested playback position.
+ *
+ * Only matters when source restore is on: otherwise batches already follow
+ * the range scheduler. Returns null when there is nothing to prioritize.
+ */
+function resolvePriorityWindow(
+  cues: SubtitleCue[],
+  options?: TranslationRunOptions
+): { start: number; end: number } | null {
+  const config = getConfig();
+  const windowMs = config.translationPriority.windowMs;
+  if (!config.translationSourceRestore.enabled || options?.economy || windowMs <= 0 || cues.length === 0) {
+    return null;
+  }
+
+  const positionMs = options?.getPlaybackPosition?.() ?? null;
+  const start = positionMs === null
+    ? 0
+    : Math.max(0, cues.findIndex(cue => cue.endTime > positionMs));
+  const windowStartMs = cues[start].startTime;
+
+  let end = start;
+  while (end < cues.length && cues[end].startTime < windowStartMs + windowMs) {
+    end++;
+  }
+
+  if (start === 0 && end >= cues.length) {
+    return null;
+  }
+
+  for (let index = start; index < end; index++) {
+    if (!options?.completed?.has(index)) {
+      return { start, end };
+    }
+  }
+
+  return null;
+}
+
 /**
  * Translate segments and merge with original (bilingual)
  */
 export async function translateToBilingual(
   originalCues: SubtitleCue[],
   targetLang: string = 'zh-CN',
-  concurrency: number = 2
+  concurrency: number = 2,
+  options?: TranslationRunOptions
 ): Promise<SubtitleCue[]> {
-  const config = getConfig();
-  const sourceCues = config.translationSourceRestore.enabled
-    ? await restoreSourceCues(originalCues)
-    : originalCues;
+  const lyricsMode = getConfig().subtitle.lyricsMode;
+  const localTranslations = translateClassifiedCues(originalCues, targetLang, lyricsMode);
+  if (localTranslations.size > 0) {
+    console.log(`[Translator] ${localTranslations.size} sound-event/lyric segments handled locally`);
+    options = {
+      ...options,
+      completed: new Map([...(options?.completed ?? []), ...localTranslations]),
+    };
+  }
+
+  const memoryScope = resolveMemoryScope(targetLang, options);
+  // Failed lines come back as (restored) source text; they must not be memorized
+  const failedIndices = new Set<number>();
+  if (memoryScope && options) {
+    options = await applyTranslationMemory(originalCues, memoryScope, options);
+    const onBatchTranslated = options.onBatchTranslated;
+    options = {
+      ...options,
+      onBatchTranslated: async (segments) => {
+        for (const segment of segments) {
+          if (segment.status === 'failed') {
+            failedIndices.add(segment.index);
+          } else {
+            failedIndices.delete(segment.index);
+          }
+        }
+        await onBatchTranslated?.(segments);
+      },
+    };
+  }
+  const reusedIndices = new Set(options?.completed?.keys() ?? []);
+
   let translatedCues: SubtitleCue[];
 
-  if (config.translationContext.enabled) {
-    try {
-      translatedCues = await translateBatchWithContext(sourceCues, targetLang);
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      console.warn(`[Translator] Context-aware translation failed, falling back to per-line translation: ${message}`);
-      translatedCues = await translateBatch(sourceCues, targetLang, concurrency);
-    }
+  if (!isChatProvider(getTranslationProvider())) {
+    translatedCues = await translateBatchDirect(originalCues, targetLang, options);
   } else {
-    translatedCues = await translateBatch(sourceCues, targetLang, concurrency);
+    const priorityWindow = resolvePriorityWindow(originalCues, options);
+
+    if (!priorityWindow) {
+      translatedCues = await translateSourceCues(originalCues, targetLang, concurrency, options);
+    } else {
+      // Finish the prioritized span first so partial results cover what is being watched
+      const { start, end } = priorityWindow;
+      console.log(
+        `[Translator] Prioritizing segments ${start}-${end - 1} of ${originalCues.length}`
+      );
+      const guidance = await buildTranslationGuidance(originalCues, targetLang, options);
+      const completed = new Map(options?.completed ?? []);
+      const completedOutsideWindow = [...completed.keys()]
+        .filter(index => index < start || index >= end)
+        .length;
+
+      // Window indices are relative to the slice; map them back when reporting
+      await translateSourceCues(
+        originalCues.slice(start, end),
+        targetLang,
+        concurrency,
+        {
+          completed: new Map(
+            [...completed]
+              .filter(([index]) => index >= start && index < end)
+              .map(([index, text]) => [index - start, text])
+          ),
+          onBatchTranslated: async (segments) => {
+            const shifted = segments.map(segment => ({ ...segment, index: segment.index + start }));
+            for (const segment of shifted) {
+              if (segment.status === 'done' && segment.translatedText) {
+                completed.set(segment.index, segment.translatedText);
+              }
+            }
+            await options?.onBatchTranslated?.(shifted);
+          },
+          onProgress: (progress) => options?.onProgress?.({
+            batch: progress.batch,
+            segmentsDone: progress.segmentsDone + completedOutsideWindow,
+            segmentsTotal: originalCues.length,
+          }),
+          getPlaybackPosition: options?.getPlaybackPosition,
+          onGlossaryChecked: options?.onGlossaryChecked,
+          economy: options?.economy,
+        },
+        guidance
+      );
+
+      translatedCues = await translateSourceCues(
+        originalCues,
+        targetLang,
+        concurrency,
+        { ...options, completed },
+        guidance
+      );
+    }
+  }
+
+  if (memoryScope) {
+    await writeTranslationMemory(originalCues, translatedCues, reusedIndices, failedIndices, memoryScope);
   }
 
   const bilingualCues: SubtitleCue[] = [];
@@ -1130,9 +1839,12 @@ export async function translateToBilingual(
     const original = originalCues[i];
     const translated = translatedCues[i];
 
+    if (original.category === 'lyrics' && lyricsMode === 'drop') {
+      continue;
+    }
+
     bilingualCues.push({
-      startTime: original.startTime,
-      endTime: original.endTime,
+      ...original,
       text: `${original.text}\n${translated.text}`,
     });
   }
@@ -1141,7 +1853,293 @@ export async function translateToBilingual(
 }
 
 /**
- * Estimate translation cost
+ * Local translations for classified cues: sound events from the dictionary,
+ * lyrics left empty (rendered as the original line) unless they are translated
+ */
+function translateClassifiedCues(
+  cues: SubtitleCue[],
+  targetLang: string,
+  lyricsMode: LyricsMode
+): Map<number, string> {
+  const translations = new Map<number, string>();
+
+  cues.forEach((cue, index) => {
+    if (cue.category === 'sound') {
+      translations.set(index, translateSoundEvent(cue.text, targetLang));
+    } else if (cue.category === 'lyrics' && lyricsMode !== 'translate') {
+      translations.set(index, '');
+    }
+  });
+
+  return translations;
+}
+
+function resolveMemoryScope(
+  targetLang: string,
+  options?: TranslationRunOptions
+): TranslationMemoryScope | null {
+  if (!getConfig().translationMemory.enabled || !options?.sourceLanguage) {
+    return null;
+  }
+
+  return {
+    sourceLanguage: options.sourceLanguage,
+    targetLanguage: targetLang,
+    model: getUsageScope()?.model ?? getTranslationProvider().model,
+  };
+}
+
+/**
+ * Reuse stored translations for segments not already completed and persist
+ * the hits like a translated batch. Lookup errors never fail the job.
+ */
+async function applyTranslationMemory(
+  cues: SubtitleCue[],
+  scope: TranslationMemoryScope,
+  options: TranslationRunOptions
+): Promise<TranslationRunOptions> {
+  const completed = options.completed;
+  const pendingIndices = cues
+    .map((_, index) => index)
+    .filter(index => !completed?.has(index) && !cues[index].category);
+  if (pendingIndices.length === 0) {
+    return options;
+  }
+
+  let hits: Map<number, string>;
+  try {
+    const found = await lookupTranslationMemory(
+      pendingIndices.map(index => cues[index].text),
+      scope,
+      { fuzzy: getConfig().translationMemory.fuzzy }
+    );
+    hits = new Map([...found].map(([offset, text]) => [pendingIndices[offset], text]));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[Translator] Translation memory lookup failed, translating everything: ${message}`);
+    return options;
+  }
+
+  if (hits.size === 0) {
+    return options;
+  }
+
+  console.log(`[Translator] Translation memory reused ${hits.size}/${pendingIndices.length} segments`);
+
+  try {
+    await options.onBatchTranslated?.([...hits].map(([index, text]) => ({
+      index,
+      startTime: cues[index].startTime,
+      endTime: cues[index].endTime,
+      sourceText: cues[index].text,
+      translatedText: text,
+      status: 'done',
+    })));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[Translator] Failed to persist translation memory hits: ${message}`);
+  }
+
+  return {
+    ...options,
+    completed: new Map([...(completed ?? []), ...hits]),
+  };
+}
+
+/**
+ * Store the pairs translated in this run; resumed, reused, local and failed
+ * segments are skipped
+ */
+async function writeTranslationMemory(
+  originalCues: SubtitleCue[],
+  translatedCues: SubtitleCue[],
+  reusedIndices: ReadonlySet<number>,
+  failedIndices: ReadonlySet<number>,
+  scope: TranslationMemoryScope
+): Promise<void> {
+  const pairs = originalCues
+    .map((cue, index) => ({ cue, index, translatedText: translatedCues[index]?.text ?? '' }))
+    .filter(({ cue, index, translatedText }) => (
+      !reusedIndices.has(index)
+      && !failedIndices.has(index)
+      && !cue.category
+      && translatedText.trim()
+      && translatedText !== cue.text
+    ))
+    .map(({ cue, translatedText }) => ({ sourceText: cue.text, translatedText }));
+
+  if (pairs.length === 0) {
+    return;
+  }
+
+  try {
+    const saved = await saveTranslationMemory(pairs, scope);
+    console.log(`[Translator] Translation memory stored ${saved} segments`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[Translator] Failed to store translation memory: ${message}`);
+  }
+}
+
+/**
+ * Count the completions translateToBilingual would make for these cues,
+ * without calling the provider. Prompts are built by the real builders and
+ * counted with the model's tokenizer. Summary and glossary answers are
+ * counted at their max_tokens cap; restored lines and translations are
+ * assumed to be as long as the source. Memory hits and retries are ignored.
+ */
+export async function estimateTranslationRun(
+  cues: SubtitleCue[],
+  targetLang: string = 'zh-CN'
+): Promise<TranslationEstimate> {
+  const config = getConfig();
+  const provider = getTranslationProvider();
+  const localTranslations = translateClassifiedCues(cues, targetLang, config.subtitle.lyricsMode);
+  const batchSize = Math.max(1, config.translationContext.batchSize);
+  const maxTokens = config.translationContext.maxTokens;
+  const translationRanges = buildPendingTranslationRanges(
+    cues,
+    localTranslations,
+    batchSize,
+    estimateDynamicBatchChars(maxTokens)
+  );
+  const estimate: TranslationEstimate = {
+    provider: provider.name,
+    model: provider.model,
+    tokenizer: null,
+    segments: cues.length,
+    localSegments: localTranslations.size,
+    batches: translationRanges.length,
+    passes: {},
+    promptTokens: 0,
+    completionTokens: 0,
+    costUsd: null,
+  };
+
+  if (!isChatProvider(provider)) {
+    return estimate;
+  }
+
+  const tokens = await createTokenCounter(provider.model);
+  const targetLanguage = resolveTargetLanguage(targetLang);
+  const transcriptText = buildTranscriptText(cues);
+  estimate.tokenizer = { encoding: tokens.encoding, approximate: tokens.approximate };
+
+  const addRequest = (purpose: CompletionPurpose, promptTokens: number, completionTokens: number) => {
+    const pass = estimate.passes[purpose] ?? { requests: 0, promptTokens: 0, completionTokens: 0 };
+    pass.requests++;
+    pass.promptTokens += promptTokens;
+    pass.completionTokens += completionTokens;
+    estimate.passes[purpose] = pass;
+    estimate.promptTokens += promptTokens;
+    estimate.completionTokens += completionTokens;
+  };
+
+  // Chunked passes end with a combine request over the chunk answers
+  const addChunkedPass = (
+    purpose: 'summary' | 'glossary',
+    chunkChars: number,
+    answerTokens: number,
+    buildPrompt: (text: string, mode: 'full' | 'chunk' | 'final') => string
+  ) => {
+    const chunks = splitTranscriptText(transcriptText, chunkChars);
+    if (chunks.length === 1) {
+      addRequest(purpose, tokens.chat(buildPrompt(chunks[0], 'full')), answerTokens);
+      return;
+    }
+    for (const chunk of chunks) {
+      addRequest(purpose, tokens.chat(buildPrompt(chunk, 'chunk')), answerTokens);
+    }
+    addRequest(purpose, tokens.chat(buildPrompt('', 'final')) + chunks.length * answerTokens, answerTokens);
+  };
+
+  // Guidance is pasted into every translation prompt
+  let guidanceTokens = 0;
+  if (transcriptText && config.translationSummary.enabled) {
+    addChunkedPass('summary', config.translationSummary.chunkChars, config.translationSummary.maxTokens, buildSummaryPrompt);
+    guidanceTokens += config.translationSummary.maxTokens;
+  }
+  if (transcriptText && config.translationGlossary.enabled) {
+    addChunkedPass(
+      'glossary',
+      config.translationGlossary.chunkChars,
+      config.translationGlossary.maxTokens,
+      (text, mode) => buildGlossaryPrompt(text, targetLanguage, mode)
+    );
+    guidanceTokens += config.translationGlossary.maxTokens;
+  }
+
+  const answerTokens = (lines: ContextLine[], field: 'restored' | 'translation') => tokens.count(
+    JSON.stringify(lines.map(line => ({ id: line.index, [field]: line.text })))
+  );
+
+  if (config.translationSourceRestore.enabled) {
+    const restoreMaxTokens = Math.max(300, Math.min(1200, maxTokens));
+    const restoreRanges = buildPendingTranslationRanges(
+      cues,
+      localTranslations,
+      Math.max(1, Math.min(batchSize, 12)),
+      Math.max(600, Math.floor(maxTokens * 1.5))
+    );
+    for (const range of restoreRanges) {
+      const batch = buildContextBatch(
+        cues,
+        range.start,
+        range.end,
+        Math.max(0, Math.min(config.translationContext.precedingContextLines, 2)),
+        Math.max(0, Math.min(config.translationContext.followingContextLines, 2))
+      );
+      addRequest(
+        'restore',
+        tokens.chat(buildSourceRestorePrompt(batch)),
+        Math.min(restoreMaxTokens, answerTokens(batch.current, 'restored'))
+      );
+    }
+  }
+
+  const addSingleLine = (text: string, withGuidance: boolean) => {
+    const lineMaxTokens = Math.max(120, Math.min(240, Math.ceil(text.trim().length * 2)));
+    addRequest(
+      'single-line',
+      tokens.chat(buildTranslationPrompt(text, targetLanguage)) + (withGuidance ? guidanceTokens : 0),
+      Math.min(lineMaxTokens, tokens.count(text))
+    );
+  };
+
+  if (!config.translationContext.enabled) {
+    cues.forEach((cue, index) => {
+      if (!localTranslations.has(index)) {
+        addSingleLine(cue.text, true);
+      }
+    });
+    estimate.batches = cues.length - localTranslations.size;
+  } else {
+    const precedingLines = Math.max(0, config.translationContext.precedingContextLines);
+    const followingLines = Math.max(0, config.translationContext.followingContextLines);
+    for (const range of translationRanges) {
+      if (range.end - range.start <= 1) {
+        addSingleLine(cues[range.start].text, false);
+        continue;
+      }
+      const batch = buildContextBatch(cues, range.start, range.end, precedingLines, followingLines);
+      addRequest(
+        'context',
+        tokens.chat(buildContextualTranslationPrompt(batch, targetLanguage)) + guidanceTokens,
+        Math.min(maxTokens, answerTokens(batch.current, 'translation'))
+      );
+    }
+  }
+
+  if (getModelPrice(provider.model)) {
+    estimate.costUsd = computeCostUsd(provider.model, estimate.promptTokens, estimate.completionTokens);
+  }
+
+  return estimate;
+}
+
+/**
+ * Estimate translation cost (USD) from the configured price table;
+ * models without a price use the gpt-4o entry
  */
 export function estimateTranslationCost(
   text: string,
@@ -1151,19 +2149,8 @@ export function estimateTranslationCost(
   const inputTokens = Math.ceil(text.length / 4);
   const outputTokens = inputTokens; // Assume similar length for translation
 
-  // Pricing (as of 2024)
-  const pricing: Record<string, { input: number; output: number }> = {
-    'gpt-4o': { input: 2.5, output: 10 }, // per 1M tokens (USD)
-    'gpt-4o-mini': { input: 0.15, output: 0.6 },
-    'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
-  };
-
-  const modelPricing = pricing[model] || pricing['gpt-4o'];
-
-  const inputCost = (inputTokens / 1_000_000) * modelPricing.input;
-  const outputCost = (outputTokens / 1_000_000) * modelPricing.output;
-
-  return inputCost + outputCost;
+  const pricedModel = getModelPrice(model) ? model : 'gpt-4o';
+  return computeCostUsd(pricedModel, inputTokens, outputTokens);
 }
 
 /**
@@ -1177,6 +2164,8 @@ export default {
   translateText,
   translateBatch,
   translateBatchWithContext,
+  translateBatchDirect,
   translateToBilingual,
+  estimateTranslationRun,
   estimateTranslationCost,
 };
@@ -0,0 +1,219 @@
+/**
+ * Upstream URL Policy
+ *
+ * Guards the original_url passthrough against SSRF: only https URLs on the
+ * default port whose host is (a subdomain of) an allowed YouTube host may be
+ * fetched, and every address the host resolves to must be public. Redirect
+ * targets go through the same check before they are followed, and the
+ * connection itself only dials addresses that passed the check.
+ */
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { lookup } from 'dns/promises';
+import { Agent } from 'undici';
+import type { UpstreamPolicyErrorCode } from '../types/subtitle.js';
+import { getConfig } from '../config/env.js';
+
+/**
+ * Raised when an upstream URL (or a redirect target) violates the policy
+ */
+export class UpstreamPolicyError extends Error {
+  readonly code: UpstreamPolicyErrorCode;
+  readonly url: string;
+  readonly redirect: boolean;
+
+  constructor(code: UpstreamPolicyErrorCode, url: string, message: string, redirect = false) {
+    super(redirect ? `Redirect rejected: ${message}` : message);
+    this.name = 'UpstreamPolicyError';
+    this.code = code;
+    this.url = url;
+    this.redirect = redirect;
+  }
+}
+
+// Loopback, private, link-local, CGNAT, documentation, multicast and reserved ranges
+const BLOCKED_IPV4_SUBNETS: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+// BlockList checks IPv4-mapped addresses (::ffff:a.b.c.d) against the IPv4
+// ranges; NAT64 and 6to4 are blocked outright since they can embed private
+// IPv4 addresses
+const BLOCKED_IPV6_SUBNETS: Array<[string, number]> = [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['2002::', 16],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+];
+
+let blockList: BlockList | null = null;
+
+function getBlockList(): BlockList {
+  if (!blockList) {
+    blockList = new BlockList();
+    for (const [network, prefix] of BLOCKED_IPV4_SUBNETS) {
+      blockList.addSubnet(network, prefix, 'ipv4');
+    }
+    for (const [network, prefix] of BLOCKED_IPV6_SUBNETS) {
+      blockList.addSubnet(network, prefix, 'ipv6');
+    }
+  }
+
+  return blockList;
+}
+
+/**
+ * True when the IP address is loopback, private or otherwise not publicly routable
+ */
+export function isBlockedAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return true;
+  }
+
+  return getBlockList().check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * True when the host equals an allowed host or is one of its subdomains
+ */
+export function isAllowedUpstreamHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  return getConfig().youtube.allowedHosts.some(allowed => (
+    host === allowed || host.endsWith(`.${allowed}`)
+  ));
+}
+
+/**
+ * Resolve a host and refuse it when any of its addresses is not public
+ */
+async function resolvePublicAddresses(
+  hostname: string,
+  rawUrl: string,
+  redirect: boolean
+): Promise<Array<{ address: string; family: number }>> {
+  let addresses: Array<{ address: string; family: number }>;
+  try {
+    addresses = await lookup(hostname, { all: true, verbatim: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to resolve upstream host ${hostname}: ${message}`);
+  }
+
+  const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+  if (addresses.length === 0 || blocked) {
+    console.warn(`[Upstream] Refusing ${hostname}: resolves to ${blocked?.address ?? 'no addresses'}`);
+    throw new UpstreamPolicyError(
+      'upstream_address_blocked',
+      rawUrl,
+      `Upstream host ${hostname} resolves to a non-public address`,
+      redirect
+    );
+  }
+
+  return addresses;
+}
+
+/**
+ * Validate an upstream URL, resolving its host so that allowed names pointing
+ * at internal addresses are refused too. Returns the parsed URL.
+ *
+ * Fetch through getUpstreamDispatcher() so a DNS rebinding between this check
+ * and the connection cannot reach an internal address.
+ */
+export async function assertUpstreamUrl(rawUrl: string, redirect = false): Promise<URL> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new UpstreamPolicyError('invalid_upstream_url', rawUrl, 'Upstream URL is not a valid absolute URL', redirect);
+  }
+
+  if (url.protocol !== 'https:') {
+    throw new UpstreamPolicyError(
+      'upstream_scheme_not_allowed',
+      rawUrl,
+      `Upstream scheme ${url.protocol.replace(/:$/, '')} is not allowed; use https`,
+      redirect
+    );
+  }
+
+  if (url.username || url.password) {
+    throw new UpstreamPolicyError('invalid_upstream_url', rawUrl, 'Upstream URL must not contain credentials', redirect);
+  }
+
+  if (url.port !== '' && url.port !== '443') {
+    throw new UpstreamPolicyError('upstream_port_not_allowed', rawUrl, `Upstream port ${url.port} is not allowed`, redirect);
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(hostname) !== 0 || !isAllowedUpstreamHost(hostname)) {
+    throw new UpstreamPolicyError('upstream_host_not_allowed', rawUrl, `Upstream host ${hostname} is not allowed`, redirect);
+  }
+
+  await resolvePublicAddresses(hostname, rawUrl, redirect);
+  return url;
+}
+
+/**
+ * Socket lookup for upstream connections: resolves the host once, checks
+ * every address and hands only those checked addresses to the socket
+ */
+export const lookupUpstreamHost: LookupFunction = (hostname, options, callback) => {
+  resolvePublicAddresses(hostname, hostname, false).then(
+    (addresses) => {
+      const matching = options.family
+        ? addresses.filter(({ family }) => family === options.family)
+        : addresses;
+      if (matching.length === 0) {
+        const error: NodeJS.ErrnoException = new Error(`No IPv${options.family} address for ${hostname}`);
+        error.code = 'ENOTFOUND';
+        callback(error, '');
+      } else if (options.all) {
+        callback(null, matching);
+      } else {
+        callback(null, matching[0].address, matching[0].family);
+      }
+    },
+    (error: Error) => callback(error, '')
+  );
+};
+
+let upstreamDispatcher: Agent | null = null;
+
+/**
+ * Shared undici dispatcher whose connections resolve through lookupUpstreamHost
+ */
+export function getUpstreamDispatcher(): Agent {
+  if (!upstreamDispatcher) {
+    upstreamDispatcher = new Agent({ connect: { lookup: lookupUpstreamHost } });
+  }
+
+  return upstreamDispatcher;
+}
+
+export default {
+  UpstreamPolicyError,
+  isBlockedAddress,
+  isAllowedUpstreamHost,
+  assertUpstreamUrl,
+  lookupUpstreamHost,
+  getUpstreamDispatcher,
+};
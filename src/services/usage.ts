@@ -0,0 +1,79 @@
+/**
+ * Usage Accounting
+ *
+ * Prices chat completions from the configured table and records them per
+ * day, per job and per client. The running job is tracked with
+ * AsyncLocalStorage so providers can attribute usage (and apply the job's
+ * economy model) without threading it through every pipeline step.
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+import type { ApiUsageRecord, ModelPrice, UsageScope } from '../types/subtitle.js';
+import { getConfig } from '../config/env.js';
+import { recordApiUsage } from './cache.js';
+
+const usageScope = new AsyncLocalStorage<UsageScope>();
+
+/**
+ * Run a job's translation so completions inside it are attributed to the job
+ */
+export function runWithUsageScope<T>(scope: UsageScope, run: () => Promise<T>): Promise<T> {
+  return usageScope.run(scope, run);
+}
+
+export function getUsageScope(): UsageScope | null {
+  return usageScope.getStore() ?? null;
+}
+
+/**
+ * Price for a model: exact entry, else the longest configured prefix
+ * (`gpt-4o-2024-08-06` uses `gpt-4o`); null when unknown
+ */
+export function getModelPrice(model: string): ModelPrice | null {
+  const prices = getConfig().usage.prices;
+  if (prices[model]) {
+    return prices[model];
+  }
+
+  const prefix = Object.keys(prices)
+    .filter(name => model.startsWith(name))
+    .sort((left, right) => right.length - left.length)[0];
+  return prefix ? prices[prefix] : null;
+}
+
+export function computeCostUsd(model: string, promptTokens: number, completionTokens: number): number {
+  const price = getModelPrice(model);
+  if (!price) {
+    return 0;
+  }
+
+  return (promptTokens / 1_000_000) * price.input + (completionTokens / 1_000_000) * price.output;
+}
+
+/**
+ * Price and store one completion attempt; storage errors never fail a request
+ */
+export async function recordCompletionUsage(
+  record: Omit<ApiUsageRecord, 'costUsd' | 'jobId' | 'clientId'>
+): Promise<void> {
+  const scope = getUsageScope();
+
+  try {
+    await recordApiUsage({
+      ...record,
+      costUsd: computeCostUsd(record.model, record.promptTokens, record.completionTokens),
+      jobId: scope?.jobId ?? null,
+      clientId: scope?.clientId ?? null,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[Usage] Failed to record ${record.purpose} usage for ${record.model}: ${message}`);
+  }
+}
+
+export default {
+  runWithUsageScope,
+  getUsageScope,
+  getModelPrice,
+  computeCostUsd,
+  recordCompletionUsage,
+};
@@ -3,10 +3,16 @@
  *
  * Fetches original subtitles from YouTube API
  */
-import type { YouTubeTimedTextResponse, SubtitleRequest } from '../types/subtitle.js';
+import type {
+  CaptionJob,
+  SubtitleCue,
+  SubtitleRequest,
+  SubtitleSourceFormat,
+  YouTubeTimedTextResponse,
+} from '../types/subtitle.js';
 import { getConfig } from '../config/env.js';
-import { parseWebVTT, parseYouTubeSrv3 } from '../subtitle/parse.js';
-import { renderYouTubeTimedText } from '../subtitle/render.js';
+import { parseASS, parseSRT, parseTTML, parseWebVTT, parseYouTubeSrv3 } from '../subtitle/parse.js';
+import { assertUpstreamUrl, getUpstreamDispatcher, UpstreamPolicyError } from './upstream.js';
 import { LRUCache } from 'lru-cache';
 
 export interface TimedTextFetchResult {
@@ -17,6 +23,7 @@ export interface TimedTextFetchResult {
 
 const ORIGINAL_SUBTITLE_CACHE_TTL_MS = 60 * 1000;
 const ORIGINAL_SUBTITLE_CACHE_MAX_ITEMS = 200;
+const MAX_UPSTREAM_REDIRECTS = 3;
 
 let timedTextCache: LRUCache<string, TimedTextFetchResult> | null = null;
 
@@ -32,7 +39,40 @@ function getTimedTextCache(): LRUCache<string, TimedTextFetchResult> {
 }
 
 /**
- * Fetch subtitle from YouTube timedtext API
+ * Fetch an upstream URL, validating it and every redirect target against the
+ * upstream policy before connecting. Connections only dial checked addresses.
+ */
+async function fetchUpstream(url: string, signal: AbortSignal): Promise<Response> {
+  let target = (await assertUpstreamUrl(url)).toString();
+
+  for (let redirects = 0; ; redirects++) {
+    const response = await fetch(target, {
+      signal,
+      redirect: 'manual',
+      dispatcher: getUpstreamDispatcher(),
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
+        'Accept': 'application/json, text/plain, */*',
+      },
+    });
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+
+    if (redirects >= MAX_UPSTREAM_REDIRECTS) {
+      throw new Error(`Too many redirects (more than ${MAX_UPSTREAM_REDIRECTS})`);
+    }
+
+    const next = new URL(location, target).toString();
+    target = (await assertUpstreamUrl(next, true)).toString();
+  }
+}
+
+/**
+ * Fetch subtitle from YouTube timedtext API. URLs outside the upstream
+ * policy raise UpstreamPolicyError.
  */
 export async function fetchYouTubeTimedText(
   params: SubtitleRequest
@@ -60,15 +100,12 @@ export async function fetchYouTubeTimedText(
       config.youtube.fetchTimeoutMs
     );
 
-    const response = await fetch(url, {
-      signal: controller.signal,
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
-        'Accept': 'application/json, text/plain, */*',
-      },
-    });
-
-    clearTimeout(timeoutId);
+    let response: Response;
+    try {
+      response = await fetchUpstream(url, controller.signal);
+    } finally {
+      clearTimeout(timeoutId);
+    }
 
     if (!response.ok) {
       throw new Error(`YouTube API returned ${response.status}: ${response.statusText}`);
@@ -86,6 +123,9 @@ export async function fetchYouTubeTimedText(
     cache.set(url, result);
     return result;
   } catch (error) {
+    if (error instanceof UpstreamPolicyError) {
+      throw error;
+    }
     if (error instanceof Error) {
       if (error.name === 'AbortError') {
         throw new Error('YouTube API request timeout');
@@ -103,25 +143,83 @@ export async function fetchYouTubeSubtitle(
   return result.parsed;
 }
 
-function parseTimedTextResponse(
+/**
+ * Sniff the subtitle format from the payload, falling back to the content type
+ */
+export function detectSubtitleFormat(
   rawText: string,
   contentType: string | null
-): YouTubeTimedTextResponse {
-  const trimmed = rawText.trim();
-  const looksLikeJson = trimmed.startsWith('{') || trimmed.startsWith('[');
-  const isJsonContent = contentType?.includes('json');
-
-  if (looksLikeJson || isJsonContent) {
-    return JSON.parse(rawText) as YouTubeTimedTextResponse;
-  }
+): SubtitleSourceFormat {
+  const trimmed = rawText.replace(/^\uFEFF/, '').trim();
+  const type = contentType?.toLowerCase() ?? '';
 
   if (trimmed.startsWith('WEBVTT')) {
-    const cues = parseWebVTT(rawText);
-    return renderYouTubeTimedText(cues);
+    return 'vtt';
+  }
+  // ASS section headers also start with '[', so check them before JSON
+  if (/^\[(?:script info|v4\+? styles|events)\]/im.test(trimmed)) {
+    return 'ass';
+  }
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    return 'json3';
+  }
+  if (/<tt[\s>]/i.test(trimmed) && !/<timedtext[\s>]/i.test(trimmed)) {
+    return 'ttml';
+  }
+  if (/^\d+\s*\n\s*\d{1,3}:\d{1,2}:\d{1,2}[,.]\d{1,3}\s*-->/.test(trimmed.replace(/\r\n?/g, '\n'))) {
+    return 'srt';
+  }
+  if (type.includes('json')) {
+    return 'json3';
+  }
+  if (type.includes('subrip')) {
+    return 'srt';
+  }
+  if (type.includes('ttml')) {
+    return 'ttml';
+  }
+  if (type.includes('ssa') || type.includes('ass')) {
+    return 'ass';
   }
 
-  const cues = parseYouTubeSrv3(rawText);
-  return renderYouTubeTimedText(cues);
+  return 'srv3';
+}
+
+/**
+ * Convert parsed cues into a standard (non-scrolling) json3 document
+ */
+function cuesToTimedText(cues: SubtitleCue[]): YouTubeTimedTextResponse {
+  return {
+    events: cues.map(cue => ({
+      tStartMs: Math.floor(cue.startTime),
+      dDurationMs: Math.max(0, Math.floor(cue.endTime - cue.startTime)),
+      segs: [{ utf8: cue.text }],
+    })),
+  };
+}
+
+/**
+ * Parse any supported subtitle payload into the json3 shape the pipeline uses.
+ * Malformed SRT/TTML/ASS input raises SubtitleParseError.
+ */
+export function parseTimedTextResponse(
+  rawText: string,
+  contentType: string | null
+): YouTubeTimedTextResponse {
+  switch (detectSubtitleFormat(rawText, contentType)) {
+    case 'json3':
+      return JSON.parse(rawText) as YouTubeTimedTextResponse;
+    case 'vtt':
+      return cuesToTimedText(parseWebVTT(rawText));
+    case 'srt':
+      return cuesToTimedText(parseSRT(rawText));
+    case 'ttml':
+      return cuesToTimedText(parseTTML(rawText));
+    case 'ass':
+      return cuesToTimedText(parseASS(rawText));
+    default:
+      return cuesToTimedText(parseYouTubeSrv3(rawText));
+  }
 }
 
 /**
@@ -185,7 +283,8 @@ export async function getAvailableLanguages(videoId: string): Promise<string[]>
 }
 
 /**
- * Generate cache key for subtitle request
+ * Generate cache key for subtitle request. Keys identify the source only;
+ * `fmt` is a render parameter, so every format shares one document.
  */
 export function generateCacheKey(params: SubtitleRequest): string {
   const parts = [
@@ -193,7 +292,6 @@ export function generateCacheKey(params: SubtitleRequest): string {
     params.lang,
     params.tlang || 'zh-CN',
     params.kind || 'asr',
-    params.fmt || 'json3',
   ];
 
   return parts.join('|');
@@ -204,19 +302,31 @@ export function parseCacheKey(cacheKey: string): {
   lang: string;
   tlang: string;
   track: string;
-  fmt: string;
 } {
-  const [videoId, lang, tlang = 'zh-CN', track = 'asr', fmt = 'json3'] = cacheKey.split('|');
+  const [videoId, lang, tlang = 'zh-CN', track = 'asr'] = cacheKey.split('|');
 
   return {
     videoId,
     lang,
     tlang,
     track,
-    fmt,
   };
 }
 
+/**
+ * Rebuild the cache key a caption job row was stored under
+ */
+export function buildJobCacheKey(
+  job: Pick<CaptionJob, 'video_id' | 'lang' | 'tlang' | 'track'>
+): string {
+  return generateCacheKey({
+    v: job.video_id,
+    lang: job.lang,
+    tlang: job.tlang,
+    kind: job.track,
+  });
+}
+
 /**
  * Generate source hash for subtitle content
  */
@@ -238,5 +348,8 @@ export default {
   getAvailableLanguages,
   generateCacheKey,
   parseCacheKey,
+  buildJobCacheKey,
   generateSourceHash,
+  detectSubtitleFormat,
+  parseTimedTextResponse,
 };
@@ -0,0 +1,101 @@
+/**
+ * Cue Classification
+ *
+ * Tags sound-event cues (`[Applause]`, `(laughs)`, `♪`) and lyric lines
+ * (`♪ ... ♪`) so they bypass the translation provider. Sound events are
+ * translated from a fixed local dictionary.
+ */
+import type { CueCategory, SubtitleCue } from '../types/subtitle.js';
+
+const SOUND_TAG_PATTERN = /\[[^\]\n]+\]|\([^)\n]+\)|[♪♫]+/g;
+const SOUND_ONLY_PATTERN = /^(?:\s*(?:\[[^\]\n]+\]|\([^)\n]+\)|[♪♫]+))+\s*$/;
+const LYRIC_MARKER_PATTERN = /^[♪♫]|[♪♫]$/;
+
+/**
+ * Sound-event names (lowercase, as they appear inside brackets) to their
+ * translation per target language
+ */
+const SOUND_EVENT_DICTIONARY: Record<string, Record<string, string>> = {
+  'music': { 'zh-CN': '音乐', 'zh-TW': '音樂', 'ja': '音楽', 'ko': '음악', 'es': 'Música', 'fr': 'Musique', 'de': 'Musik', 'ru': 'Музыка' },
+  'applause': { 'zh-CN': '掌声', 'zh-TW': '掌聲', 'ja': '拍手', 'ko': '박수', 'es': 'Aplausos', 'fr': 'Applaudissements', 'de': 'Applaus', 'ru': 'Аплодисменты' },
+  'laughter': { 'zh-CN': '笑声', 'zh-TW': '笑聲', 'ja': '笑い声', 'ko': '웃음소리', 'es': 'Risas', 'fr': 'Rires', 'de': 'Gelächter', 'ru': 'Смех' },
+  'laughs': { 'zh-CN': '笑', 'zh-TW': '笑', 'ja': '笑う', 'ko': '웃음', 'es': 'Ríe', 'fr': 'Rit', 'de': 'Lacht', 'ru': 'Смеётся' },
+  'laughing': { 'zh-CN': '笑', 'zh-TW': '笑', 'ja': '笑う', 'ko': '웃음', 'es': 'Riendo', 'fr': 'Rire', 'de': 'Lachen', 'ru': 'Смех' },
+  'cheering': { 'zh-CN': '欢呼', 'zh-TW': '歡呼', 'ja': '歓声', 'ko': '환호', 'es': 'Vítores', 'fr': 'Acclamations', 'de': 'Jubel', 'ru': 'Ликование' },
+  'cheers': { 'zh-CN': '欢呼', 'zh-TW': '歡呼', 'ja': '歓声', 'ko': '환호', 'es': 'Vítores', 'fr': 'Acclamations', 'de': 'Jubel', 'ru': 'Ликование' },
+  'silence': { 'zh-CN': '静默', 'zh-TW': '靜默', 'ja': '沈黙', 'ko': '침묵', 'es': 'Silencio', 'fr': 'Silence', 'de': 'Stille', 'ru': 'Тишина' },
+  'inaudible': { 'zh-CN': '听不清', 'zh-TW': '聽不清', 'ja': '聞き取れない', 'ko': '들리지 않음', 'es': 'Inaudible', 'fr': 'Inaudible', 'de': 'Unverständlich', 'ru': 'Неразборчиво' },
+  'foreign': { 'zh-CN': '外语', 'zh-TW': '外語', 'ja': '外国語', 'ko': '외국어', 'es': 'Idioma extranjero', 'fr': 'Langue étrangère', 'de': 'Fremdsprache', 'ru': 'Иностранная речь' },
+  'no audio': { 'zh-CN': '无声', 'zh-TW': '無聲', 'ja': '音声なし', 'ko': '소리 없음', 'es': 'Sin audio', 'fr': 'Pas de son', 'de': 'Kein Ton', 'ru': 'Нет звука' },
+  'sighs': { 'zh-CN': '叹气', 'zh-TW': '嘆氣', 'ja': 'ため息', 'ko': '한숨', 'es': 'Suspira', 'fr': 'Soupire', 'de': 'Seufzt', 'ru': 'Вздыхает' },
+  'coughs': { 'zh-CN': '咳嗽', 'zh-TW': '咳嗽', 'ja': '咳', 'ko': '기침', 'es': 'Tose', 'fr': 'Tousse', 'de': 'Hustet', 'ru': 'Кашляет' },
+  'gasps': { 'zh-CN': '倒吸一口气', 'zh-TW': '倒吸一口氣', 'ja': '息をのむ', 'ko': '헉', 'es': 'Jadea', 'fr': 'Halète', 'de': 'Keucht', 'ru': 'Ахает' },
+  'screaming': { 'zh-CN': '尖叫', 'zh-TW': '尖叫', 'ja': '悲鳴', 'ko': '비명', 'es': 'Gritos', 'fr': 'Cris', 'de': 'Schreie', 'ru': 'Крики' },
+  'crowd noise': { 'zh-CN': '人群嘈杂声', 'zh-TW': '人群嘈雜聲', 'ja': '群衆のざわめき', 'ko': '군중 소음', 'es': 'Ruido de multitud', 'fr': 'Bruit de foule', 'de': 'Menschenmenge', 'ru': 'Шум толпы' },
+  'background noise': { 'zh-CN': '背景噪音', 'zh-TW': '背景噪音', 'ja': '雑音', 'ko': '배경 소음', 'es': 'Ruido de fondo', 'fr': 'Bruit de fond', 'de': 'Hintergrundgeräusche', 'ru': 'Фоновый шум' },
+  'upbeat music': { 'zh-CN': '欢快的音乐', 'zh-TW': '歡快的音樂', 'ja': '軽快な音楽', 'ko': '경쾌한 음악', 'es': 'Música animada', 'fr': 'Musique entraînante', 'de': 'Fröhliche Musik', 'ru': 'Бодрая музыка' },
+  'music playing': { 'zh-CN': '音乐声', 'zh-TW': '音樂聲', 'ja': '音楽が流れる', 'ko': '음악 재생 중', 'es': 'Música sonando', 'fr': 'Musique', 'de': 'Musik läuft', 'ru': 'Играет музыка' },
+  'bell rings': { 'zh-CN': '铃声', 'zh-TW': '鈴聲', 'ja': 'ベルの音', 'ko': '벨 소리', 'es': 'Suena un timbre', 'fr': 'Sonnerie', 'de': 'Klingeln', 'ru': 'Звонок' },
+  'phone ringing': { 'zh-CN': '电话铃声', 'zh-TW': '電話鈴聲', 'ja': '電話の着信音', 'ko': '전화벨', 'es': 'Teléfono sonando', 'fr': 'Téléphone qui sonne', 'de': 'Telefon klingelt', 'ru': 'Звонит телефон' },
+};
+
+function normalizeSoundName(name: string): string {
+  return name.toLowerCase().replace(/[.!]+$/, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Classify one cue; dialogue returns undefined
+ */
+export function classifyCueText(text: string): CueCategory | undefined {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+
+  if (SOUND_ONLY_PATTERN.test(trimmed)) {
+    return 'sound';
+  }
+
+  return LYRIC_MARKER_PATTERN.test(trimmed) ? 'lyrics' : undefined;
+}
+
+/**
+ * Tag sound-event and lyric cues with `category`
+ */
+export function classifyCues(cues: SubtitleCue[]): SubtitleCue[] {
+  return cues.map(cue => {
+    const category = classifyCueText(cue.text);
+    if (category) {
+      return { ...cue, category };
+    }
+
+    if (!cue.category) {
+      return cue;
+    }
+
+    const { category: _category, ...rest } = cue;
+    return rest;
+  });
+}
+
+/**
+ * Translate every bracketed tag of a sound-event cue from the dictionary.
+ * Unknown tags and languages keep the source tag; `♪` passes through.
+ */
+export function translateSoundEvent(text: string, targetLang: string): string {
+  return text.trim().replace(SOUND_TAG_PATTERN, tag => {
+    if (/^[♪♫]+$/.test(tag)) {
+      return tag;
+    }
+
+    const entry = SOUND_EVENT_DICTIONARY[normalizeSoundName(tag.slice(1, -1))];
+    const translation = entry?.[targetLang] ?? entry?.[targetLang.split('-')[0]];
+    return translation ? `${tag[0]}${translation}${tag[tag.length - 1]}` : tag;
+  });
+}
+
+export default {
+  classifyCueText,
+  classifyCues,
+  translateSoundEvent,
+};
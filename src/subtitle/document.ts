@@ -0,0 +1,236 @@
+/**
+ * Bilingual Subtitle Document
+ *
+ * Canonical cached artifact: aligned source/translation cues that every
+ * output format and mode is rendered from at request time.
+ */
+import type {
+  BilingualCue,
+  BilingualSubtitleDocument,
+  CaptionSegment,
+  SpeakerLabelMode,
+  SubtitleCue,
+  SubtitleOutputMode,
+  SubtitleStyleSheet,
+} from '../types/subtitle.js';
+import { optimizeBilingualCues } from './segment.js';
+import { formatSpeakerPrefix, restoreCueSpeakers } from './speaker.js';
+import { buildCueWordTimings, type SubtitleAtom } from './timeline.js';
+
+export const BILINGUAL_DOCUMENT_VERSION = 1;
+
+function splitBilingualText(text: string): { original: string; translation: string } {
+  const [originalLine = '', ...translationLines] = text.split(/\r?\n/);
+  return {
+    original: originalLine.trim(),
+    translation: translationLines.join(' ').trim(),
+  };
+}
+
+/**
+ * Build a document from translator output (`original\ntranslation` cues)
+ */
+export function createBilingualDocument(
+  cues: SubtitleCue[],
+  meta: {
+    sourceLanguage: string;
+    targetLanguage: string;
+    track: string;
+    styles?: SubtitleStyleSheet;
+  }
+): BilingualSubtitleDocument {
+  const hasStyledCues = cues.some(cue => cue.style);
+
+  return {
+    version: BILINGUAL_DOCUMENT_VERSION,
+    sourceLanguage: meta.sourceLanguage,
+    targetLanguage: meta.targetLanguage,
+    track: meta.track,
+    cues: cues.map(cue => ({
+      startTime: cue.startTime,
+      endTime: cue.endTime,
+      ...splitBilingualText(cue.text),
+      ...(cue.style ? { style: cue.style } : {}),
+      ...(cue.speaker ? { speaker: cue.speaker } : {}),
+    })),
+    ...(hasStyledCues && meta.styles ? { styles: meta.styles } : {}),
+  };
+}
+
+/**
+ * Build a provisional document from a running job's segments.
+ * Untranslated segments get an empty translation and render as original text.
+ * Style and speaker come from the job's source cues (index-aligned with the
+ * segments) so partial results look like the final document.
+ */
+export function createDocumentFromSegments(
+  segments: CaptionSegment[],
+  meta: {
+    sourceLanguage: string;
+    targetLanguage: string;
+    track: string;
+    styles?: SubtitleStyleSheet;
+  },
+  sourceCues: SubtitleCue[] = []
+): BilingualSubtitleDocument {
+  const ordered = [...segments].sort((left, right) => left.segment_index - right.segment_index);
+  const cues = ordered.map((segment): BilingualCue => {
+    const source = sourceCues[segment.segment_index];
+    const aligned = source && Math.round(source.startTime) === segment.start_ms ? source : null;
+
+    return {
+      startTime: segment.start_ms,
+      endTime: segment.end_ms,
+      original: segment.source_text.trim(),
+      translation: segment.status === 'done' ? (segment.translated_text ?? '').trim() : '',
+      ...(aligned?.style ? { style: aligned.style } : {}),
+      ...(aligned?.speaker ? { speaker: aligned.speaker } : {}),
+    };
+  });
+
+  return {
+    version: BILINGUAL_DOCUMENT_VERSION,
+    sourceLanguage: meta.sourceLanguage,
+    targetLanguage: meta.targetLanguage,
+    track: meta.track,
+    cues,
+    ...(cues.some(cue => cue.style) && meta.styles ? { styles: meta.styles } : {}),
+  };
+}
+
+/**
+ * Build an untranslated document from source cues; renders as original text
+ */
+export function createSourceDocument(
+  cues: SubtitleCue[],
+  meta: {
+    sourceLanguage: string;
+    targetLanguage: string;
+    track: string;
+  }
+): BilingualSubtitleDocument {
+  return {
+    version: BILINGUAL_DOCUMENT_VERSION,
+    sourceLanguage: meta.sourceLanguage,
+    targetLanguage: meta.targetLanguage,
+    track: meta.track,
+    cues: cues
+      .map(cue => ({
+        startTime: cue.startTime,
+        endTime: cue.endTime,
+        original: cue.text.replace(/\s*\n\s*/g, ' ').trim(),
+        translation: '',
+        ...(cue.speaker ? { speaker: cue.speaker } : {}),
+      }))
+      .filter(cue => cue.original),
+  };
+}
+
+/**
+ * Attach per-word offsets from the source timeline to the original lines
+ * they spell out; used by karaoke json3 output
+ */
+export function attachWordTimings(
+  document: BilingualSubtitleDocument,
+  atoms: SubtitleAtom[]
+): BilingualSubtitleDocument {
+  if (atoms.length === 0) {
+    return document;
+  }
+
+  const timings = buildCueWordTimings(
+    document.cues.map(cue => ({ startTime: cue.startTime, text: cue.original })),
+    atoms
+  );
+
+  return {
+    ...document,
+    cues: document.cues.map((cue, index) => {
+      const words = timings[index];
+      return words ? { ...cue, words } : cue;
+    }),
+  };
+}
+
+export function serializeBilingualDocument(document: BilingualSubtitleDocument): string {
+  return JSON.stringify(document);
+}
+
+/**
+ * Parse a stored document; returns null for legacy or malformed payloads
+ */
+export function parseBilingualDocument(payload: string): BilingualSubtitleDocument | null {
+  const trimmed = payload.trim();
+  if (!trimmed.startsWith('{')) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(trimmed) as Partial<BilingualSubtitleDocument>;
+    if (parsed.version !== BILINGUAL_DOCUMENT_VERSION || !Array.isArray(parsed.cues)) {
+      return null;
+    }
+
+    const cues = parsed.cues.filter((cue): cue is BilingualCue => (
+      Boolean(cue)
+      && typeof cue.startTime === 'number'
+      && typeof cue.endTime === 'number'
+      && typeof cue.original === 'string'
+      && typeof cue.translation === 'string'
+    ));
+
+    return {
+      version: BILINGUAL_DOCUMENT_VERSION,
+      sourceLanguage: parsed.sourceLanguage ?? '',
+      targetLanguage: parsed.targetLanguage ?? '',
+      track: parsed.track ?? '',
+      cues,
+      ...(parsed.styles && typeof parsed.styles === 'object' ? { styles: parsed.styles } : {}),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Expand document cues into `original\ntranslation` render cues for a mode.
+ *
+ * Bilingual and original-only output get the display split applied here;
+ * translation-only output is compacted later by prepareCuesForRender.
+ * With speaker labels on, the first cue of each turn gets a dash or name prefix.
+ */
+export function buildRenderCues(
+  document: BilingualSubtitleDocument,
+  outputMode: SubtitleOutputMode,
+  speakerLabels: SpeakerLabelMode = 'none'
+): SubtitleCue[] {
+  const cues: SubtitleCue[] = document.cues.map((cue, index) => {
+    const previousTurn = document.cues[index - 1]?.speaker?.turn;
+    const prefix = cue.speaker && cue.speaker.turn !== previousTurn
+      ? formatSpeakerPrefix(cue.speaker, speakerLabels)
+      : '';
+    const original = `${prefix}${cue.original}`;
+
+    return {
+      startTime: cue.startTime,
+      endTime: cue.endTime,
+      text: cue.translation ? `${original}\n${prefix}${cue.translation}` : original,
+      ...(cue.style ? { style: cue.style } : {}),
+      ...(cue.speaker ? { speaker: cue.speaker } : {}),
+    };
+  });
+
+  return outputMode === 'translation-only'
+    ? cues
+    : restoreCueSpeakers(optimizeBilingualCues(cues), cues);
+}
+
+export default {
+  createBilingualDocument,
+  createDocumentFromSegments,
+  createSourceDocument,
+  attachWordTimings,
+  serializeBilingualDocument,
+  parseBilingualDocument,
+  buildRenderCues,
+};
@@ -1,10 +1,16 @@
 /**
  * Subtitle Parsing Module
  *
- * Parses YouTube timedtext JSON format
+ * Parses YouTube timedtext (json3/srv3), WebVTT, SRT, TTML/DFXP and ASS/SSA
  */
-import type { YouTubeTimedTextEvent, YouTubeTimedTextResponse, SubtitleCue } from '../types/subtitle.js';
+import type {
+  SubtitleCue,
+  SubtitleSourceFormat,
+  YouTubeTimedTextEvent,
+  YouTubeTimedTextResponse,
+} from '../types/subtitle.js';
 import { buildScrollingAsrTimeline, type SubtitleAtom } from './timeline.js';
+import { collectWindowDefinitions, resolveEventStyle, stripDominantCueStyle } from './style.js';
 
 const SENTENCE_END_PATTERN = /[,.;!?，。！？；…]$/;
 const MAX_SCROLLING_ASR_CJK_CHARS = 34;
@@ -13,6 +19,10 @@ const MAX_SCROLLING_ASR_CJK_OVERFLOW = 8;
 const MAX_SCROLLING_ASR_WORD_OVERFLOW = 5;
 const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uac00-\ud7af]/;
 const WHITESPACE_PATTERN = /\s+/g;
+const SRT_TIMING_PATTERN = /^(\d{1,3}:\d{1,2}:\d{1,2}(?:[,.]\d{1,3})?)\s*-->\s*(\d{1,3}:\d{1,2}:\d{1,2}(?:[,.]\d{1,3})?)(?:\s+.*)?$/;
+const TTML_CLOCK_TIME_PATTERN = /^(\d+):(\d{2}):(\d{2})(?:(\.\d+)|:(\d+(?:\.\d+)?))?$/;
+const TTML_OFFSET_TIME_PATTERN = /^(\d+(?:\.\d+)?)(h|ms|m|s|f|t)$/;
+const ASS_TIMESTAMP_PATTERN = /^(\d+):(\d{1,2}):(\d{1,2})(?:\.(\d{1,3}))?$/;
 const UNSAFE_TRAILING_WORDS = new Set([
   'a',
   'an',
@@ -222,6 +232,7 @@ function parseScrollingAsrTimedText(events: YouTubeTimedTextEvent[]): SubtitleCu
 
 function parseStandardTimedText(events: YouTubeTimedTextEvent[]): SubtitleCue[] {
   const cues: SubtitleCue[] = [];
+  const windows = collectWindowDefinitions(events);
 
   for (const event of events) {
     if (!event.segs || event.segs.length === 0) {
@@ -233,14 +244,16 @@ function parseStandardTimedText(events: YouTubeTimedTextEvent[]): SubtitleCue[]
       continue;
     }
 
+    const style = resolveEventStyle(event, windows);
     cues.push({
       startTime: event.tStartMs,
       endTime: event.tStartMs + event.dDurationMs,
       text,
+      ...(style ? { style } : {}),
     });
   }
 
-  return cues;
+  return stripDominantCueStyle(cues);
 }
 
 /**
@@ -304,6 +317,16 @@ function extractAttribute(attrs: string, name: string): string | null {
   return match ? match[1] : null;
 }
 
+/**
+ * Character for a numeric entity; out-of-range values and surrogates become U+FFFD
+ */
+function decodeCodePoint(code: number): string {
+  if (code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff)) {
+    return '\uFFFD';
+  }
+  return String.fromCodePoint(code);
+}
+
 function decodeXmlEntities(text: string): string {
   return text
     .replace(/&amp;/g, '&')
@@ -315,7 +338,8 @@ function decodeXmlEntities(text: string): string {
     .replace(/&#x0a;/gi, '\n')
     .replace(/&#10;/g, '\n')
     .replace(/&#13;/g, '')
-    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)));
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => decodeCodePoint(parseInt(code, 16)))
+    .replace(/&#(\d+);/g, (_, code) => decodeCodePoint(Number(code)));
 }
 
 /**
@@ -387,6 +411,364 @@ function parseTimestamp(timestamp: string): number {
   return (hours * 3600 + minutes * 60 + seconds) * 1000;
 }
 
+/**
+ * Raised when subtitle input is malformed; carries the format and,
+ * where known, the 1-based line number of the offending input
+ */
+export class SubtitleParseError extends Error {
+  readonly format: SubtitleSourceFormat;
+  readonly line: number | null;
+
+  constructor(format: SubtitleSourceFormat, message: string, line: number | null = null) {
+    super(`Invalid ${format.toUpperCase()}${line !== null ? ` at line ${line}` : ''}: ${message}`);
+    this.name = 'SubtitleParseError';
+    this.format = format;
+    this.line = line;
+  }
+}
+
+function lineNumberAt(text: string, index: number): number {
+  let line = 1;
+  for (let position = 0; position < index && position < text.length; position++) {
+    if (text[position] === '\n') {
+      line++;
+    }
+  }
+  return line;
+}
+
+function normalizeLineEndings(text: string): string {
+  return text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+}
+
+/**
+ * Strip inline markup shared by SRT and WebVTT-style cues (<i>, <font>, {\an8})
+ */
+function stripInlineMarkup(text: string): string {
+  return decodeXmlEntities(
+    text
+      .replace(/<[^>]+>/g, '')
+      .replace(/\{\\[^}]*\}/g, '')
+  )
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+function parseClockTimestamp(value: string): number | null {
+  const match = /^(\d+):(\d{1,2}):(\d{1,2})(?:[,.](\d{1,3}))?$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, hours, minutes, seconds, fraction = '0'] = match;
+  if (Number(minutes) > 59 || Number(seconds) > 59) {
+    return null;
+  }
+
+  return (Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds)) * 1000
+    + Number(fraction.padEnd(3, '0'));
+}
+
+/**
+ * Parse SubRip (SRT) text to subtitle cues
+ */
+export function parseSRT(srt: string): SubtitleCue[] {
+  const lines = normalizeLineEndings(srt).split('\n');
+  const cues: SubtitleCue[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    if (!lines[index].trim()) {
+      index++;
+      continue;
+    }
+
+    let timingIndex = index;
+    if (/^\d+$/.test(lines[index].trim())) {
+      timingIndex = index + 1;
+    }
+
+    const timingLine = lines[timingIndex]?.trim() ?? '';
+    const timing = SRT_TIMING_PATTERN.exec(timingLine);
+    if (!timing) {
+      throw new SubtitleParseError(
+        'srt',
+        timingLine ? `expected "start --> end" timing, got "${timingLine}"` : 'cue is missing its timing line',
+        timingIndex + 1
+      );
+    }
+
+    const startTime = parseClockTimestamp(timing[1]);
+    const endTime = parseClockTimestamp(timing[2]);
+    if (startTime === null || endTime === null) {
+      throw new SubtitleParseError('srt', `invalid timestamp in "${timingLine}"`, timingIndex + 1);
+    }
+    if (endTime < startTime) {
+      throw new SubtitleParseError('srt', 'cue ends before it starts', timingIndex + 1);
+    }
+
+    index = timingIndex + 1;
+    const textLines: string[] = [];
+    while (index < lines.length && lines[index].trim()) {
+      textLines.push(lines[index]);
+      index++;
+    }
+
+    const text = stripInlineMarkup(textLines.join('\n'));
+    if (text) {
+      cues.push({ startTime, endTime, text });
+    }
+  }
+
+  if (cues.length === 0) {
+    throw new SubtitleParseError('srt', 'no subtitle cues found');
+  }
+
+  return cues;
+}
+
+function parseTtmlTime(
+  value: string,
+  rates: { frameRate: number; tickRate: number }
+): number | null {
+  const trimmed = value.trim();
+  const clock = TTML_CLOCK_TIME_PATTERN.exec(trimmed);
+  if (clock) {
+    const [, hours, minutes, seconds, fraction, frames] = clock;
+    let ms = (Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds)) * 1000;
+    if (fraction) {
+      ms += Number(fraction) * 1000;
+    }
+    if (frames) {
+      ms += (Number(frames) / rates.frameRate) * 1000;
+    }
+    return Math.round(ms);
+  }
+
+  const offset = TTML_OFFSET_TIME_PATTERN.exec(trimmed);
+  if (offset) {
+    const amount = Number(offset[1]);
+    const multipliers: Record<string, number> = {
+      h: 3600000,
+      m: 60000,
+      s: 1000,
+      ms: 1,
+      f: 1000 / rates.frameRate,
+      t: 1000 / rates.tickRate,
+    };
+    return Math.round(amount * multipliers[offset[2]]);
+  }
+
+  return null;
+}
+
+/**
+ * Parse TTML / DFXP XML to subtitle cues
+ */
+export function parseTTML(xml: string): SubtitleCue[] {
+  const normalized = normalizeLineEndings(xml);
+  const root = /<tt\b([^>]*)>/i.exec(normalized);
+  if (!root) {
+    throw new SubtitleParseError('ttml', 'missing <tt> root element');
+  }
+
+  const frameRate = Number(extractAttribute(root[1], 'ttp:frameRate')) || 30;
+  const tickRate = Number(extractAttribute(root[1], 'ttp:tickRate')) || frameRate;
+  const rates = { frameRate, tickRate };
+  const cues: SubtitleCue[] = [];
+  const paragraphRegex = /<p\b([^>]*?)(\/>|>([\s\S]*?)<\/p\s*>)/gi;
+  let matchedParagraphs = 0;
+  let lastMatchEnd = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = paragraphRegex.exec(normalized)) !== null) {
+    matchedParagraphs++;
+    lastMatchEnd = match.index + match[0].length;
+    // Only worked out when throwing: rescanning per <p> is quadratic
+    const paragraphStart = match.index;
+    const line = () => lineNumberAt(normalized, paragraphStart);
+    const attrs = match[1] || '';
+    const body = match[3] ?? '';
+    const beginAttr = extractAttribute(attrs, 'begin');
+    const endAttr = extractAttribute(attrs, 'end');
+    const durAttr = extractAttribute(attrs, 'dur');
+
+    if (beginAttr === null) {
+      throw new SubtitleParseError('ttml', '<p> is missing a begin attribute', line());
+    }
+
+    const startTime = parseTtmlTime(beginAttr, rates);
+    if (startTime === null) {
+      throw new SubtitleParseError('ttml', `invalid begin time "${beginAttr}"`, line());
+    }
+
+    let endTime: number | null = null;
+    if (endAttr !== null) {
+      endTime = parseTtmlTime(endAttr, rates);
+    } else if (durAttr !== null) {
+      const duration = parseTtmlTime(durAttr, rates);
+      endTime = duration === null ? null : startTime + duration;
+    } else {
+      throw new SubtitleParseError('ttml', '<p> needs an end or dur attribute', line());
+    }
+
+    if (endTime === null) {
+      throw new SubtitleParseError('ttml', `invalid end time "${endAttr ?? durAttr}"`, line());
+    }
+    if (endTime < startTime) {
+      throw new SubtitleParseError('ttml', 'cue ends before it starts', line());
+    }
+
+    const text = decodeXmlEntities(
+      body
+        .replace(/\s*\n\s*/g, ' ')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<[^>]+>/g, '')
+    )
+      .split('\n')
+      .map(textLine => textLine.trim())
+      .filter(Boolean)
+      .join('\n');
+
+    if (text) {
+      cues.push({ startTime, endTime, text });
+    }
+  }
+
+  const openedParagraphs = normalized.match(/<p\b/gi)?.length ?? 0;
+  if (openedParagraphs > matchedParagraphs) {
+    const unclosedOffset = normalized.slice(lastMatchEnd).search(/<p\b/i);
+    throw new SubtitleParseError(
+      'ttml',
+      'unclosed <p> element',
+      unclosedOffset === -1 ? null : lineNumberAt(normalized, lastMatchEnd + unclosedOffset)
+    );
+  }
+
+  if (cues.length === 0) {
+    throw new SubtitleParseError('ttml', 'no timed <p> elements found');
+  }
+
+  return sortCues(cues);
+}
+
+function parseAssTimestamp(value: string): number | null {
+  const match = ASS_TIMESTAMP_PATTERN.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, hours, minutes, seconds, fraction = '0'] = match;
+  return (Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds)) * 1000
+    + Math.round(Number(`0.${fraction}`) * 1000);
+}
+
+/**
+ * Parse Advanced SubStation Alpha (ASS/SSA) scripts to subtitle cues
+ */
+export function parseASS(script: string): SubtitleCue[] {
+  const lines = normalizeLineEndings(script).split('\n');
+  const cues: SubtitleCue[] = [];
+  let section = '';
+  let sawEvents = false;
+  let format: string[] | null = null;
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].trim();
+    const lineNumber = index + 1;
+
+    const sectionMatch = /^\[(.+)\]$/.exec(line);
+    if (sectionMatch) {
+      section = sectionMatch[1].trim().toLowerCase();
+      sawEvents = sawEvents || section === 'events';
+      continue;
+    }
+
+    if (section !== 'events' || !line || line.startsWith(';')) {
+      continue;
+    }
+
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      continue;
+    }
+
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === 'format') {
+      format = value.split(',').map(field => field.trim().toLowerCase());
+      if (!format.includes('start') || !format.includes('end') || format[format.length - 1] !== 'text') {
+        throw new SubtitleParseError('ass', 'event Format must include Start and End and end with Text', lineNumber);
+      }
+      continue;
+    }
+
+    if (key !== 'dialogue') {
+      continue;
+    }
+
+    if (!format) {
+      throw new SubtitleParseError('ass', 'Dialogue line before the [Events] Format line', lineNumber);
+    }
+
+    const fields = value.split(',');
+    if (fields.length < format.length) {
+      throw new SubtitleParseError(
+        'ass',
+        `expected ${format.length} fields, got ${fields.length}`,
+        lineNumber
+      );
+    }
+
+    const values = [
+      ...fields.slice(0, format.length - 1),
+      fields.slice(format.length - 1).join(','),
+    ];
+    const startValue = values[format.indexOf('start')];
+    const endValue = values[format.indexOf('end')];
+    const startTime = parseAssTimestamp(startValue);
+    const endTime = parseAssTimestamp(endValue);
+
+    if (startTime === null || endTime === null) {
+      throw new SubtitleParseError(
+        'ass',
+        `invalid timestamp "${startTime === null ? startValue : endValue}"`,
+        lineNumber
+      );
+    }
+    if (endTime < startTime) {
+      throw new SubtitleParseError('ass', 'event ends before it starts', lineNumber);
+    }
+
+    const text = values[values.length - 1]
+      .replace(/(?<!\\)\{[^}]*\}/g, '')
+      .replace(/\\[Nn]/g, '\n')
+      .replace(/\\h/g, ' ')
+      .replace(/\\([{}\\])/g, '$1')
+      .split('\n')
+      .map(textLine => textLine.trim())
+      .filter(Boolean)
+      .join('\n');
+
+    if (text) {
+      cues.push({ startTime, endTime, text });
+    }
+  }
+
+  if (!sawEvents) {
+    throw new SubtitleParseError('ass', 'missing [Events] section');
+  }
+
+  if (cues.length === 0) {
+    throw new SubtitleParseError('ass', 'no Dialogue events found');
+  }
+
+  return sortCues(cues);
+}
+
 /**
  * Validate subtitle cues
  */
@@ -425,6 +807,9 @@ export default {
   parseYouTubeTimedText,
   parseYouTubeSrv3,
   parseWebVTT,
+  parseSRT,
+  parseTTML,
+  parseASS,
   validateCues,
   sortCues,
 };
@@ -1,20 +1,28 @@
 /**
  * Subtitle Rendering Module
  *
- * Renders subtitle cues to WebVTT format
+ * Renders subtitle cues to WebVTT, YouTube json3/srv3, SRT, TTML and ASS formats
  */
 import { getConfig } from '../config/env.js';
 import type {
+  BilingualCue,
+  CueStyle,
   SubtitleCue,
   SubtitleOutputMode,
   SubtitleRenderFormat,
+  SubtitleStyleSheet,
+  TimedTextStyleEntry,
+  YouTubeTimedTextEvent,
   YouTubeTimedTextResponse,
 } from '../types/subtitle.js';
+import { hasSameCueStyle, restoreCueStyles, toSrv3Attributes } from './style.js';
+import { hasSameSpeakerTurn } from './speaker.js';
 
 const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uac00-\ud7af]/;
 const CJK_CHAR_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uac00-\ud7af]/;
 const STRONG_SENTENCE_END_PATTERN = /[.!?。！？…]$/;
-const SYMBOL_START_PATTERN = /^[[(♪]/;
+const SYMBOL_START_PATTERN = /^[[(♪♫]/;
+const SYMBOL_END_PATTERN = /[\])♪♫]$/;
 const LEADING_PUNCTUATION_PATTERN = /^[,.;:!?，。！？；：、]/;
 const TRAILING_CONNECTOR_PATTERN = /(?:和|与|或|而|并|从|向|给|把|被|对|在|为|将|让|跟|比|及)$/;
 const PUNCTUATION_ONLY_PATTERN = /^[\p{P}\p{S}\s]+$/u;
@@ -27,6 +35,14 @@ const TRANSLATION_REBALANCE_MAX_GAP_MS = 1000;
 const MIN_REBALANCED_DURATION_MS = 700;
 const MAX_TRANSLATION_ONLY_LINES = 2;
 const MAX_TRANSLATION_ONLY_DURATION_MS = 7200;
+// Separates original and translation line blocks for styled formats (ttml, ass)
+const STYLED_BLOCK_SEPARATOR = '\n\n';
+const ASS_PLAY_RES_X = 1920;
+const ASS_PLAY_RES_Y = 1080;
+const DEFAULT_PENS: TimedTextStyleEntry[] = [{}];
+const DEFAULT_WINDOW_STYLES: TimedTextStyleEntry[] = [{}, { mhModeHint: 2, juJustifCode: 0, sdScrollDir: 3 }];
+const DEFAULT_WINDOW_POSITIONS: TimedTextStyleEntry[] = [{}, { apPoint: 6, ahHorPos: 20, avVerPos: 100, rcRows: 2, ccCols: 40 }];
+const DEFAULT_WINDOW_ID = 1;
 
 function getRenderCharWidth(char: string): number {
   if (!char) {
@@ -337,7 +353,10 @@ function repairTranslationOnlyBoundaries(cues: SubtitleCue[]): SubtitleCue[] {
     let current = repaired[i];
     let next = repaired[i + 1];
 
-    if (next.startTime - current.endTime > TRANSLATION_REBALANCE_MAX_GAP_MS) {
+    if (
+      next.startTime - current.endTime > TRANSLATION_REBALANCE_MAX_GAP_MS
+      || !hasSameSpeakerTurn(current, next)
+    ) {
       continue;
     }
 
@@ -368,7 +387,13 @@ function repairTranslationOnlyBoundaries(cues: SubtitleCue[]): SubtitleCue[] {
 
 function canCompactRenderCue(current: SubtitleCue, next: SubtitleCue): boolean {
   const gap = next.startTime - current.endTime;
-  if (gap > RENDER_COMPACT_MAX_GAP_MS || SYMBOL_START_PATTERN.test(next.text.trim())) {
+  if (
+    gap > RENDER_COMPACT_MAX_GAP_MS
+    || SYMBOL_START_PATTERN.test(next.text.trim())
+    || SYMBOL_END_PATTERN.test(current.text.trim())
+    || !hasSameCueStyle(current, next)
+    || !hasSameSpeakerTurn(current, next)
+  ) {
     return false;
   }
 
@@ -709,7 +734,8 @@ function splitTranslationOnlyCueForDisplay(cue: SubtitleCue): SubtitleCue[] {
 }
 
 function canRebalanceAdjacentDisplayCues(left: SubtitleCue, right: SubtitleCue): boolean {
-  return right.startTime - left.endTime <= RENDER_COMPACT_MAX_GAP_MS;
+  return right.startTime - left.endTime <= RENDER_COMPACT_MAX_GAP_MS
+    && hasSameSpeakerTurn(left, right);
 }
 
 function rebalanceShortTranslationOnlyDisplayCues(cues: SubtitleCue[]): SubtitleCue[] {
@@ -840,6 +866,16 @@ function applyRenderLineLimits(
     };
   }
 
+  if (format === 'ttml' || format === 'ass') {
+    return {
+      ...cue,
+      text: [
+        primaryChunks.filter(Boolean).join('\n'),
+        secondaryChunks.filter(Boolean).join('\n'),
+      ].filter(Boolean).join(STYLED_BLOCK_SEPARATOR),
+    };
+  }
+
   return {
     ...cue,
     text: [
@@ -849,10 +885,13 @@ function applyRenderLineLimits(
   };
 }
 
-function normalizeCueForFormat(cue: SubtitleCue, format: SubtitleRenderFormat): SubtitleCue {
+function normalizeCueForFormat(
+  cue: SubtitleCue,
+  format: SubtitleRenderFormat,
+  outputMode: SubtitleOutputMode
+): SubtitleCue {
   const [originalLine = '', ...translationLines] = cue.text.split(/\r?\n/);
   const translationLine = translationLines.join(' ').trim();
-  const outputMode = getConfig().subtitle.outputMode;
   const outputText = selectOutputText(originalLine, translationLine, outputMode);
 
   return applyRenderLineLimits(cue, format, outputText);
@@ -883,11 +922,41 @@ function selectOutputText(
   };
 }
 
+/**
+ * Map a `fmt` query value (including aliases like dfxp/ssa/srv1) to a render format
+ */
+export function resolveRenderFormat(fmt?: string): SubtitleRenderFormat {
+  const normalized = fmt?.trim().toLowerCase() ?? '';
+
+  if (normalized === 'vtt' || normalized === 'srt' || normalized === 'ttml' || normalized === 'ass') {
+    return normalized;
+  }
+
+  if (normalized === 'dfxp') {
+    return 'ttml';
+  }
+
+  if (normalized === 'ssa') {
+    return 'ass';
+  }
+
+  if (normalized.startsWith('srv')) {
+    return 'srv3';
+  }
+
+  return 'json3';
+}
+
+export function resolveOutputMode(outputMode?: SubtitleOutputMode): SubtitleOutputMode {
+  return outputMode ?? getConfig().subtitle.outputMode;
+}
+
 export function prepareCuesForRender(
   cues: SubtitleCue[],
-  format: SubtitleRenderFormat
+  format: SubtitleRenderFormat,
+  requestedOutputMode?: SubtitleOutputMode
 ): SubtitleCue[] {
-  const outputMode = getConfig().subtitle.outputMode;
+  const outputMode = resolveOutputMode(requestedOutputMode);
   if (outputMode === 'translation-only') {
     const translationOnlyCues = cues
       .map(cue => {
@@ -918,7 +987,7 @@ export function prepareCuesForRender(
       }));
   }
 
-  return cues.map(cue => normalizeCueForFormat(cue, format));
+  return cues.map(cue => normalizeCueForFormat(cue, format, outputMode));
 }
 
 /**
@@ -927,10 +996,11 @@ export function prepareCuesForRender(
 export function renderWebVTT(cues: SubtitleCue[], options?: {
   kind?: string;
   language?: string;
+  outputMode?: SubtitleOutputMode;
 }): string {
   const kind = options?.kind || 'captions';
   const language = options?.language || 'zh-CN';
-  const preparedCues = prepareCuesForRender(cues, 'vtt');
+  const preparedCues = prepareCuesForRender(cues, 'vtt', options?.outputMode);
 
   let vtt = 'WEBVTT\n';
   vtt += `Kind: ${kind}\n`;
@@ -957,11 +1027,72 @@ export function renderWebVTT(cues: SubtitleCue[], options?: {
   return vtt;
 }
 
+interface RenderStyleTables {
+  pens: TimedTextStyleEntry[];
+  wsWinStyles: TimedTextStyleEntry[];
+  wpWinPositions: TimedTextStyleEntry[];
+  mapStyle: (style?: CueStyle) => CueStyle | undefined;
+}
+
+/**
+ * Append the source style tables after our default pen/window entries and
+ * remap cue style ids into the combined tables
+ */
+function buildRenderStyleTables(cues: SubtitleCue[], styles?: SubtitleStyleSheet): RenderStyleTables {
+  const sourcePens = styles?.pens ?? [];
+  const sourceWindowStyles = styles?.wsWinStyles ?? [];
+  const sourceWindowPositions = styles?.wpWinPositions ?? [];
+  const useSourceStyles = Boolean(styles) && cues.some(cue => cue.style);
+
+  if (!useSourceStyles) {
+    return {
+      pens: DEFAULT_PENS,
+      wsWinStyles: DEFAULT_WINDOW_STYLES,
+      wpWinPositions: DEFAULT_WINDOW_POSITIONS,
+      mapStyle: () => undefined,
+    };
+  }
+
+  const remap = (id: number | undefined, table: TimedTextStyleEntry[], offset: number) => (
+    id !== undefined && id >= 0 && id < table.length ? id + offset : undefined
+  );
+
+  return {
+    pens: [...DEFAULT_PENS, ...sourcePens],
+    wsWinStyles: [...DEFAULT_WINDOW_STYLES, ...sourceWindowStyles],
+    wpWinPositions: [...DEFAULT_WINDOW_POSITIONS, ...sourceWindowPositions],
+    mapStyle: (style) => {
+      if (!style) {
+        return undefined;
+      }
+
+      const mapped: CueStyle = {
+        penId: remap(style.penId, sourcePens, DEFAULT_PENS.length),
+        windowStyleId: remap(style.windowStyleId, sourceWindowStyles, DEFAULT_WINDOW_STYLES.length),
+        windowPositionId: remap(style.windowPositionId, sourceWindowPositions, DEFAULT_WINDOW_POSITIONS.length),
+      };
+
+      return Object.values(mapped).some(value => value !== undefined) ? mapped : undefined;
+    },
+  };
+}
+
+function hasWindowOverride(style?: CueStyle): style is CueStyle {
+  return style?.windowPositionId !== undefined || style?.windowStyleId !== undefined;
+}
+
 /**
  * Render subtitle cues to YouTube timedtext JSON format
  */
-export function renderYouTubeTimedText(cues: SubtitleCue[]): YouTubeTimedTextResponse {
-  const preparedCues = prepareCuesForRender(cues, 'json3');
+export function renderYouTubeTimedText(
+  cues: SubtitleCue[],
+  options?: {
+    outputMode?: SubtitleOutputMode;
+    styles?: SubtitleStyleSheet;
+  }
+): YouTubeTimedTextResponse {
+  const preparedCues = restoreCueStyles(prepareCuesForRender(cues, 'json3', options?.outputMode), cues);
+  const styleTables = buildRenderStyleTables(preparedCues, options?.styles);
   const maxEndTimeMs = preparedCues.reduce((max, cue) => (
     Math.max(max, Math.floor(cue.endTime))
   ), 0);
@@ -974,18 +1105,98 @@ export function renderYouTubeTimedText(cues: SubtitleCue[]): YouTubeTimedTextRes
     wsWinStyleId: 1,
   };
 
-  const events = preparedCues.map(cue => ({
-    tStartMs: Math.floor(cue.startTime),
-    dDurationMs: Math.floor(cue.endTime - cue.startTime),
-    wWinId: 1,
-    segs: [{ utf8: cue.text }],
-  }));
+  const events = preparedCues.map(cue => {
+    const style = styleTables.mapStyle(cue.style);
+
+    return {
+      tStartMs: Math.floor(cue.startTime),
+      dDurationMs: Math.floor(cue.endTime - cue.startTime),
+      // Positioned/styled cues get an ad-hoc window instead of the shared one
+      ...(hasWindowOverride(style)
+        ? {
+          wpWinPosId: style.windowPositionId ?? DEFAULT_WINDOW_ID,
+          wsWinStyleId: style.windowStyleId ?? DEFAULT_WINDOW_ID,
+        }
+        : { wWinId: DEFAULT_WINDOW_ID }),
+      segs: [{
+        utf8: cue.text,
+        ...(style?.penId !== undefined ? { pPenId: style.penId } : {}),
+      }],
+    };
+  });
+
+  return {
+    wireMagic: 'pb3',
+    pens: styleTables.pens,
+    wsWinStyles: styleTables.wsWinStyles,
+    wpWinPositions: styleTables.wpWinPositions,
+    events: [initEvent, ...events],
+  };
+}
+
+/**
+ * Render document cues to json3 with the original line split into word
+ * segments (`tOffsetMs`) so players highlight it word by word. Cues without
+ * word timings fall back to a single original segment.
+ */
+export function renderYouTubeKaraokeTimedText(
+  cues: BilingualCue[],
+  options?: {
+    outputMode?: SubtitleOutputMode;
+    styles?: SubtitleStyleSheet;
+  }
+): YouTubeTimedTextResponse {
+  const includeTranslation = resolveOutputMode(options?.outputMode) !== 'original-only';
+  const styleTables = buildRenderStyleTables(
+    cues.map(cue => ({ startTime: cue.startTime, endTime: cue.endTime, text: cue.original, style: cue.style })),
+    options?.styles
+  );
+  const maxEndTimeMs = cues.reduce((max, cue) => Math.max(max, Math.floor(cue.endTime)), 0);
+  const initEvent = {
+    tStartMs: 0,
+    dDurationMs: Math.max(maxEndTimeMs, 60 * 60 * 1000),
+    id: 1,
+    wpWinPosId: 1,
+    wsWinStyleId: 1,
+  };
+
+  const events = cues
+    .filter(cue => cue.original)
+    .map(cue => {
+      const style = styleTables.mapStyle(cue.style);
+      const pen = style?.penId !== undefined ? { pPenId: style.penId } : {};
+      const words = cue.words && cue.words.length > 0
+        ? cue.words
+        : [{ text: cue.original, offsetMs: 0 }];
+      const segs: NonNullable<YouTubeTimedTextEvent['segs']> = words.map(word => ({
+        utf8: word.text,
+        ...(word.offsetMs > 0 ? { tOffsetMs: word.offsetMs } : {}),
+        ...pen,
+      }));
+
+      // No offset: the translation line is shown for the whole cue
+      if (includeTranslation && cue.translation) {
+        segs.push({ utf8: `\n${cue.translation}`, ...pen });
+      }
+
+      return {
+        tStartMs: Math.floor(cue.startTime),
+        dDurationMs: Math.floor(cue.endTime - cue.startTime),
+        ...(hasWindowOverride(style)
+          ? {
+            wpWinPosId: style.windowPositionId ?? DEFAULT_WINDOW_ID,
+            wsWinStyleId: style.windowStyleId ?? DEFAULT_WINDOW_ID,
+          }
+          : { wWinId: DEFAULT_WINDOW_ID }),
+        segs,
+      };
+    });
 
   return {
     wireMagic: 'pb3',
-    pens: [{}],
-    wsWinStyles: [{}, { mhModeHint: 2, juJustifCode: 0, sdScrollDir: 3 }],
-    wpWinPositions: [{}, { apPoint: 6, ahHorPos: 20, avVerPos: 100, rcRows: 2, ccCols: 40 }],
+    pens: styleTables.pens,
+    wsWinStyles: styleTables.wsWinStyles,
+    wpWinPositions: styleTables.wpWinPositions,
     events: [initEvent, ...events],
   };
 }
@@ -997,17 +1208,24 @@ export function renderYouTubeSrv3(
   cues: SubtitleCue[],
   options?: {
     overlapGapMs?: number;
+    outputMode?: SubtitleOutputMode;
+    styles?: SubtitleStyleSheet;
   }
 ): string {
-  const preparedCues = prepareCuesForRender(cues, 'srv3');
+  const preparedCues = restoreCueStyles(prepareCuesForRender(cues, 'srv3', options?.outputMode), cues);
+  const styleTables = buildRenderStyleTables(preparedCues, options?.styles);
   let xml = '<?xml version="1.0" encoding="utf-8" ?>\n';
   xml += '<timedtext format="3">\n';
   xml += '  <head>\n';
-  xml += '    <pen id="0" />\n';
-  xml += '    <ws id="0" />\n';
-  xml += '    <ws id="1" mh="2" ju="0" sd="3" />\n';
-  xml += '    <wp id="0" />\n';
-  xml += '    <wp id="1" ap="6" ah="20" av="100" rc="2" cc="40" />\n';
+  styleTables.pens.forEach((pen, id) => {
+    xml += `    <pen id="${id}"${toSrv3Attributes(pen)} />\n`;
+  });
+  styleTables.wsWinStyles.forEach((windowStyle, id) => {
+    xml += `    <ws id="${id}"${toSrv3Attributes(windowStyle)} />\n`;
+  });
+  styleTables.wpWinPositions.forEach((windowPosition, id) => {
+    xml += `    <wp id="${id}"${toSrv3Attributes(windowPosition)} />\n`;
+  });
   xml += '  </head>\n';
   xml += '  <body>\n';
   xml += '    <w t="0" id="1" wp="1" ws="1"/>\n';
@@ -1042,7 +1260,12 @@ export function renderYouTubeSrv3(
     }
 
     const segmentXml = segments.join('\n');
-    xml += `    <p t="${start}" d="${duration}" w="1">\n${segmentXml}\n    </p>\n`;
+    const style = styleTables.mapStyle(cue.style);
+    const windowAttrs = hasWindowOverride(style)
+      ? ` wp="${style.windowPositionId ?? DEFAULT_WINDOW_ID}" ws="${style.windowStyleId ?? DEFAULT_WINDOW_ID}"`
+      : ` w="${DEFAULT_WINDOW_ID}"`;
+    const penAttr = style?.penId !== undefined ? ` p="${style.penId}"` : '';
+    xml += `    <p t="${start}" d="${duration}"${windowAttrs}${penAttr}>\n${segmentXml}\n    </p>\n`;
   }
 
   xml += '  </body>\n';
@@ -1051,6 +1274,179 @@ export function renderYouTubeSrv3(
   return xml;
 }
 
+/**
+ * Render subtitle cues to SubRip (SRT) format
+ */
+export function renderSRT(cues: SubtitleCue[], options?: {
+  outputMode?: SubtitleOutputMode;
+}): string {
+  const preparedCues = prepareCuesForRender(cues, 'srt', options?.outputMode);
+
+  return preparedCues
+    .map((cue, index) => {
+      const startTime = formatTimestamp(cue.startTime).replace('.', ',');
+      const endTime = formatTimestamp(cue.endTime).replace('.', ',');
+      const text = cue.text
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(Boolean)
+        .join('\n');
+
+      return `${index + 1}\n${startTime} --> ${endTime}\n${text}\n`;
+    })
+    .join('\n');
+}
+
+/**
+ * Render subtitle cues to TTML (DFXP) format.
+ * Original and translation lines are wrapped in separately styled spans.
+ */
+export function renderTTML(cues: SubtitleCue[], options?: {
+  language?: string;
+  outputMode?: SubtitleOutputMode;
+}): string {
+  const language = options?.language || 'zh-CN';
+  const outputMode = resolveOutputMode(options?.outputMode);
+  const preparedCues = prepareCuesForRender(cues, 'ttml', outputMode);
+
+  let xml = '<?xml version="1.0" encoding="utf-8"?>\n';
+  xml += `<tt xmlns="http://www.w3.org/ns/ttml" xmlns:tts="http://www.w3.org/ns/ttml#styling" xml:lang="${escapeXml(language)}">\n`;
+  xml += '  <head>\n';
+  xml += '    <styling>\n';
+  xml += '      <style xml:id="original" tts:color="white" tts:fontSize="90%" />\n';
+  xml += '      <style xml:id="translation" tts:color="yellow" tts:fontSize="100%" />\n';
+  xml += '    </styling>\n';
+  xml += '  </head>\n';
+  xml += '  <body>\n';
+  xml += '    <div>\n';
+
+  for (const cue of preparedCues) {
+    const blocks = splitStyledBlocks(cue.text, outputMode);
+    const spans = blocks
+      .map(block => {
+        const lines = block.lines.map(line => escapeXml(line)).join('<br/>');
+        return `<span style="${block.style}">${lines}</span>`;
+      })
+      .join('<br/>');
+
+    xml += `      <p begin="${formatTimestamp(cue.startTime)}" end="${formatTimestamp(cue.endTime)}">${spans}</p>\n`;
+  }
+
+  xml += '    </div>\n';
+  xml += '  </body>\n';
+  xml += '</tt>\n';
+
+  return xml;
+}
+
+/**
+ * Render subtitle cues to Advanced SubStation Alpha (ASS) format.
+ * Original lines use the `Original` style and translations the `Translation` style.
+ */
+export function renderASS(cues: SubtitleCue[], options?: {
+  title?: string;
+  outputMode?: SubtitleOutputMode;
+}): string {
+  const outputMode = resolveOutputMode(options?.outputMode);
+  const preparedCues = prepareCuesForRender(cues, 'ass', outputMode);
+
+  const lines = [
+    '[Script Info]',
+    '; Generated by YouTube Subtitle Proxy',
+    `Title: ${(options?.title || 'YouTube Subtitle Proxy').replace(/\r?\n/g, ' ')}`,
+    'ScriptType: v4.00+',
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    `PlayResX: ${ASS_PLAY_RES_X}`,
+    `PlayResY: ${ASS_PLAY_RES_Y}`,
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    'Style: Original,Arial,48,&H00FFFFFF,&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,2,1,2,60,60,40,1',
+    'Style: Translation,Arial,60,&H0000FFFF,&H000000FF,&H00000000,&H80000000,-1,0,0,0,100,100,0,0,1,2,1,2,60,60,40,1',
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+  ];
+
+  for (const cue of preparedCues) {
+    const blocks = splitStyledBlocks(cue.text, outputMode);
+    if (blocks.length === 0) {
+      continue;
+    }
+
+    const [firstBlock, ...restBlocks] = blocks;
+    const text = [
+      formatAssBlock(firstBlock.lines),
+      ...restBlocks.map(block => `{\\r${toAssStyle(block.style)}}${formatAssBlock(block.lines)}`),
+    ].join('\\N');
+
+    lines.push(
+      `Dialogue: 0,${formatAssTimestamp(cue.startTime)},${formatAssTimestamp(cue.endTime)},${toAssStyle(firstBlock.style)},,0,0,0,,${text}`
+    );
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Split prepared styled-format text back into original/translation blocks.
+ * Single-block output takes its style from the output mode.
+ */
+function splitStyledBlocks(
+  text: string,
+  outputMode: SubtitleOutputMode
+): Array<{ style: 'original' | 'translation'; lines: string[] }> {
+  const blocks = text
+    .split(STYLED_BLOCK_SEPARATOR)
+    .map(block => block.split(/\r?\n/).map(line => line.trim()).filter(Boolean))
+    .filter(lines => lines.length > 0);
+
+  if (blocks.length === 1) {
+    return [{
+      style: outputMode === 'translation-only' ? 'translation' : 'original',
+      lines: blocks[0],
+    }];
+  }
+
+  return blocks.map((lines, index) => ({
+    style: index === 0 ? 'original' : 'translation',
+    lines,
+  }));
+}
+
+function toAssStyle(style: 'original' | 'translation'): string {
+  return style === 'original' ? 'Original' : 'Translation';
+}
+
+function formatAssBlock(lines: string[]): string {
+  return lines.map(line => escapeAss(line)).join('\\N');
+}
+
+/**
+ * Format milliseconds to ASS timestamp (H:MM:SS.cc)
+ */
+function formatAssTimestamp(ms: number): string {
+  const totalCentiseconds = Math.floor(Math.max(0, ms) / 10);
+  const hours = Math.floor(totalCentiseconds / 360000);
+  const minutes = Math.floor((totalCentiseconds % 360000) / 6000);
+  const seconds = Math.floor((totalCentiseconds % 6000) / 100);
+  const centiseconds = totalCentiseconds % 100;
+
+  return `${hours}:${pad(minutes, 2)}:${pad(seconds, 2)}.${pad(centiseconds, 2)}`;
+}
+
+/**
+ * Escape override-block characters for ASS dialogue text
+ */
+function escapeAss(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/\{/g, '\\{')
+    .replace(/\}/g, '\\}')
+    .trim();
+}
+
 /**
  * Format milliseconds to WebVTT timestamp
  */
@@ -1140,10 +1536,16 @@ export function mergeBilingualCues(
 }
 
 export default {
+  resolveOutputMode,
   prepareCuesForRender,
   renderWebVTT,
   renderYouTubeTimedText,
+  renderYouTubeKaraokeTimedText,
   renderYouTubeSrv3,
+  renderSRT,
+  renderTTML,
+  renderASS,
+  resolveRenderFormat,
   createBilingualCue,
   mergeBilingualCues,
 };
@@ -6,10 +6,13 @@
 import type { SubtitleCue } from '../types/subtitle.js';
 import { getConfig } from '../config/env.js';
 import { buildScrollingAsrRows } from './timeline.js';
+import { hasSameCueStyle, restoreCueStyles } from './style.js';
+import { detectSpeakerTurns, hasSameSpeakerTurn, restoreCueSpeakers } from './speaker.js';
 
 const SPEAKER_PREFIX_PATTERN = /^>>\s*/;
 const REPEATED_CHEVRON_PATTERN = />>/g;
-const SYMBOL_START_PATTERN = /^[[(♪]/;
+const SYMBOL_START_PATTERN = /^[[(♪♫]/;
+const SYMBOL_END_PATTERN = /[\])♪♫]$/;
 const LEADING_PUNCTUATION_PATTERN = /^[,.;:!?，。！？；：、]/;
 const TRAILING_CONNECTOR_PATTERN = /(?:和|与|或|而|并|从|向|给|把|被|对|在|为|将|让|跟|比|及)$/;
 const PUNCTUATION_ONLY_PATTERN = /^[\p{P}\p{S}\s]+$/u;
@@ -443,6 +446,7 @@ function combineCueTexts(texts: string[]): string {
 
 function mergeCuePair(left: SubtitleCue, right: SubtitleCue): SubtitleCue {
   return {
+    ...left,
     startTime: left.startTime,
     endTime: right.endTime,
     text: combineCueTexts([left.text, right.text]),
@@ -457,6 +461,9 @@ function shouldKeepCompactBoundary(left: SubtitleCue, right: SubtitleCue): boole
   const rightDangling = isLikelyDanglingText(rightText);
 
   return gap > COMPACT_CUE_MAX_GAP_MS
+    || !hasSameCueStyle(left, right)
+    || !hasSameSpeakerTurn(left, right)
+    || SYMBOL_END_PATTERN.test(leftText)
     || (STRONG_SENTENCE_END_PATTERN.test(leftText) && !leftDangling)
     || (SYMBOL_START_PATTERN.test(rightText) && !rightDangling);
 }
@@ -467,6 +474,9 @@ function shouldKeepBoundary(left: SubtitleCue, right: SubtitleCue): boolean {
   const rightFirstWord = rightText.toLowerCase().split(/\s+/)[0] || '';
 
   return gap > 1000
+    || !hasSameCueStyle(left, right)
+    || !hasSameSpeakerTurn(left, right)
+    || SYMBOL_END_PATTERN.test(left.text.trim())
     || SYMBOL_START_PATTERN.test(rightText)
     || PAUSE_WORDS.has(rightFirstWord);
 }
@@ -593,6 +603,9 @@ function shouldKeepSemanticBoundary(left: SubtitleCue, right: SubtitleCue): bool
   const leftText = left.text.trim();
 
   return gap > 1400
+    || !hasSameCueStyle(left, right)
+    || !hasSameSpeakerTurn(left, right)
+    || SYMBOL_END_PATTERN.test(leftText)
     || STRONG_SENTENCE_END_PATTERN.test(leftText)
     || (SOFT_SENTENCE_END_PATTERN.test(leftText) && !isLikelyDanglingText(leftText))
     || SYMBOL_START_PATTERN.test(right.text.trim());
@@ -809,17 +822,24 @@ export function buildSourceSegments(
   }
 ): SubtitleCue[] {
   const events = Array.isArray(originalJson.events) ? originalJson.events : [];
-  const scrollingRows = buildScrollingAsrRows(events);
+  const scrollingRows = detectSpeakerTurns(buildScrollingAsrRows(events));
 
   if (scrollingRows.length === 0) {
+    const speakerCues = detectSpeakerTurns(parsedCues);
     const sourceCues = options?.preserveTiming
-      ? compactShortCues(parsedCues)
-      : mergeSubtitleCues(parsedCues);
-    return optimizeSourceCues(sourceCues, options);
+      ? compactShortCues(speakerCues)
+      : mergeSubtitleCues(speakerCues);
+    return restoreCueStyles(
+      restoreCueSpeakers(optimizeSourceCues(sourceCues, options), speakerCues),
+      parsedCues
+    );
   }
 
-  const baselineRows = compactShortCues(scrollingRows);
-  return improveSemanticSourceCueQuality(baselineRows);
+  const baselineRows = compactShortCues(restoreCueStyles(scrollingRows, parsedCues));
+  return restoreCueStyles(
+    restoreCueSpeakers(improveSemanticSourceCueQuality(baselineRows), scrollingRows),
+    parsedCues
+  );
 }
 
 export function compactShortCues(cues: SubtitleCue[]): SubtitleCue[] {
@@ -927,6 +947,7 @@ export function mergeSubtitleCues(
 
   const merged: SubtitleCue[] = [];
   let currentGroup: string[] = [];
+  let groupCue: SubtitleCue | null = null;
   let groupStartTime: number | null = null;
   let groupEndTime: number | null = null;
   let lastEndTime: number | null = null;
@@ -941,6 +962,7 @@ export function mergeSubtitleCues(
 
     if (groupStartTime === null) {
       // Start new paragraph
+      groupCue = cue;
       groupStartTime = cue.startTime;
       groupEndTime = cue.endTime;
       currentGroup = [normalizedText];
@@ -955,14 +977,22 @@ export function mergeSubtitleCues(
     const charsWithCue = currentChars + normalizedText.length + 1;
     const wordsWithCue = currentWords + countWords(normalizedText);
 
-    const shouldHardBreak = durationWithCue >= maxDuration || gap > gapThreshold;
+    // Styled cues (e.g. top-positioned or italic), speaker turns and sound tags never merge with their neighbours
+    const shouldHardBreak = durationWithCue >= maxDuration
+      || gap > gapThreshold
+      || !hasSameCueStyle(groupCue!, cue)
+      || !hasSameSpeakerTurn(groupCue!, cue)
+      || SYMBOL_START_PATTERN.test(normalizedText)
+      || SYMBOL_END_PATTERN.test(currentGroup[currentGroup.length - 1]);
     if (shouldHardBreak) {
       merged.push({
+        ...withCueMetadata(groupCue!),
         startTime: groupStartTime,
         endTime: groupEndTime!,
         text: normalizeMergedText(currentGroup.join(' ')),
       });
 
+      groupCue = cue;
       groupStartTime = cue.startTime;
       groupEndTime = cue.endTime;
       currentGroup = [normalizedText];
@@ -986,6 +1016,7 @@ export function mergeSubtitleCues(
 
     if (shouldSoftBreak) {
       merged.push({
+        ...withCueMetadata(groupCue!),
         startTime: groupStartTime,
         endTime: groupEndTime!,
         text: normalizeMergedText(currentGroup.join(' ')),
@@ -1004,12 +1035,20 @@ export function mergeSubtitleCues(
   if (currentGroup.length > 0 && groupStartTime !== null && groupEndTime !== null) {
     const normalizedText = normalizeMergedText(currentGroup.join(' '));
 
-    if (groupEndTime - groupStartTime < minDuration && merged.length > 0) {
-      const lastMerged = merged[merged.length - 1];
+    const lastMerged = merged[merged.length - 1];
+    if (
+      groupEndTime - groupStartTime < minDuration
+      && lastMerged
+      && hasSameCueStyle(lastMerged, groupCue!)
+      && hasSameSpeakerTurn(lastMerged, groupCue!)
+      && !SYMBOL_START_PATTERN.test(normalizedText)
+      && !SYMBOL_END_PATTERN.test(lastMerged.text)
+    ) {
       lastMerged.endTime = groupEndTime;
       lastMerged.text = normalizeMergedText(`${lastMerged.text} ${normalizedText}`);
     } else {
       merged.push({
+        ...withCueMetadata(groupCue!),
         startTime: groupStartTime,
         endTime: groupEndTime,
         text: normalizedText,
@@ -1020,6 +1059,13 @@ export function mergeSubtitleCues(
   return merged;
 }
 
+function withCueMetadata(cue: SubtitleCue): Pick<SubtitleCue, 'style' | 'speaker'> {
+  return {
+    ...(cue.style ? { style: cue.style } : {}),
+    ...(cue.speaker ? { speaker: cue.speaker } : {}),
+  };
+}
+
 /**
  * Check if text ends with sentence-ending punctuation
  */
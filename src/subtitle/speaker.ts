@@ -0,0 +1,182 @@
+/**
+ * Speaker Turns
+ *
+ * Detects speaker changes from `>>` markers and `[Name]:` prefixes, keeps
+ * them on cues through segmentation and formats optional render prefixes.
+ */
+import type { CueSpeaker, SpeakerLabelMode, SubtitleCue } from '../types/subtitle.js';
+
+const SPEAKER_MARKER_PATTERN = />>/;
+const SPEAKER_TOKEN_PATTERN = /(>>|\r?\n)/;
+const SPEAKER_NAME_PATTERN = /^\[([^\]\n]{1,40})\]\s*:\s*/;
+
+type SpeakerPiece = {
+  text: string;
+  speaker?: CueSpeaker;
+};
+
+function hasSpeakerMarkers(text: string): boolean {
+  return SPEAKER_MARKER_PATTERN.test(text)
+    || text.split(/\r?\n/).some(line => SPEAKER_NAME_PATTERN.test(line.trim()));
+}
+
+/**
+ * Split cue text into pieces tagged with the speaker turn they belong to.
+ * `>>` always starts a new turn; `[Name]:` starts one unless the same name
+ * is already speaking.
+ */
+function splitSpeakerPieces(
+  text: string,
+  state: { turn: number; current?: CueSpeaker }
+): SpeakerPiece[] {
+  const pieces: SpeakerPiece[] = [];
+  let startsTurn = false;
+
+  for (const token of text.split(SPEAKER_TOKEN_PATTERN)) {
+    if (token === '>>') {
+      startsTurn = true;
+      continue;
+    }
+    if (/^\r?\n$/.test(token)) {
+      continue;
+    }
+
+    let pieceText = token.trim();
+    const named = SPEAKER_NAME_PATTERN.exec(pieceText);
+    const name = named?.[1].trim();
+    if (named) {
+      pieceText = pieceText.slice(named[0].length).trim();
+    }
+
+    if (startsTurn || (name && name !== state.current?.name)) {
+      state.turn++;
+      state.current = { turn: state.turn, ...(name ? { name } : {}) };
+    }
+    startsTurn = false;
+
+    if (!pieceText) {
+      continue;
+    }
+
+    const last = pieces[pieces.length - 1];
+    if (last && last.speaker === state.current) {
+      last.text = `${last.text} ${pieceText}`;
+    } else {
+      pieces.push({ text: pieceText, speaker: state.current });
+    }
+  }
+
+  return pieces;
+}
+
+/**
+ * Tag cues with speaker turns and strip the markers. Cues holding several
+ * turns are split, with time distributed by text length. Tracks without
+ * markers are returned unchanged.
+ */
+export function detectSpeakerTurns(cues: SubtitleCue[]): SubtitleCue[] {
+  if (!cues.some(cue => hasSpeakerMarkers(cue.text))) {
+    return cues;
+  }
+
+  const state: { turn: number; current?: CueSpeaker } = { turn: 0 };
+  const result: SubtitleCue[] = [];
+
+  for (const cue of cues) {
+    const pieces = splitSpeakerPieces(cue.text, state);
+    const totalLength = pieces.reduce((sum, piece) => sum + piece.text.length, 0);
+    const duration = cue.endTime - cue.startTime;
+    let startTime = cue.startTime;
+    let consumed = 0;
+
+    pieces.forEach((piece, index) => {
+      consumed += piece.text.length;
+      const endTime = index === pieces.length - 1
+        ? cue.endTime
+        : Math.round(cue.startTime + (duration * consumed) / totalLength);
+      const { speaker: _speaker, ...rest } = cue;
+
+      result.push({
+        ...rest,
+        startTime,
+        endTime,
+        text: piece.text,
+        ...(piece.speaker ? { speaker: piece.speaker } : {}),
+      });
+      startTime = endTime;
+    });
+  }
+
+  return result.filter(cue => cue.endTime > cue.startTime);
+}
+
+export function hasSameSpeakerTurn(left: SubtitleCue, right: SubtitleCue): boolean {
+  return (left.speaker?.turn ?? 0) === (right.speaker?.turn ?? 0);
+}
+
+/**
+ * Re-attach speaker turns after cues were split or re-timed: each target
+ * takes the turn of the source cue it overlaps most.
+ */
+export function restoreCueSpeakers<T extends SubtitleCue>(targets: T[], sources: SubtitleCue[]): T[] {
+  if (!sources.some(cue => cue.speaker)) {
+    return targets;
+  }
+
+  const ordered = [...sources].sort((left, right) => left.startTime - right.startTime);
+
+  return targets.map(target => {
+    let best: SubtitleCue | null = null;
+    let bestOverlap = 0;
+
+    for (const source of ordered) {
+      if (source.startTime >= target.endTime) {
+        break;
+      }
+
+      const overlap = Math.min(source.endTime, target.endTime) - Math.max(source.startTime, target.startTime);
+      if (overlap > bestOverlap) {
+        best = source;
+        bestOverlap = overlap;
+      }
+    }
+
+    if (best?.speaker) {
+      return { ...target, speaker: best.speaker };
+    }
+
+    if (!target.speaker) {
+      return target;
+    }
+
+    const { speaker: _speaker, ...rest } = target;
+    return rest as T;
+  });
+}
+
+/**
+ * Label used in translation prompts: the name when known, else the turn number
+ */
+export function formatSpeakerLabel(speaker: CueSpeaker): string {
+  return speaker.name ?? `Speaker ${speaker.turn}`;
+}
+
+/**
+ * Render prefix for the first cue of a turn (`- ` or `Name: `); unnamed
+ * turns fall back to a dash in name mode
+ */
+export function formatSpeakerPrefix(speaker: CueSpeaker, mode: SpeakerLabelMode): string {
+  if (mode === 'name' && speaker.name) {
+    return `${speaker.name}: `;
+  }
+
+  return mode === 'none' ? '' : '- ';
+}
+
+export default {
+  detectSpeakerTurns,
+  hasSameSpeakerTurn,
+  restoreCueSpeakers,
+  formatSpeakerLabel,
+  formatSpeakerPrefix,
+};
@@ -0,0 +1,200 @@
+/**
+ * Caption Styling
+ *
+ * Carries YouTube pen / window style / window position references from
+ * source events through segmentation to the json3 and srv3 renderers.
+ */
+import type {
+  CueStyle,
+  SubtitleCue,
+  SubtitleStyleSheet,
+  TimedTextStyleEntry,
+  YouTubeTimedTextEvent,
+  YouTubeTimedTextResponse,
+} from '../types/subtitle.js';
+
+const SRV3_COLOR_KEYS = new Set(['fc', 'bc', 'ec']);
+
+/**
+ * Copy the style tables of a timedtext response; undefined when it has none
+ */
+export function extractStyleSheet(json: YouTubeTimedTextResponse): SubtitleStyleSheet | undefined {
+  const sheet: SubtitleStyleSheet = {};
+
+  if (Array.isArray(json.pens) && json.pens.length > 0) {
+    sheet.pens = json.pens;
+  }
+  if (Array.isArray(json.wsWinStyles) && json.wsWinStyles.length > 0) {
+    sheet.wsWinStyles = json.wsWinStyles;
+  }
+  if (Array.isArray(json.wpWinPositions) && json.wpWinPositions.length > 0) {
+    sheet.wpWinPositions = json.wpWinPositions;
+  }
+
+  return Object.keys(sheet).length > 0 ? sheet : undefined;
+}
+
+/**
+ * Index window-definition events (events carrying an `id`) by window id
+ */
+export function collectWindowDefinitions(
+  events: YouTubeTimedTextEvent[]
+): Map<number, YouTubeTimedTextEvent> {
+  const windows = new Map<number, YouTubeTimedTextEvent>();
+  for (const event of events) {
+    if (typeof event.id === 'number') {
+      windows.set(event.id, event);
+    }
+  }
+  return windows;
+}
+
+/**
+ * Resolve an event's style from its own attributes, falling back to the
+ * window it is drawn in
+ */
+export function resolveEventStyle(
+  event: YouTubeTimedTextEvent,
+  windows: Map<number, YouTubeTimedTextEvent>
+): CueStyle | undefined {
+  const window = typeof event.wWinId === 'number' ? windows.get(event.wWinId) : undefined;
+  const style: CueStyle = {};
+
+  const penId = event.segs?.find(seg => typeof seg.pPenId === 'number')?.pPenId ?? event.pPenId;
+  const windowStyleId = event.wsWinStyleId ?? window?.wsWinStyleId;
+  const windowPositionId = event.wpWinPosId ?? window?.wpWinPosId;
+
+  if (typeof penId === 'number') {
+    style.penId = penId;
+  }
+  if (typeof windowStyleId === 'number') {
+    style.windowStyleId = windowStyleId;
+  }
+  if (typeof windowPositionId === 'number') {
+    style.windowPositionId = windowPositionId;
+  }
+
+  return Object.keys(style).length > 0 ? style : undefined;
+}
+
+export function getCueStyleKey(style?: CueStyle): string {
+  if (!style) {
+    return '';
+  }
+
+  return `${style.penId ?? ''}|${style.windowStyleId ?? ''}|${style.windowPositionId ?? ''}`;
+}
+
+export function hasSameCueStyle(left: SubtitleCue, right: SubtitleCue): boolean {
+  return getCueStyleKey(left.style) === getCueStyleKey(right.style);
+}
+
+/**
+ * Drop the style shared by most cues so only deviations (top placement,
+ * italics, ...) are carried; the dominant style renders as our default window.
+ */
+export function stripDominantCueStyle(cues: SubtitleCue[]): SubtitleCue[] {
+  const counts = new Map<string, number>();
+  for (const cue of cues) {
+    const key = getCueStyleKey(cue.style);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  let dominantKey = '';
+  let dominantCount = -1;
+  for (const [key, count] of counts) {
+    if (count > dominantCount) {
+      dominantKey = key;
+      dominantCount = count;
+    }
+  }
+
+  if (!dominantKey) {
+    return cues;
+  }
+
+  return cues.map(cue => {
+    if (getCueStyleKey(cue.style) !== dominantKey) {
+      return cue;
+    }
+    const { style: _style, ...rest } = cue;
+    return rest;
+  });
+}
+
+/**
+ * Re-attach styles after cues were split or re-timed: each target takes the
+ * style of the source cue it overlaps most.
+ */
+export function restoreCueStyles<T extends SubtitleCue>(targets: T[], sources: SubtitleCue[]): T[] {
+  if (!sources.some(cue => cue.style)) {
+    return targets;
+  }
+
+  const ordered = [...sources].sort((left, right) => left.startTime - right.startTime);
+
+  return targets.map(target => {
+    let best: SubtitleCue | null = null;
+    let bestOverlap = 0;
+
+    for (const source of ordered) {
+      if (source.startTime >= target.endTime) {
+        break;
+      }
+
+      const overlap = Math.min(source.endTime, target.endTime) - Math.max(source.startTime, target.startTime);
+      if (overlap > bestOverlap) {
+        best = source;
+        bestOverlap = overlap;
+      }
+    }
+
+    if (best?.style) {
+      return { ...target, style: best.style };
+    }
+
+    if (!target.style) {
+      return target;
+    }
+
+    const { style: _style, ...rest } = target;
+    return rest as T;
+  });
+}
+
+/**
+ * Convert a json3 style entry (`apPoint`, `fcForeColor`, ...) to srv3
+ * attributes (`ap="6"`, `fc="#FFFFFF"`)
+ */
+export function toSrv3Attributes(entry: TimedTextStyleEntry): string {
+  return Object.entries(entry)
+    .map(([key, value]) => {
+      const name = /^[a-z]+/.exec(key)?.[0];
+      if (!name) {
+        return '';
+      }
+
+      let attrValue: string;
+      if (typeof value === 'boolean') {
+        attrValue = value ? '1' : '0';
+      } else if (typeof value === 'number' && SRV3_COLOR_KEYS.has(name)) {
+        attrValue = `#${value.toString(16).padStart(6, '0').toUpperCase()}`;
+      } else {
+        attrValue = String(value).replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+      }
+
+      return ` ${name}="${attrValue}"`;
+    })
+    .join('');
+}
+
+export default {
+  extractStyleSheet,
+  collectWindowDefinitions,
+  resolveEventStyle,
+  getCueStyleKey,
+  hasSameCueStyle,
+  stripDominantCueStyle,
+  restoreCueStyles,
+  toSrv3Attributes,
+};
@@ -1,4 +1,4 @@
-import type { SubtitleCue, YouTubeTimedTextEvent } from '../types/subtitle.js';
+import type { CueWord, SubtitleCue, YouTubeTimedTextEvent } from '../types/subtitle.js';
 
 const ESTIMATED_ATOM_DURATION_MS = 220;
 const MAX_ATOM_DURATION_MS = 1600;
@@ -142,6 +142,47 @@ export function buildScrollingAsrTimeline(events: YouTubeTimedTextEvent[]): Subt
   })).filter(atom => atom.endTime > atom.startTime);
 }
 
+function squashForComparison(text: string): string {
+  return text.toLowerCase().replace(/[\s\p{P}\p{S}]+/gu, '');
+}
+
+/**
+ * Distribute timeline atoms over cues as per-word offsets. Each atom goes to
+ * the last cue starting at or before it; cues whose atoms do not spell out
+ * the cue text (ignoring spacing and punctuation) get no timings.
+ */
+export function buildCueWordTimings(
+  cues: Array<Pick<SubtitleCue, 'startTime' | 'text'>>,
+  atoms: SubtitleAtom[]
+): Array<CueWord[] | undefined> {
+  const atomsByCue: SubtitleAtom[][] = cues.map(() => []);
+  let cueIndex = 0;
+
+  for (const atom of [...atoms].sort((left, right) => left.startTime - right.startTime)) {
+    while (cueIndex + 1 < cues.length && cues[cueIndex + 1].startTime <= atom.startTime) {
+      cueIndex++;
+    }
+    atomsByCue[cueIndex]?.push(atom);
+  }
+
+  return cues.map((cue, index) => {
+    // `>>` speaker markers are stripped from cue text, so they are not words
+    const cueAtoms = atomsByCue[index].filter(atom => atom.text.trim() && atom.text.trim() !== '>>');
+    if (cueAtoms.length < 2 || squashForComparison(combineAtomTexts(cueAtoms)) !== squashForComparison(cue.text)) {
+      return undefined;
+    }
+
+    return cueAtoms.map((atom, atomIndex) => {
+      const text = atom.text.trim();
+      const needsSpace = atomIndex > 0 && !isCjkText(text) && !isCjkText(cueAtoms[atomIndex - 1].text);
+      return {
+        text: needsSpace ? ` ${text}` : text,
+        offsetMs: Math.max(0, Math.round(atom.startTime - cue.startTime)),
+      };
+    });
+  });
+}
+
 export function buildScrollingAsrRows(events: YouTubeTimedTextEvent[]): SubtitleCue[] {
   const atoms = buildScrollingAsrTimeline(events);
   if (atoms.length === 0) {
@@ -10,11 +10,79 @@ export interface SubtitleCue {
   startTime: number;  // milliseconds
   endTime: number;    // milliseconds
   text: string;
+  style?: CueStyle;
+  speaker?: CueSpeaker;
+  category?: CueCategory;
 }
 
-export type SubtitleRenderFormat = 'vtt' | 'json3' | 'srv3';
+/** Non-dialogue cue kinds; dialogue cues carry no category */
+export type CueCategory = 'sound' | 'lyrics';
+
+/** How lyric cues are handled: sent to the provider, kept untranslated, or removed */
+export type LyricsMode = 'translate' | 'keep' | 'drop';
+
+/**
+ * Speaker turn detected from `>>` markers or `[Name]:` prefixes.
+ * `turn` increments at every speaker change; it is not a speaker identity.
+ */
+export interface CueSpeaker {
+  turn: number;
+  name?: string;
+}
+
+/**
+ * References into the source track's pens / wsWinStyles / wpWinPositions.
+ * Only set on cues that deviate from the track's dominant style.
+ */
+export interface CueStyle {
+  penId?: number;
+  windowStyleId?: number;
+  windowPositionId?: number;
+}
+
+export type TimedTextStyleEntry = Record<string, number | string | boolean>;
+
+export interface SubtitleStyleSheet {
+  pens?: TimedTextStyleEntry[];
+  wsWinStyles?: TimedTextStyleEntry[];
+  wpWinPositions?: TimedTextStyleEntry[];
+}
+
+export interface BilingualCue {
+  startTime: number;  // milliseconds
+  endTime: number;    // milliseconds
+  original: string;
+  translation: string;
+  style?: CueStyle;
+  speaker?: CueSpeaker;
+  words?: CueWord[];
+}
+
+/**
+ * A word of the original line; `text` keeps its leading space when one is
+ * needed to join it to the previous word
+ */
+export interface CueWord {
+  text: string;
+  offsetMs: number;  // relative to the cue start
+}
+
+export interface BilingualSubtitleDocument {
+  version: 1;
+  sourceLanguage: string;
+  targetLanguage: string;
+  track: string;
+  cues: BilingualCue[];
+  styles?: SubtitleStyleSheet;
+}
+
+export type SubtitleRenderFormat = 'vtt' | 'json3' | 'srv3' | 'srt' | 'ttml' | 'ass';
+export type SubtitleSourceFormat = 'json3' | 'srv3' | 'vtt' | 'srt' | 'ttml' | 'ass';
 export type SubtitleOutputMode = 'translation-only' | 'bilingual' | 'original-only';
 
+/** Prefix shown on the first cue of each speaker turn */
+export type SpeakerLabelMode = 'none' | 'dash' | 'name';
+
 export interface YouTubeTimedTextEvent {
   tStartMs: number;
   dDurationMs: number;
@@ -23,19 +91,21 @@ export interface YouTubeTimedTextEvent {
   wpWinPosId?: number;
   aAppend?: number;
   id?: number;
+  pPenId?: number;
   segs?: Array<{
     utf8: string;
     tOffsetMs?: number;
     acAsrConf?: number;
+    pPenId?: number;
   }>;
 }
 
 export interface YouTubeTimedTextResponse {
   events: YouTubeTimedTextEvent[];
   wireMagic?: string;
-  pens?: Array<Record<string, number | string | boolean>>;
-  wsWinStyles?: Array<Record<string, number | string | boolean>>;
-  wpWinPositions?: Array<Record<string, number | string | boolean>>;
+  pens?: TimedTextStyleEntry[];
+  wsWinStyles?: TimedTextStyleEntry[];
+  wpWinPositions?: TimedTextStyleEntry[];
 }
 
 // ========================================
@@ -59,6 +129,14 @@ export interface CaptionJob {
   error_code: string | null;
   error_message: string | null;
   bilingual_json: string | null;
+  source_json: string | null;
+  segments_total: number | null;
+  model: string | null;
+  channel_id: string | null;
+  client_id: string | null;
+  glossary_checked: number | null;
+  glossary_violations: number | null;
+  glossary_unresolved: number | null;
   created_at: number;
   updated_at: number;
   expires_at: number;
@@ -77,6 +155,99 @@ export interface CaptionSegment {
   updated_at: number;
 }
 
+export interface TranslationMemoryEntry {
+  id: number;
+  source_key: string;
+  loose_key: string;
+  source_text: string;
+  source_lang: string;
+  target_lang: string;
+  model: string;
+  translated_text: string;
+  hit_count: number;
+  created_at: number;
+  updated_at: number;
+  last_used_at: number | null;
+}
+
+/** Language pair and model a translation memory entry applies to */
+export interface TranslationMemoryScope {
+  sourceLanguage: string;
+  targetLanguage: string;
+  model: string;
+}
+
+export type GlossaryScope = 'global' | 'channel' | 'video';
+
+export type GlossaryTermStatus = 'approved' | 'suggested';
+
+export interface GlossaryTerm {
+  id: number;
+  scope: GlossaryScope;
+  scope_id: string;
+  target_lang: string;
+  source_term: string;
+  translation: string | null;
+  never_translate: number;
+  status: GlossaryTermStatus;
+  note: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+/** Fields accepted when creating or editing a glossary term */
+export interface GlossaryTermInput {
+  scope: GlossaryScope;
+  scopeId?: string;
+  targetLanguage?: string;
+  sourceTerm: string;
+  translation?: string | null;
+  neverTranslate?: boolean;
+  status?: GlossaryTermStatus;
+  note?: string | null;
+}
+
+/** Video, channel and target language a job's glossary is resolved for */
+export interface GlossaryContext {
+  targetLanguage: string;
+  videoId?: string;
+  channelId?: string;
+}
+
+/** Client API key as stored (the secret itself is only kept as a hash) */
+export interface ApiKey {
+  id: string;
+  key_prefix: string;
+  name: string;
+  client_id: string;
+  // Requests per minute; 0 means unlimited
+  rate_limit: number;
+  // New translations per UTC day; 0 means unlimited
+  daily_quota: number;
+  // null allows every target language
+  allowed_tlangs: string[] | null;
+  created_at: number;
+  revoked_at: number | null;
+  last_used_at: number | null;
+}
+
+/** Fields accepted when issuing or editing a key */
+export interface ApiKeyInput {
+  name: string;
+  clientId?: string;
+  rateLimit?: number;
+  dailyQuota?: number;
+  allowedTargetLanguages?: string[] | null;
+}
+
+/** One day of requests made with a key */
+export interface ApiKeyUsageDay {
+  date: string;
+  request_count: number;
+  translation_count: number;
+  rejected_count: number;
+}
+
 // ========================================
 // API Types
 // ========================================
@@ -88,6 +259,12 @@ export interface SubtitleRequest {
   kind?: string;    // asr | manual
   fmt?: string;     // vtt | srv3
   original_url?: string;
+  mode?: SubtitleOutputMode;  // per-request output mode (default: SUBTITLE_OUTPUT_MODE)
+  t?: number;       // playback position (ms); translation starts near it
+  karaoke?: boolean; // json3 only: word-timed original line (ASR tracks)
+  speakers?: SpeakerLabelMode;
+  channel?: string; // YouTube channel ID; selects channel glossaries
+  client?: string;  // API client ID; selects per-client budgets
 }
 
 export interface SubtitleResponse {
@@ -112,6 +289,185 @@ export interface TranslationTask {
   targetLang: string;
 }
 
+export interface TranslatedSegment {
+  index: number;
+  startTime: number;
+  endTime: number;
+  sourceText: string;
+  translatedText: string | null;
+  status: SegmentStatus;
+}
+
+export interface TranslationRunOptions {
+  // Segment index -> translation already persisted by a previous run
+  completed?: ReadonlyMap<number, string>;
+  // Called as each batch settles so progress survives a crash
+  onBatchTranslated?: (segments: TranslatedSegment[]) => Promise<void> | void;
+  // Called after each batch with cumulative progress (resumed segments included)
+  onProgress?: (progress: TranslationProgress) => void;
+  // Latest requested playback position (ms); batches near it are translated first
+  getPlaybackPosition?: () => number | null | undefined;
+  // Source language of the cues; enables translation memory lookups
+  sourceLanguage?: string;
+  // Video/channel whose stored glossaries apply (global terms always do)
+  glossary?: Omit<GlossaryContext, 'targetLanguage'>;
+  // Called after each context batch with its glossary enforcement counts
+  onGlossaryChecked?: (stats: GlossaryEnforcementStats) => void;
+  // Budget soft limit reached: skip summary, glossary extraction and source restore
+  economy?: boolean;
+}
+
+/** Line counts from checking translations against stored glossary terms */
+export interface GlossaryEnforcementStats {
+  checked: number;     // lines whose source contains a stored term
+  violations: number;  // lines whose first translation missed a required term
+  unresolved: number;  // lines still missing one after correction retries
+}
+
+export interface TranslationProgress {
+  batch: string;
+  segmentsDone: number;
+  segmentsTotal: number;
+}
+
+export type JobEvent =
+  | {
+      type: 'status';
+      jobId: string;
+      status: JobStatus;
+      errorCode: string | null;
+      errorMessage: string | null;
+    }
+  | ({ type: 'progress'; jobId: string } & TranslationProgress)
+  | { type: 'done'; jobId: string; cacheKey: string }
+  // Retries exhausted: the job will not run again unless re-requested
+  | { type: 'failed'; jobId: string; errorCode: string | null; errorMessage: string | null };
+
+export type TranslationProviderName = 'openai' | 'deepl' | 'google' | 'mock';
+
+/** Pipeline step a chat completion serves; recorded with its usage */
+export type CompletionPurpose = 'summary' | 'glossary' | 'restore' | 'context' | 'single-line';
+
+export interface ProviderCompletionRequest {
+  prompt: string;
+  temperature: number;
+  maxTokens: number;
+  purpose: CompletionPurpose;
+}
+
+/** USD per 1M tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/** One chat completion attempt, as written to api_stats and job_usage */
+export interface ApiUsageRecord {
+  provider: string;
+  model: string;
+  endpoint: string;
+  purpose: CompletionPurpose;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  latencyMs: number;
+  failed: boolean;
+  jobId: string | null;
+  clientId: string | null;
+}
+
+/** Job context for completions running inside a queue task */
+export interface UsageScope {
+  jobId: string;
+  clientId?: string;
+  // Replaces the primary model (budget economy mode)
+  model?: string;
+}
+
+/** Spending caps in USD; 0 disables a cap */
+export interface BudgetLimits {
+  dailyUsd: number;
+  monthlyUsd: number;
+}
+
+/** ok: full pipeline, soft: economy mode, hard: no new translations */
+export type BudgetLevel = 'ok' | 'soft' | 'hard';
+
+export interface BudgetStatus {
+  level: BudgetLevel;
+  reason: string | null;
+}
+
+/** Completions one pipeline step would make, in tokenizer tokens */
+export interface EstimatedPass {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/** Dry run of translateToBilingual; nothing is sent to the provider */
+export interface TranslationEstimate {
+  provider: TranslationProviderName;
+  model: string;
+  // null for machine-translation providers (no prompts to count)
+  tokenizer: { encoding: string; approximate: boolean } | null;
+  segments: number;
+  // Sound-event and lyric segments handled without the provider
+  localSegments: number;
+  batches: number;
+  passes: Partial<Record<CompletionPurpose, EstimatedPass>>;
+  promptTokens: number;
+  completionTokens: number;
+  // null when the model has no MODEL_PRICES entry
+  costUsd: number | null;
+}
+
+export interface EstimateResponse extends TranslationEstimate {
+  videoId: string;
+  lang: string;
+  tlang: string;
+  estimatedSeconds: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  errors: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+export interface TranslationProvider {
+  readonly name: TranslationProviderName;
+  readonly model: string;
+  // Chat-style completion; LLM providers only (enables summary/glossary/restore/context)
+  complete?(request: ProviderCompletionRequest): Promise<string>;
+  // Direct translation of independent lines; machine-translation providers
+  translateTexts?(texts: string[], targetLang: string, sourceLang?: string): Promise<string[]>;
+}
+
+export interface OpenAIEndpointConfig {
+  id: string;
+  model: string;
+  baseUrl?: string;
+  apiKey: string;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface EndpointHealth {
+  id: string;
+  model: string;
+  baseUrl: string | null;
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalSuccesses: number;
+  totalFailures: number;
+  lastError: string | null;
+  lastFailureAt: string | null;
+  retryAt: string | null;
+}
+
 export interface CacheEntry {
   key: string;
   value: string;
@@ -131,6 +487,24 @@ export interface AppConfig {
     baseUrl?: string;
     model: string;
     timeout: number;
+    // Ordered chain; index 0 is the primary OPENAI_MODEL/OPENAI_BASE_URL
+    endpoints: OpenAIEndpointConfig[];
+    circuitBreaker: {
+      failureThreshold: number;
+      cooldownMs: number;
+    };
+  };
+
+  translationProvider: {
+    name: TranslationProviderName;
+    deepl: {
+      apiKey: string | null;
+      baseUrl: string;
+    };
+    google: {
+      apiKey: string | null;
+      baseUrl: string;
+    };
   };
 
   translationSummary: {
@@ -143,6 +517,8 @@ export interface AppConfig {
     enabled: boolean;
     maxTokens: number;
     chunkChars: number;
+    enforce: boolean;
+    correctionRetries: number;
   };
 
   translationContext: {
@@ -159,6 +535,40 @@ export interface AppConfig {
     enabled: boolean;
   };
 
+  translationPriority: {
+    // Leading span of the video translated before the rest (0 disables)
+    windowMs: number;
+  };
+
+  translationMemory: {
+    enabled: boolean;
+    // Also match ignoring case and punctuation
+    fuzzy: boolean;
+  };
+
+  usage: {
+    // Model name (or prefix) -> price; merged over the built-in table
+    prices: Record<string, ModelPrice>;
+  };
+
+  budget: {
+    global: BudgetLimits;
+    // Default caps for every client, and per-client overrides
+    client: BudgetLimits;
+    clients: Record<string, Partial<BudgetLimits>>;
+    // Fraction of a cap at which economy mode starts
+    softRatio: number;
+    economyModel: string | null;
+  };
+
+  apiKeys: {
+    // Reject subtitle requests without a valid key
+    required: boolean;
+    // Defaults for newly issued keys; 0 means unlimited
+    defaultRateLimit: number;
+    defaultDailyQuota: number;
+  };
+
   database: {
     path: string;
     verbose: boolean;
@@ -178,6 +588,8 @@ export interface AppConfig {
 
   youtube: {
     fetchTimeoutMs: number;
+    // original_url hosts; each also allows its subdomains
+    allowedHosts: string[];
   };
 
   subtitle: {
@@ -197,6 +609,8 @@ export interface AppConfig {
     renderMaxCharsCjk: number;
     renderMaxWords: number;
     outputMode: SubtitleOutputMode;
+    speakerLabels: SpeakerLabelMode;
+    lyricsMode: LyricsMode;
   };
 
   admin: {
@@ -215,6 +629,36 @@ export interface ErrorResponse {
   fallback?: any;
 }
 
+export type UpstreamPolicyErrorCode =
+  | 'invalid_upstream_url'
+  | 'upstream_scheme_not_allowed'
+  | 'upstream_port_not_allowed'
+  | 'upstream_host_not_allowed'
+  | 'upstream_address_blocked';
+
+export interface JobStatusResponse {
+  id: string;
+  videoId: string;
+  lang: string;
+  tlang: string;
+  track: string;
+  fmt: string;
+  status: JobStatus;
+  retryCount: number;
+  nextRetryAt: string | null;
+  error: { code: string; message: string } | null;
+  progress: {
+    segmentsDone: number;
+    segmentsTotal: number | null;
+    percent: number | null;
+  };
+  model: string | null;
+  glossary: GlossaryEnforcementStats | null;
+  etaSeconds: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface HealthCheckResponse {
   status: 'ok' | 'degraded' | 'error';
   database: 'connected' | 'disconnected';
@@ -228,5 +672,6 @@ export interface HealthCheckResponse {
     processing: number;
     failed: number;
   };
+  translationEndpoints?: EndpointHealth[];
   uptime: number;
 }
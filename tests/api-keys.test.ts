@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import Database from 'better-sqlite3';
+
+let db: Database.Database;
+
+vi.mock('../src/db/sqlite.js', () => ({
+  getDatabase: () => db,
+  updateCacheMetadata: vi.fn(),
+}));
+
+beforeEach(() => {
+  db = new Database(':memory:');
+  db.exec(readFileSync(new URL('../src/db/schema.sql', import.meta.url), 'utf-8'));
+  process.env.OPENAI_API_KEY = process.env.OPENAI_API_KEY || 'test-key';
+  vi.resetModules();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('client api keys', () => {
+  it('stores only a hash of the secret and rejects revoked keys', async () => {
+    const { authorizeApiKey, issueApiKey } = await import('../src/services/api-keys.js');
+    const { revokeApiKey } = await import('../src/services/cache.js');
+
+    const { key, secret } = await issueApiKey({ name: 'Alice phone', allowedTargetLanguages: ['zh-CN'] });
+
+    expect(secret.startsWith(key.key_prefix)).toBe(true);
+    expect(key).toMatchObject({ client_id: key.id, rate_limit: 60, daily_quota: 0, allowed_tlangs: ['zh-CN'] });
+    const stored = db.prepare('SELECT key_hash FROM api_keys WHERE id = ?').get(key.id) as { key_hash: string };
+    expect(stored.key_hash).not.toContain(secret);
+
+    expect(await authorizeApiKey(secret, 'zh-CN')).toMatchObject({ key: { id: key.id } });
+    expect(await authorizeApiKey('ysk_wrong', 'zh-CN')).toMatchObject({ status: 401 });
+
+    await revokeApiKey(key.id);
+    expect(await authorizeApiKey(secret, 'zh-CN')).toMatchObject({
+      key: null,
+      status: 401,
+      error: { error: 'invalid_api_key' },
+    });
+  });
+
+  it('refuses other target languages and requests over the per-minute limit', async () => {
+    vi.useFakeTimers({ now: Date.parse('2026-03-01T12:00:00.000Z') });
+    const { authorizeApiKey, issueApiKey } = await import('../src/services/api-keys.js');
+    const { getApiKeyUsage } = await import('../src/services/cache.js');
+    const { key, secret } = await issueApiKey({ name: 'Bob', rateLimit: 2, allowedTargetLanguages: ['ja'] });
+
+    expect(await authorizeApiKey(secret, 'zh-CN')).toMatchObject({
+      status: 403,
+      error: { error: 'target_language_not_allowed' },
+    });
+    expect((await authorizeApiKey(secret, 'ja')).key).not.toBeNull();
+    vi.advanceTimersByTime(20_000);
+    expect((await authorizeApiKey(secret, 'ja')).key).not.toBeNull();
+    expect(await authorizeApiKey(secret, 'ja')).toMatchObject({
+      status: 429,
+      error: { error: 'rate_limited' },
+      retryAfterSeconds: 40,
+    });
+
+    vi.advanceTimersByTime(40_000);
+    expect((await authorizeApiKey(secret, 'ja')).key).not.toBeNull();
+
+    expect(await getApiKeyUsage(key.id, { from: '2026-03-01', to: '2026-03-01' })).toEqual([
+      { date: '2026-03-01', request_count: 5, translation_count: 0, rejected_count: 2 },
+    ]);
+  });
+
+  it('stops new translations once the daily quota is used up', async () => {
+    const { consumeTranslationQuota, issueApiKey } = await import('../src/services/api-keys.js');
+    const { key } = await issueApiKey({ name: 'Carol', clientId: 'family', dailyQuota: 2 });
+    const { key: unlimited } = await issueApiKey({ name: 'Dave' });
+
+    expect(await consumeTranslationQuota(key)).toBe(true);
+    expect(await consumeTranslationQuota(key)).toBe(true);
+    expect(await consumeTranslationQuota(key)).toBe(false);
+    for (let attempt = 0; attempt < 5; attempt++) {
+      expect(await consumeTranslationQuota(unlimited)).toBe(true);
+    }
+
+    const row = db.prepare('SELECT translation_count FROM api_key_usage WHERE key_id = ?').get(key.id);
+    expect(row).toEqual({ translation_count: 2 });
+  });
+});
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mockGetSpend = vi.fn();
+
+vi.mock('../src/services/cache.js', () => ({
+  getSpend: mockGetSpend,
+}));
+
+const baseEnv = { ...process.env };
+let activeEnvKeys: string[] = [];
+
+function applyEnv(overrides: Record<string, string>) {
+  const env = { OPENAI_API_KEY: 'test-key', ...overrides };
+  activeEnvKeys = Object.keys(env);
+  for (const key of activeEnvKeys) {
+    process.env[key] = env[key];
+  }
+}
+
+function restoreEnv() {
+  for (const key of activeEnvKeys) {
+    if (baseEnv[key] === undefined) {
+      delete process.env[key];
+    } else {
+      process.env[key] = baseEnv[key];
+    }
+  }
+  activeEnvKeys = [];
+}
+
+async function loadBudget(overrides: Record<string, string>) {
+  applyEnv(overrides);
+  vi.resetModules();
+  return await import('../src/services/budget.js');
+}
+
+beforeEach(() => {
+  mockGetSpend.mockReset();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  restoreEnv();
+  vi.restoreAllMocks();
+});
+
+describe('spending budgets', () => {
+  it('skips spend lookups when no caps are configured', async () => {
+    const { evaluateBudget } = await loadBudget({});
+
+    expect(await evaluateBudget('friend-1')).toEqual({ level: 'ok', reason: null });
+    expect(mockGetSpend).not.toHaveBeenCalled();
+  });
+
+  it('reports the most severe of the global and client caps', async () => {
+    const { evaluateBudget, resolveClientLimits } = await loadBudget({
+      BUDGET_DAILY_USD: '10',
+      BUDGET_MONTHLY_USD: '100',
+      BUDGET_CLIENT_DAILY_USD: '2',
+      BUDGET_CLIENTS: JSON.stringify({ 'family': { daily: 5 } }),
+      BUDGET_SOFT_RATIO: '0.8',
+    });
+    mockGetSpend.mockImplementation(async (_date: string, clientId?: string) => (
+      clientId ? { dailyUsd: 2.4, monthlyUsd: 3 } : { dailyUsd: 8.5, monthlyUsd: 40 }
+    ));
+
+    expect(await evaluateBudget()).toEqual({
+      level: 'soft',
+      reason: 'Global daily budget nearly exhausted ($8.50 of $10.00)',
+    });
+    expect(await evaluateBudget('friend-1')).toEqual({
+      level: 'hard',
+      reason: 'Client friend-1 daily budget exhausted ($2.40 of $2.00)',
+    });
+    expect((await evaluateBudget('family')).level).toBe('soft');
+    expect(resolveClientLimits('family')).toEqual({ dailyUsd: 5, monthlyUsd: 0 });
+  });
+
+  it('allows translation when the spend lookup fails', async () => {
+    const { evaluateBudget } = await loadBudget({ BUDGET_MONTHLY_USD: '50' });
+    mockGetSpend.mockRejectedValueOnce(new Error('database locked'));
+
+    expect(await evaluateBudget()).toEqual({ level: 'ok', reason: null });
+  });
+
+  it('opens the next budget window at the following UTC midnight', async () => {
+    const { nextBudgetWindow } = await loadBudget({});
+
+    expect(nextBudgetWindow(Date.UTC(2026, 0, 31, 23, 59))).toBe(Date.UTC(2026, 1, 1));
+    expect(nextBudgetWindow(Date.UTC(2026, 1, 1))).toBe(Date.UTC(2026, 1, 2));
+  });
+});
@@ -1,4 +1,6 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import Database from 'better-sqlite3';
 
 const mockGet = vi.fn();
 const mockRun = vi.fn();
@@ -14,6 +16,7 @@ vi.mock('../src/db/sqlite.js', () => ({
 }));
 
 beforeEach(() => {
+  process.env.OPENAI_API_KEY = process.env.OPENAI_API_KEY || 'test-key';
   mockGet.mockReset();
   mockRun.mockReset();
   mockUpdateCacheMetadata.mockReset();
@@ -32,16 +35,32 @@ afterEach(() => {
 });
 
 describe('cache service', () => {
-  it('queries persistent cache using the full cache key dimensions', async () => {
-    mockGet.mockReturnValueOnce({ bilingual_json: 'cached-vtt', status: 'done' });
+  it('queries persistent cache by source identity, whatever the output format', async () => {
+    const document = {
+      version: 1,
+      sourceLanguage: 'en',
+      targetLanguage: 'ja',
+      track: 'manual',
+      cues: [{ startTime: 0, endTime: 1000, original: 'Hello', translation: 'こんにちは' }],
+    };
+    mockGet.mockReturnValueOnce({ bilingual_json: JSON.stringify(document), status: 'done' });
 
     const { getBilingualSubtitle } = await import('../src/services/cache.js');
 
-    const result = await getBilingualSubtitle('video-1|en|ja|manual|srv3');
+    const result = await getBilingualSubtitle('video-1|en|ja|manual');
 
-    expect(result).toBe('cached-vtt');
+    expect(result).toEqual(document);
     expect(fakeDb.prepare).toHaveBeenCalledTimes(1);
-    expect(mockGet).toHaveBeenCalledWith('video-1', 'en', 'ja', 'manual', 'srv3');
+    expect(mockGet).toHaveBeenCalledWith('video-1', 'en', 'ja', 'manual');
+  });
+
+  it('treats legacy WebVTT rows as cache misses', async () => {
+    mockGet.mockReturnValueOnce({ bilingual_json: 'WEBVTT\n\n1\n00:00:00.000 --> 00:00:01.000\nHello', status: 'done' });
+
+    const { getBilingualSubtitle } = await import('../src/services/cache.js');
+
+    await expect(getBilingualSubtitle('video-1|en|ja|manual')).resolves.toBeNull();
+    expect(mockUpdateCacheMetadata).toHaveBeenCalledWith('cache_misses', 1);
   });
 
   it('writes target language into caption job upserts', async () => {
@@ -69,9 +88,192 @@ describe('cache service', () => {
       'hash-1',
       'pending',
       null,
+      null,
+      null,
+      null,
       expect.any(Number),
       expect.any(Number),
       expect.any(Number)
     );
   });
 });
+
+describe('job retries', () => {
+  it('schedules no retry and emits a failed event once retries are exhausted', async () => {
+    mockGet.mockReturnValueOnce({
+      id: 'job-1',
+      retry_count: 2,
+      error_code: 'translation_error',
+      error_message: 'Provider unavailable',
+    });
+    const { incrementJobRetry } = await import('../src/services/cache.js');
+    const { subscribeJobEvents } = await import('../src/services/events.js');
+    const listener = vi.fn();
+    const unsubscribe = subscribeJobEvents('job-1', listener);
+
+    await incrementJobRetry('job-1');
+    unsubscribe();
+
+    expect(mockRun).toHaveBeenCalledWith(3, null, expect.any(Number), 'job-1');
+    expect(listener).toHaveBeenCalledWith({
+      type: 'failed',
+      jobId: 'job-1',
+      errorCode: 'translation_error',
+      errorMessage: 'Provider unavailable',
+    });
+  });
+});
+
+describe('translation memory', () => {
+  const scope = { sourceLanguage: 'en', targetLanguage: 'zh-CN', model: 'gpt-4o-mini' };
+
+  beforeEach(() => {
+    const db = new Database(':memory:');
+    db.exec(readFileSync(new URL('../src/db/schema.sql', import.meta.url), 'utf-8'));
+    fakeDb = db as unknown as typeof fakeDb;
+  });
+
+  it('reuses exact matches per language pair and model and counts hits', async () => {
+    const { listTranslationMemory, lookupTranslationMemory, saveTranslationMemory } = await import('../src/services/cache.js');
+
+    await saveTranslationMemory([
+      { sourceText: 'Thanks to  our sponsor!', translatedText: '感谢我们的赞助商！' },
+      { sourceText: '', translatedText: 'ignored' },
+    ], scope);
+
+    const hits = await lookupTranslationMemory(['Hello', 'Thanks to our sponsor!', 'thanks to our sponsor'], scope);
+    expect([...hits]).toEqual([[1, '感谢我们的赞助商！']]);
+    expect((await lookupTranslationMemory(['Thanks to our sponsor!'], { ...scope, model: 'other' })).size).toBe(0);
+
+    const fuzzy = await lookupTranslationMemory(['thanks to our sponsor'], scope, { fuzzy: true });
+    expect(fuzzy.get(0)).toBe('感谢我们的赞助商！');
+
+    const { entries, total } = await listTranslationMemory({ targetLanguage: 'zh-CN' });
+    expect(total).toBe(1);
+    expect(entries[0]).toMatchObject({ source_text: 'Thanks to  our sponsor!', hit_count: 2 });
+  });
+
+  it('purges entries by id or filter', async () => {
+    const { listTranslationMemory, purgeTranslationMemory, saveTranslationMemory } = await import('../src/services/cache.js');
+
+    await saveTranslationMemory([{ sourceText: 'Subscribe', translatedText: '订阅' }], scope);
+    await saveTranslationMemory([{ sourceText: 'Subscribe', translatedText: '購読' }], { ...scope, targetLanguage: 'ja' });
+
+    expect(await purgeTranslationMemory({ targetLanguage: 'ja' })).toBe(1);
+    const { entries } = await listTranslationMemory({});
+    expect(entries).toHaveLength(1);
+    expect(await purgeTranslationMemory({ id: entries[0].id })).toBe(1);
+    expect((await listTranslationMemory({})).total).toBe(0);
+  });
+});
+
+describe('glossary terms', () => {
+  beforeEach(() => {
+    const db = new Database(':memory:');
+    db.exec(readFileSync(new URL('../src/db/schema.sql', import.meta.url), 'utf-8'));
+    fakeDb = db as unknown as typeof fakeDb;
+  });
+
+  it('resolves the most specific approved term per source term', async () => {
+    const { resolveGlossaryTerms, upsertGlossaryTerm } = await import('../src/services/cache.js');
+
+    await upsertGlossaryTerm({ scope: 'global', sourceTerm: 'Acme', translation: '顶点' });
+    await upsertGlossaryTerm({ scope: 'global', targetLanguage: 'zh-CN', sourceTerm: 'Acme', translation: '艾克米' });
+    await upsertGlossaryTerm({ scope: 'channel', scopeId: 'UCabc', sourceTerm: 'acme', translation: 'ACME' });
+    await upsertGlossaryTerm({ scope: 'video', scopeId: 'other-video', sourceTerm: 'Acme', translation: '别的视频' });
+    await upsertGlossaryTerm({ scope: 'global', sourceTerm: 'Kubernetes', neverTranslate: true, translation: 'ignored' });
+    await upsertGlossaryTerm({ scope: 'global', sourceTerm: 'Draft', translation: '草稿', status: 'suggested' });
+
+    const global = await resolveGlossaryTerms({ targetLanguage: 'zh-CN', videoId: 'abcdefghijk' });
+    expect(global.map(term => [term.source_term, term.translation])).toEqual([
+      ['Acme', '艾克米'],
+      ['Kubernetes', null],
+    ]);
+
+    const channel = await resolveGlossaryTerms({ targetLanguage: 'ja', channelId: 'UCabc' });
+    expect(channel.find(term => term.source_term.toLowerCase() === 'acme')?.translation).toBe('ACME');
+  });
+
+  it('keeps existing terms when storing suggestions and approves them by update', async () => {
+    const {
+      listGlossaryTerms,
+      saveGlossarySuggestions,
+      updateGlossaryTerm,
+      upsertGlossaryTerm,
+    } = await import('../src/services/cache.js');
+
+    await upsertGlossaryTerm({ scope: 'channel', scopeId: 'UCabc', targetLanguage: 'zh-CN', sourceTerm: 'Helm', translation: '舵' });
+    const target = { scope: 'channel' as const, scopeId: 'UCabc', targetLanguage: 'zh-CN' };
+    expect(await saveGlossarySuggestions([
+      { sourceTerm: 'Helm', translation: 'Helm 包管理器' },
+      { sourceTerm: 'Istio', translation: 'Istio 服务网格' },
+    ], target)).toBe(1);
+
+    const { terms, total } = await listGlossaryTerms({ status: 'suggested' });
+    expect(total).toBe(1);
+    expect(terms[0]).toMatchObject({ source_term: 'Istio', scope_id: 'UCabc' });
+
+    const approved = await updateGlossaryTerm(terms[0].id, { status: 'approved', scope: 'global' });
+    expect(approved).toMatchObject({ scope: 'global', scope_id: '', status: 'approved', translation: 'Istio 服务网格' });
+    expect(await updateGlossaryTerm(999, { status: 'approved' })).toBeNull();
+  });
+});
+
+describe('usage accounting', () => {
+  beforeEach(() => {
+    const db = new Database(':memory:');
+    db.exec(readFileSync(new URL('../src/db/schema.sql', import.meta.url), 'utf-8'));
+    fakeDb = db as unknown as typeof fakeDb;
+  });
+
+  it('aggregates completions per day and per job and counts failed attempts as errors', async () => {
+    const { getJobUsage, getUsageReport, recordApiUsage } = await import('../src/services/cache.js');
+    const base = { provider: 'openai', model: 'gpt-4o', endpoint: 'primary', purpose: 'context' as const };
+
+    await recordApiUsage({ ...base, promptTokens: 1000, completionTokens: 200, costUsd: 0.0045, latencyMs: 800, failed: false, jobId: 'job-1', clientId: null });
+    await recordApiUsage({ ...base, promptTokens: 500, completionTokens: 100, costUsd: 0.00225, latencyMs: 400, failed: false, jobId: 'job-1', clientId: null });
+    await recordApiUsage({ ...base, promptTokens: 0, completionTokens: 0, costUsd: 0, latencyMs: 30000, failed: true, jobId: 'job-1', clientId: null });
+    await recordApiUsage({ ...base, purpose: 'summary', promptTokens: 300, completionTokens: 50, costUsd: 0.00125, latencyMs: 500, failed: false, jobId: null, clientId: null });
+
+    const today = new Date().toISOString().slice(0, 10);
+    const report = await getUsageReport({ from: today, to: today });
+    expect(report.totals).toEqual({
+      requests: 3,
+      errors: 1,
+      promptTokens: 1800,
+      completionTokens: 350,
+      costUsd: expect.closeTo(0.008, 6),
+    });
+    expect(report.daily.find(row => row.purpose === 'context')).toMatchObject({
+      request_count: 2,
+      error_count: 1,
+      token_count: 1800,
+      avg_latency_ms: 600,
+    });
+    expect(report.topJobs).toEqual([
+      expect.objectContaining({ job_id: 'job-1', request_count: 2, prompt_tokens: 1500 }),
+    ]);
+
+    const job = await getJobUsage('job-1');
+    expect(job.totals).toMatchObject({ requests: 2, promptTokens: 1500, completionTokens: 300 });
+    expect(job.breakdown).toHaveLength(1);
+    expect((await getJobUsage('missing')).totals.requests).toBe(0);
+  });
+
+  it('sums daily and monthly spend globally and per client', async () => {
+    const { getSpend, recordApiUsage } = await import('../src/services/cache.js');
+    const base = { provider: 'openai', model: 'gpt-4o', endpoint: 'primary', purpose: 'context' as const, latencyMs: 500, jobId: 'job-1' };
+
+    await recordApiUsage({ ...base, promptTokens: 1000, completionTokens: 200, costUsd: 1.5, failed: false, clientId: 'friend-1' });
+    await recordApiUsage({ ...base, promptTokens: 1000, completionTokens: 200, costUsd: 0.5, failed: false, clientId: null });
+    await recordApiUsage({ ...base, promptTokens: 0, completionTokens: 0, costUsd: 0, failed: true, clientId: 'friend-1' });
+    (fakeDb as unknown as Database.Database).prepare(`
+      INSERT INTO client_usage (client_id, date, request_count, cost_usd) VALUES ('friend-1', '2000-01-01', 1, 9)
+    `).run();
+
+    const today = new Date().toISOString().slice(0, 10);
+    expect(await getSpend(today)).toEqual({ dailyUsd: 2, monthlyUsd: 2 });
+    expect(await getSpend(today, 'friend-1')).toEqual({ dailyUsd: 1.5, monthlyUsd: 1.5 });
+    expect(await getSpend(today, 'someone-else')).toEqual({ dailyUsd: 0, monthlyUsd: 0 });
+  });
+});
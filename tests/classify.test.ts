@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { classifyCues, classifyCueText, translateSoundEvent } from '../src/subtitle/classify.js';
+
+describe('classifyCueText', () => {
+  it('tags sound events, lyrics and dialogue', () => {
+    expect(classifyCueText('[Music]')).toBe('sound');
+    expect(classifyCueText('(laughs) [Applause]')).toBe('sound');
+    expect(classifyCueText('♪♪')).toBe('sound');
+    expect(classifyCueText('♪ Hello darkness, my old friend')).toBe('lyrics');
+    expect(classifyCueText("I've come to talk with you again ♪")).toBe('lyrics');
+    expect(classifyCueText('[Applause] Thank you all')).toBeUndefined();
+  });
+
+  it('drops stale categories when cue text changes', () => {
+    expect(classifyCues([{ startTime: 0, endTime: 1000, text: 'Hello', category: 'sound' }])).toEqual([
+      { startTime: 0, endTime: 1000, text: 'Hello' },
+    ]);
+  });
+});
+
+describe('translateSoundEvent', () => {
+  it('translates known tags and keeps unknown ones', () => {
+    expect(translateSoundEvent('[Music]', 'zh-CN')).toBe('[音乐]');
+    expect(translateSoundEvent('(Laughs.) [Door creaks]', 'ja')).toBe('(笑う) [Door creaks]');
+    expect(translateSoundEvent('♪ [Applause]', 'de')).toBe('♪ [Applaus]');
+    expect(translateSoundEvent('[Music]', 'pt')).toBe('[Music]');
+  });
+});
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { resetConfigForTests } from '../src/config/env.js';
+import {
+  attachWordTimings,
+  buildRenderCues,
+  createBilingualDocument,
+  createDocumentFromSegments,
+  parseBilingualDocument,
+  serializeBilingualDocument,
+} from '../src/subtitle/document.js';
+import { prepareCuesForRender, renderYouTubeKaraokeTimedText } from '../src/subtitle/render.js';
+import { buildScrollingAsrTimeline } from '../src/subtitle/timeline.js';
+
+const baseEnv = { ...process.env };
+
+beforeEach(() => {
+  process.env = { ...baseEnv };
+  process.env.OPENAI_API_KEY = process.env.OPENAI_API_KEY || 'test-key';
+});
+
+afterEach(() => {
+  process.env = { ...baseEnv };
+  resetConfigForTests();
+});
+
+describe('bilingual subtitle document', () => {
+  const meta = { sourceLanguage: 'en', targetLanguage: 'zh-CN', track: 'asr' };
+
+  it('keeps aligned source and translation text through serialization', () => {
+    const document = createBilingualDocument([
+      { startTime: 0, endTime: 2000, text: 'Hello world.\n你好，世界。' },
+      { startTime: 2000, endTime: 3000, text: '[Music]' },
+    ], meta);
+
+    expect(document.cues).toEqual([
+      { startTime: 0, endTime: 2000, original: 'Hello world.', translation: '你好，世界。' },
+      { startTime: 2000, endTime: 3000, original: '[Music]', translation: '' },
+    ]);
+    expect(parseBilingualDocument(serializeBilingualDocument(document))).toEqual(document);
+  });
+
+  it('rejects legacy WebVTT payloads', () => {
+    expect(parseBilingualDocument('WEBVTT\n\n1\n00:00:00.000 --> 00:00:01.000\nHello')).toBeNull();
+    expect(parseBilingualDocument('{"version":0,"cues":[]}')).toBeNull();
+  });
+
+  it('renders original text even when the server defaults to translation-only', () => {
+    process.env.SUBTITLE_OUTPUT_MODE = 'translation-only';
+    const document = createBilingualDocument([
+      { startTime: 0, endTime: 2000, text: 'Hello world.\n你好，世界。' },
+    ], meta);
+
+    const translationOnly = prepareCuesForRender(buildRenderCues(document, 'translation-only'), 'vtt');
+    expect(translationOnly.map(cue => cue.text)).toEqual(['你好，世界。']);
+
+    const bilingual = buildRenderCues(document, 'bilingual');
+    expect(bilingual[0].text).toBe('Hello world.\n你好，世界。');
+  });
+
+  it('attaches per-word offsets and renders them as karaoke json3 segments', () => {
+    const atoms = buildScrollingAsrTimeline([
+      { tStartMs: 1000, dDurationMs: 3000, segs: [{ utf8: 'Hello' }, { utf8: ' big', tOffsetMs: 400 }, { utf8: ' world', tOffsetMs: 900 }] },
+      { tStartMs: 4000, dDurationMs: 2000, segs: [{ utf8: 'Again' }] },
+    ]);
+    const document = attachWordTimings(createBilingualDocument([
+      { startTime: 1000, endTime: 4000, text: 'Hello big world.\n你好，大世界。' },
+      { startTime: 4000, endTime: 6000, text: 'Again\n再来' },
+    ], meta), atoms);
+
+    expect(document.cues[0].words).toEqual([
+      { text: 'Hello', offsetMs: 0 },
+      { text: ' big', offsetMs: 400 },
+      { text: ' world', offsetMs: 900 },
+    ]);
+    expect(document.cues[1].words).toBeUndefined();
+
+    const rendered = renderYouTubeKaraokeTimedText(document.cues, { outputMode: 'bilingual' });
+    expect(rendered.events.slice(1).map(event => event.segs)).toEqual([
+      [{ utf8: 'Hello' }, { utf8: ' big', tOffsetMs: 400 }, { utf8: ' world', tOffsetMs: 900 }, { utf8: '\n你好，大世界。' }],
+      [{ utf8: 'Again' }, { utf8: '\n再来' }],
+    ]);
+
+    const originalOnly = renderYouTubeKaraokeTimedText(document.cues, { outputMode: 'original-only' });
+    expect(originalOnly.events[1].segs?.map(seg => seg.utf8)).toEqual(['Hello', ' big', ' world']);
+  });
+
+  it('skips word timings that do not spell out the cue text', () => {
+    const atoms = buildScrollingAsrTimeline([
+      { tStartMs: 0, dDurationMs: 2000, segs: [{ utf8: 'Completely' }, { utf8: ' different', tOffsetMs: 500 }] },
+    ]);
+    const document = attachWordTimings(createBilingualDocument([
+      { startTime: 0, endTime: 2000, text: 'Hello there\n你好' },
+    ], meta), atoms);
+
+    expect(document.cues[0].words).toBeUndefined();
+  });
+
+  it('prefixes the first cue of each speaker turn when labels are enabled', () => {
+    const document = createBilingualDocument([
+      { startTime: 0, endTime: 1500, text: 'Ready?\n准备好了吗？', speaker: { turn: 1, name: 'Anna' } },
+      { startTime: 1500, endTime: 3000, text: 'Go.\n走。', speaker: { turn: 1, name: 'Anna' } },
+      { startTime: 3000, endTime: 4500, text: 'Wait.\n等等。', speaker: { turn: 2 } },
+    ], meta);
+
+    expect(buildRenderCues(document, 'translation-only', 'name').map(cue => cue.text)).toEqual([
+      'Anna: Ready?\nAnna: 准备好了吗？',
+      'Go.\n走。',
+      '- Wait.\n- 等等。',
+    ]);
+    expect(buildRenderCues(document, 'translation-only').map(cue => cue.text)[2]).toBe('Wait.\n等等。');
+  });
+
+  it('keeps source styles and speakers on provisional documents from running segments', () => {
+    const segment = (index: number, translated: string | null) => ({
+      id: `job-1:${index}`,
+      job_id: 'job-1',
+      segment_index: index,
+      start_ms: index * 1500,
+      end_ms: index * 1500 + 1500,
+      source_text: ['Ready?', 'Go.'][index],
+      translated_text: translated,
+      status: translated ? 'done' as const : 'pending' as const,
+      created_at: 0,
+      updated_at: 0,
+    });
+    const styles = { pens: [{ id: 1, bAttr: 1 }] };
+
+    const document = createDocumentFromSegments([segment(1, null), segment(0, '准备好了吗？')], { ...meta, styles }, [
+      { startTime: 0, endTime: 1500, text: 'Ready?', speaker: { turn: 1, name: 'Anna' }, style: { penId: 1 } },
+      { startTime: 1500, endTime: 3000, text: 'Go.', speaker: { turn: 1, name: 'Anna' } },
+    ]);
+
+    expect(document.styles).toEqual(styles);
+    expect(document.cues).toEqual([
+      {
+        startTime: 0,
+        endTime: 1500,
+        original: 'Ready?',
+        translation: '准备好了吗？',
+        style: { penId: 1 },
+        speaker: { turn: 1, name: 'Anna' },
+      },
+      { startTime: 1500, endTime: 3000, original: 'Go.', translation: '', speaker: { turn: 1, name: 'Anna' } },
+    ]);
+    expect(buildRenderCues(document, 'bilingual', 'name')[0].text).toBe('Anna: Ready?\nAnna: 准备好了吗？');
+  });
+});
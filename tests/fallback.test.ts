@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mockCreate = vi.fn();
+
+vi.mock('openai', () => {
+  class OpenAI {
+    chat = { completions: { create: mockCreate } };
+  }
+  return { default: OpenAI };
+});
+
+const baseEnv = { ...process.env };
+let activeEnvKeys: string[] = [];
+
+function applyEnv(overrides: Record<string, string>) {
+  activeEnvKeys = Object.keys(overrides);
+  for (const key of activeEnvKeys) {
+    process.env[key] = overrides[key];
+  }
+}
+
+function restoreEnv() {
+  for (const key of activeEnvKeys) {
+    if (baseEnv[key] === undefined) {
+      delete process.env[key];
+    } else {
+      process.env[key] = baseEnv[key];
+    }
+  }
+  activeEnvKeys = [];
+}
+
+async function loadModules() {
+  applyEnv({
+    OPENAI_API_KEY: 'primary-key',
+    OPENAI_MODEL: 'primary-model',
+    OPENAI_FALLBACK_ENDPOINTS: JSON.stringify([
+      { model: 'backup-model', baseUrl: 'https://backup.example/v1' },
+    ]),
+    OPENAI_CIRCUIT_FAILURE_THRESHOLD: '2',
+    OPENAI_CIRCUIT_COOLDOWN_MS: '60000',
+  });
+  vi.resetModules();
+  const { getTranslationProvider } = await import('../src/services/providers/index.js');
+  const circuit = await import('../src/services/providers/circuit.js');
+  const { getConfig } = await import('../src/config/env.js');
+  return { provider: getTranslationProvider(), circuit, config: getConfig() };
+}
+
+function completion(content: string) {
+  return { choices: [{ message: { content } }] };
+}
+
+beforeEach(() => {
+  mockCreate.mockReset();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  restoreEnv();
+  vi.restoreAllMocks();
+});
+
+describe('model fallback chain', () => {
+  it('retries a failed call on the next endpoint', async () => {
+    const { provider, config } = await loadModules();
+    mockCreate
+      .mockRejectedValueOnce(new Error('429 rate limited'))
+      .mockResolvedValueOnce(completion('backup answer'));
+
+    const result = await provider.complete!({ prompt: 'hi', temperature: 0.2, maxTokens: 10 });
+
+    expect(result).toBe('backup answer');
+    expect(mockCreate.mock.calls.map(([body]) => body.model)).toEqual(['primary-model', 'backup-model']);
+    expect(config.openai.endpoints[1]).toMatchObject({
+      id: 'backup-model@https://backup.example/v1',
+      apiKey: 'primary-key',
+    });
+  });
+
+  it('skips an endpoint while its circuit is open and reports it in health', async () => {
+    const { provider, circuit, config } = await loadModules();
+    mockCreate.mockImplementation(async (body: { model: string }) => {
+      if (body.model === 'primary-model') {
+        throw new Error('timeout');
+      }
+      return completion('ok');
+    });
+
+    await provider.complete!({ prompt: 'a', temperature: 0.2, maxTokens: 10 });
+    await provider.complete!({ prompt: 'b', temperature: 0.2, maxTokens: 10 });
+    mockCreate.mockClear();
+    await provider.complete!({ prompt: 'c', temperature: 0.2, maxTokens: 10 });
+
+    expect(mockCreate.mock.calls.map(([body]) => body.model)).toEqual(['backup-model']);
+
+    const [primary, backup] = circuit.getEndpointHealth(config.openai.endpoints);
+    expect(primary).toMatchObject({ state: 'open', consecutiveFailures: 2, lastError: 'timeout' });
+    expect(primary.retryAt).not.toBeNull();
+    expect(backup).toMatchObject({ state: 'closed', totalSuccesses: 3 });
+  });
+
+  it('sends economy-mode completions to the endpoint serving the economy model', async () => {
+    const { provider } = await loadModules();
+    const { runWithUsageScope } = await import('../src/services/usage.js');
+    mockCreate.mockResolvedValue(completion('cheap answer'));
+
+    await runWithUsageScope({ jobId: 'job-1', model: 'backup-model' }, () => (
+      provider.complete!({ prompt: 'hi', temperature: 0.2, maxTokens: 10, purpose: 'context' })
+    ));
+    await runWithUsageScope({ jobId: 'job-2', model: 'unlisted-model' }, () => (
+      provider.complete!({ prompt: 'hi', temperature: 0.2, maxTokens: 10, purpose: 'context' })
+    ));
+
+    expect(mockCreate.mock.calls.map(([body]) => body.model)).toEqual(['backup-model', 'unlisted-model']);
+  });
+
+  it('probes a half-open endpoint after the cooldown and closes it on success', async () => {
+    const { circuit } = await loadModules();
+    const options = { failureThreshold: 1, cooldownMs: 1000 };
+
+    circuit.recordEndpointFailure('model@default', new Error('boom'), options, 0);
+    expect(circuit.getCircuitState('model@default', 500)).toBe('open');
+    expect(circuit.getCircuitState('model@default', 1500)).toBe('half-open');
+
+    circuit.recordEndpointSuccess('model@default');
+    expect(circuit.getCircuitState('model@default', 1500)).toBe('closed');
+  });
+});
@@ -0,0 +1,827 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mockGetBilingualSubtitle = vi.fn();
+const mockGetCaptionJob = vi.fn();
+const mockGetCaptionJobByKey = vi.fn();
+const mockGetCaptionSegments = vi.fn();
+const mockListCaptionJobs = vi.fn();
+const mockCountTranslatedSegments = vi.fn();
+const mockGetSegmentsPerSecond = vi.fn();
+const mockEnqueueTranslation = vi.fn();
+const mockFetchYouTubeTimedText = vi.fn();
+const mockSetJobPriority = vi.fn();
+const mockEvaluateBudget = vi.fn();
+const mockBuildTranslationCues = vi.fn();
+const mockAuthorizeApiKey = vi.fn();
+const mockConsumeTranslationQuota = vi.fn();
+
+vi.mock('../src/services/cache.js', () => ({
+  getBilingualSubtitle: mockGetBilingualSubtitle,
+  getCaptionJob: mockGetCaptionJob,
+  getCaptionJobByKey: mockGetCaptionJobByKey,
+  getCaptionSegments: mockGetCaptionSegments,
+  listCaptionJobs: mockListCaptionJobs,
+  countTranslatedSegments: mockCountTranslatedSegments,
+  getSegmentsPerSecond: mockGetSegmentsPerSecond,
+}));
+
+vi.mock('../src/queue/queue.js', () => ({
+  buildTranslationCues: mockBuildTranslationCues,
+  buildTranslationTaskKey: vi.fn(() => 'task-key'),
+  enqueueTranslation: mockEnqueueTranslation,
+  getQueueStatus: vi.fn(),
+  isTranslationInFlight: vi.fn(() => false),
+}));
+
+vi.mock('../src/queue/priority.js', () => ({
+  setJobPriority: mockSetJobPriority,
+}));
+
+vi.mock('../src/services/budget.js', () => ({
+  evaluateBudget: mockEvaluateBudget,
+}));
+
+vi.mock('../src/services/api-keys.js', () => ({
+  authorizeApiKey: mockAuthorizeApiKey,
+  consumeTranslationQuota: mockConsumeTranslationQuota,
+  issueApiKey: vi.fn(),
+}));
+
+vi.mock('../src/services/youtube.js', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../src/services/youtube.js')>(),
+  fetchYouTubeTimedText: mockFetchYouTubeTimedText,
+}));
+
+vi.mock('../src/services/providers/index.js', () => ({
+  getTranslationProvider: () => ({ name: 'mock', model: 'test-model' }),
+}));
+
+vi.mock('../src/db/sqlite.js', () => ({
+  getDatabase: vi.fn(),
+  getCacheStats: vi.fn(),
+}));
+
+const baseJob = {
+  id: 'job-1',
+  video_id: 'dQw4w9WgXcQ',
+  lang: 'en',
+  tlang: 'ja',
+  track: 'asr',
+  fmt: 'json3',
+  source_hash: 'hash',
+  retry_count: 0,
+  next_retry_at: null,
+  error_code: null,
+  error_message: null,
+  bilingual_json: null,
+  source_json: null,
+  segments_total: null,
+  model: null,
+  created_at: 0,
+  updated_at: 0,
+  expires_at: 0,
+};
+
+function parseSseEvents(body: string): Array<{ event: string; data: Record<string, unknown> }> {
+  return body
+    .split('\n\n')
+    .filter(block => block.includes('data:'))
+    .map(block => {
+      const event = /^event: (.+)$/m.exec(block)?.[1] ?? '';
+      const data = /^data: (.+)$/m.exec(block)?.[1] ?? '{}';
+      return { event, data: JSON.parse(data) };
+    });
+}
+
+beforeEach(() => {
+  process.env.OPENAI_API_KEY = process.env.OPENAI_API_KEY || 'test-key';
+  mockGetBilingualSubtitle.mockReset().mockResolvedValue(null);
+  mockGetCaptionJob.mockReset();
+  mockGetCaptionJobByKey.mockReset().mockResolvedValue(null);
+  mockGetCaptionSegments.mockReset().mockResolvedValue([]);
+  mockListCaptionJobs.mockReset();
+  mockCountTranslatedSegments.mockReset().mockResolvedValue(0);
+  mockGetSegmentsPerSecond.mockReset().mockResolvedValue(null);
+  mockEnqueueTranslation.mockReset();
+  mockFetchYouTubeTimedText.mockReset();
+  mockSetJobPriority.mockReset();
+  mockEvaluateBudget.mockReset().mockResolvedValue({ level: 'ok', reason: null });
+  mockBuildTranslationCues.mockReset();
+  mockAuthorizeApiKey.mockReset();
+  mockConsumeTranslationQuota.mockReset().mockResolvedValue(true);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('job events stream', () => {
+  it('streams progress and a final done event with the cache key', async () => {
+    mockGetCaptionJob.mockResolvedValueOnce({ ...baseJob, status: 'translating' });
+    const { default: app } = await import('../src/http/routes.js');
+    const { emitJobEvent } = await import('../src/services/events.js');
+
+    const response = await app.request('/api/jobs/job-1/events');
+    expect(response.headers.get('content-type')).toContain('text/event-stream');
+
+    setTimeout(() => {
+      emitJobEvent({ type: 'progress', jobId: 'job-1', batch: '1/2', segmentsDone: 12, segmentsTotal: 24 });
+      emitJobEvent({ type: 'progress', jobId: 'other-job', batch: '1/1', segmentsDone: 1, segmentsTotal: 1 });
+      emitJobEvent({ type: 'done', jobId: 'job-1', cacheKey: 'dQw4w9WgXcQ|en|ja|asr|json3' });
+    }, 10);
+
+    const events = parseSseEvents(await response.text());
+
+    expect(events.map(event => event.event)).toEqual(['status', 'progress', 'done']);
+    expect(events[0].data).toMatchObject({ status: 'translating' });
+    expect(events[1].data).toMatchObject({ batch: '1/2', segmentsDone: 12, segmentsTotal: 24 });
+    expect(events[2].data).toEqual({
+      type: 'done',
+      jobId: 'job-1',
+      cacheKey: 'dQw4w9WgXcQ|en|ja|asr|json3',
+    });
+  });
+
+  it('closes immediately for a finished job', async () => {
+    mockGetCaptionJob.mockResolvedValueOnce({ ...baseJob, status: 'done' });
+    const { default: app } = await import('../src/http/routes.js');
+
+    const response = await app.request('/api/jobs/job-1/events');
+    const events = parseSseEvents(await response.text());
+
+    expect(events.map(event => event.event)).toEqual(['status', 'done']);
+    expect(events[1].data.cacheKey).toBe('dQw4w9WgXcQ|en|ja|asr');
+  });
+
+  it('ends the stream with a failed event once retries are exhausted', async () => {
+    mockGetCaptionJob.mockResolvedValueOnce({ ...baseJob, status: 'translating', retry_count: 2 });
+    const { default: app } = await import('../src/http/routes.js');
+    const { emitJobEvent } = await import('../src/services/events.js');
+
+    const response = await app.request('/api/jobs/job-1/events');
+    setTimeout(() => {
+      emitJobEvent({
+        type: 'failed',
+        jobId: 'job-1',
+        errorCode: 'translation_error',
+        errorMessage: 'Provider unavailable',
+      });
+    }, 10);
+    const events = parseSseEvents(await response.text());
+
+    expect(events.map(event => event.event)).toEqual(['status', 'failed']);
+    expect(events[1].data).toEqual({
+      type: 'failed',
+      jobId: 'job-1',
+      errorCode: 'translation_error',
+      errorMessage: 'Provider unavailable',
+    });
+  });
+
+  it('closes immediately for a job that already failed for good', async () => {
+    mockGetCaptionJob.mockResolvedValueOnce({
+      ...baseJob,
+      status: 'failed',
+      retry_count: 3,
+      error_code: 'budget_exceeded',
+      error_message: 'Daily budget exhausted',
+    });
+    const { default: app } = await import('../src/http/routes.js');
+
+    const response = await app.request('/api/jobs/job-1/events');
+    const events = parseSseEvents(await response.text());
+
+    expect(events.map(event => event.event)).toEqual(['status', 'failed']);
+    expect(events[1].data).toMatchObject({ errorCode: 'budget_exceeded', errorMessage: 'Daily budget exhausted' });
+  });
+
+  it('returns 404 for unknown jobs', async () => {
+    mockGetCaptionJob.mockResolvedValueOnce(null);
+    const { default: app } = await import('../src/http/routes.js');
+
+    const response = await app.request('/api/jobs/missing/events');
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({ error: 'job_not_found' });
+  });
+});
+
+describe('job status api', () => {
+  it('reports progress and an ETA from measured throughput', async () => {
+    mockGetCaptionJob.mockResolvedValueOnce({
+      ...baseJob,
+      status: 'translating',
+      retry_count: 1,
+      segments_total: 100,
+      model: 'test-model',
+    });
+    mockCountTranslatedSegments.mockResolvedValueOnce(40);
+    mockGetSegmentsPerSecond.mockResolvedValueOnce(4);
+    const { default: app } = await import('../src/http/routes.js');
+
+    const response = await app.request('/api/jobs/job-1');
+    const body = await response.json();
+
+    expect(mockGetSegmentsPerSecond).toHaveBeenCalledWith('test-model');
+    expect(body).toMatchObject({
+      id: 'job-1',
+      status: 'translating',
+      retryCount: 1,
+      error: null,
+      progress: { segmentsDone: 40, segmentsTotal: 100, percent: 40 },
+      etaSeconds: 15,
+    });
+  });
+
+  it('lists jobs for a video filtered by language pair', async () => {
+    mockListCaptionJobs.mockResolvedValueOnce([
+      { ...baseJob, status: 'failed', error_code: 'translation_error', error_message: 'boom' },
+    ]);
+    const { default: app } = await import('../src/http/routes.js');
+
+    const response = await app.request('/api/jobs?v=dQw4w9WgXcQ&lang=en&tlang=ja');
+    const body = await response.json();
+
+    expect(mockListCaptionJobs).toHaveBeenCalledWith({ videoId: 'dQw4w9WgXcQ', lang: 'en', tlang: 'ja' });
+    expect(body.jobs).toHaveLength(1);
+    expect(body.jobs[0]).toMatchObject({
+      status: 'failed',
+      error: { code: 'translation_error', message: 'boom' },
+      etaSeconds: null,
+    });
+
+    const missing = await app.request('/api/jobs');
+    expect(missing.status).toBe(400);
+  });
+
+  it('returns the job id and a throughput-based estimate on cache miss', async () => {
+    mockFetchYouTubeTimedText.mockResolvedValueOnce({
+      rawText: '{"events":[]}',
+      contentType: 'application/json',
+      parsed: {
+        events: Array.from({ length: 10 }, (_, index) => ({
+          tStartMs: index * 1000,
+          dDurationMs: 1000,
+          segs: [{ utf8: `line ${index}` }],
+        })),
+      },
+    });
+    mockEnqueueTranslation.mockResolvedValueOnce('job-new');
+    mockGetCaptionJob.mockResolvedValueOnce({ ...baseJob, id: 'job-new', status: 'pending' });
+    mockGetSegmentsPerSecond.mockResolvedValueOnce(5);
+    const { default: app } = await import('../src/http/routes.js');
+
+    const response = await app.request('/api/timedtext?v=dQw4w9WgXcQ&lang=en&tlang=ja&fmt=json3&t=30000');
+
+    expect(response.headers.get('X-Translation-Status')).toBe('pending');
+    expect(response.headers.get('X-Job-Id')).toBe('job-new');
+    expect(response.headers.get('X-Estimated-Time')).toBe('2');
+    expect(mockSetJobPriority).toHaveBeenCalledWith('job-new', 30000);
+  });
+
+  it('serves originals without enqueueing once the client budget is exhausted', async () => {
+    mockFetchYouTubeTimedText.mockResolvedValueOnce({
+      rawText: '{"events":[]}',
+      contentType: 'application/json',
+      parsed: { events: [{ tStartMs: 0, dDurationMs: 1000, segs: [{ utf8: 'Hello there' }] }] },
+    });
+    mockEvaluateBudget.mockResolvedValueOnce({
+      level: 'hard',
+      reason: 'Client friend-1 monthly budget exhausted ($20.00 of $20.00)',
+    });
+    const { default: app } = await import('../src/http/routes.js');
+
+    const response = await app.request('/api/timedtext?v=dQw4w9WgXcQ&lang=en&tlang=ja&fmt=json3&client=friend-1');
+
+    expect(await response.text()).toBe('{"events":[]}');
+    expect(response.headers.get('X-Translation-Status')).toBe('skipped');
+    expect(response.headers.get('X-Budget-Status')).toBe('exceeded');
+    expect(response.headers.get('X-Budget-Reason')).toBe('Client friend-1 monthly budget exhausted ($20.00 of $20.00)');
+    expect(mockEvaluateBudget).toHaveBeenCalledWith('friend-1');
+    expect(mockEnqueueTranslation).not.toHaveBeenCalled();
+    const upstreamUrl = new URL(mockFetchYouTubeTimedText.mock.calls[0][0].original_url);
+    expect(upstreamUrl.searchParams.has('client')).toBe(false);
+  });
+
+  it('attributes keyed requests to the key client and stops at its daily quota', async () => {
+    mockFetchYouTubeTimedText.mockResolvedValueOnce({
+      rawText: '{"events":[]}',
+      contentType: 'application/json',
+      parsed: { events: [{ tStartMs: 0, dDurationMs: 1000, segs: [{ utf8: 'Hello there' }] }] },
+    });
+    const apiKey = { id: 'key_1', client_id: 'family', daily_quota: 3 };
+    mockAuthorizeApiKey.mockResolvedValueOnce({ key: apiKey });
+    mockConsumeTranslationQuota.mockResolvedValueOnce(false);
+    const { default: app } = await import('../src/http/routes.js');
+
+    const response = await app.request('/api/timedtext?v=dQw4w9WgXcQ&lang=en&tlang=ja&fmt=json3&client=other&api_key=ysk_secret');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Translation-Status')).toBe('skipped');
+    expect(response.headers.get('X-Quota-Status')).toBe('exceeded');
+    expect(mockAuthorizeApiKey).toHaveBeenCalledWith('ysk_secret', 'ja');
+    expect(mockEvaluateBudget).toHaveBeenCalledWith('family');
+    expect(mockConsumeTranslationQuota).toHaveBeenCalledWith(apiKey);
+    expect(mockEnqueueTranslation).not.toHaveBeenCalled();
+    const upstreamUrl = new URL(mockFetchYouTubeTimedText.mock.calls[0][0].original_url);
+    expect(upstreamUrl.searchParams.has('api_key')).toBe(false);
+  });
+
+  it('reuses the running job for a download format instead of charging a new translation', async () => {
+    mockFetchYouTubeTimedText.mockResolvedValue({
+      rawText: '{"events":[]}',
+      contentType: 'application/json',
+      parsed: { events: [{ tStartMs: 0, dDurationMs: 1500, segs: [{ utf8: 'Hello there' }] }] },
+    });
+    const apiKey = { id: 'key_1', client_id: 'family', daily_quota: 3 };
+    mockAuthorizeApiKey.mockResolvedValue({ key: apiKey });
+    mockConsumeTranslationQuota.mockResolvedValue(true);
+    mockEnqueueTranslation.mockResolvedValueOnce('job-new');
+    mockGetCaptionJobByKey.mockImplementation(async () => (
+      mockEnqueueTranslation.mock.calls.length > 0 ? { id: 'job-new', status: 'pending', fmt: 'json3', updated_at: 0 } : null
+    ));
+    const { default: app } = await import('../src/http/routes.js');
+
+    await app.request('/api/timedtext?v=dQw4w9WgXcQ&lang=en&tlang=ja&fmt=json3&api_key=ysk_secret');
+    const download = await app.request('/api/timedtext?v=dQw4w9WgXcQ&lang=en&tlang=ja&fmt=srt&api_key=ysk_secret');
+
+    expect(download.headers.get('X-Job-Id')).toBe('job-new');
+    expect(download.headers.get('X-Translation-Status')).toBe('pending');
+    expect(await download.text()).toBe('1\n00:00:00,000 --> 00:00:01,500\nHello there\n');
+    expect(mockGetCaptionJobByKey.mock.calls[1]).toEqual(mockGetCaptionJobByKey.mock.calls[0]);
+    expect(mockEnqueueTranslation).toHaveBeenCalledTimes(1);
+    expect(mockConsumeTranslationQuota).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes key rejections through with Retry-After', async () => {
+    mockAuthorizeApiKey.mockResolvedValueOnce({
+      key: null,
+      status: 429,
+      error: { error: 'rate_limited', message: 'Rate limit of 10 requests per minute exceeded' },
+      retryAfterSeconds: 12,
+    });
+    const { default: app } = await import('../src/http/routes.js');
+
+    const response = await app.request('/api/timedtext?v=dQw4w9WgXcQ&lang=en&tlang=ja', {
+      headers: { 'X-Api-Key': 'ysk_secret' },
+    });
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('12');
+    expect(await response.json()).toMatchObject({ error: 'rate_limited' });
+    expect(mockFetchYouTubeTimedText).not.toHaveBeenCalled();
+  });
+
+  it('estimates a translation without enqueueing it', async () => {
+    const source = {
+      events: Array.from({ length: 12 }, (_, index) => ({
+        tStartMs: index * 1000,
+        dDurationMs: 1000,
+        segs: [{ utf8: `line ${index}` }],
+      })),
+    };
+    mockFetchYouTubeTimedText.mockResolvedValueOnce({ rawText: '', contentType: 'application/json', parsed: source });
+    mockBuildTranslationCues.mockReturnValueOnce([
+      ...source.events.map((event, index) => ({
+        startTime: event.tStartMs,
+        endTime: event.tStartMs + 1000,
+        text: `line ${index}`,
+      })),
+      { startTime: 12000, endTime: 13000, text: '[Music]', category: 'sound' },
+    ]);
+    mockGetSegmentsPerSecond.mockResolvedValueOnce(4);
+    const { default: app } = await import('../src/http/routes.js');
+
+    const response = await app.request('/api/estimate?v=dQw4w9WgXcQ&lang=en&tlang=ja');
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockBuildTranslationCues).toHaveBeenCalledWith(source);
+    expect(body).toMatchObject({
+      videoId: 'dQw4w9WgXcQ',
+      lang: 'en',
+      tlang: 'ja',
+      provider: 'mock',
+      model: 'test-model',
+      tokenizer: null,
+      segments: 13,
+      localSegments: 1,
+      batches: 1,
+      promptTokens: 0,
+      costUsd: null,
+      estimatedSeconds: 3,
+    });
+    expect(mockEnqueueTranslation).not.toHaveBeenCalled();
+    expect(mockGetCaptionJobByKey).not.toHaveBeenCalled();
+  });
+
+  it('rejects estimates for invalid video ids', async () => {
+    const { default: app } = await import('../src/http/routes.js');
+
+    const response = await app.request('/api/estimate?v=bad&lang=en');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: 'invalid_video_id' });
+    expect(mockFetchYouTubeTimedText).not.toHaveBeenCalled();
+  });
+
+  it('rejects original_url values outside the upstream policy', async () => {
+    const { UpstreamPolicyError } = await import('../src/services/upstream.js');
+    mockFetchYouTubeTimedText.mockRejectedValueOnce(new UpstreamPolicyError(
+      'upstream_host_not_allowed',
+      'https://metadata.internal/latest',
+      'Upstream host metadata.internal is not allowed'
+    ));
+    const { default: app } = await import('../src/http/routes.js');
+
+    const originalUrl = encodeURIComponent('https://metadata.internal/latest');
+    const response = await app.request(`/api/timedtext?v=dQw4w9WgXcQ&lang=en&tlang=ja&original_url=${originalUrl}`);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: 'upstream_host_not_allowed',
+      message: 'Upstream host metadata.internal is not allowed',
+    });
+    expect(mockEnqueueTranslation).not.toHaveBeenCalled();
+  });
+
+  it('renders download formats from the json3 source on cache miss', async () => {
+    mockFetchYouTubeTimedText.mockResolvedValueOnce({
+      rawText: '{"events":[]}',
+      contentType: 'application/json',
+      parsed: {
+        events: [{ tStartMs: 0, dDurationMs: 1500, segs: [{ utf8: 'Hello there' }] }],
+      },
+    });
+    mockEnqueueTranslation.mockResolvedValueOnce('job-new');
+    mockGetCaptionJob.mockResolvedValueOnce({ ...baseJob, id: 'job-new', status: 'pending' });
+    const { default: app } = await import('../src/http/routes.js');
+
+    const response = await app.request('/api/timedtext?v=dQw4w9WgXcQ&lang=en&tlang=ja&fmt=srt');
+
+    expect(response.headers.get('Content-Type')).toContain('application/x-subrip');
+    expect(await response.text()).toBe('1\n00:00:00,000 --> 00:00:01,500\nHello there\n');
+    const upstreamUrl = new URL(mockFetchYouTubeTimedText.mock.calls[0][0].original_url);
+    expect(upstreamUrl.searchParams.get('fmt')).toBe('json3');
+  });
+
+  it('serves every output format from the one cached document', async () => {
+    const documents = new Map<string, unknown>();
+    mockGetBilingualSubtitle.mockImplementation(async (key: string) => documents.get(key) ?? null);
+    mockFetchYouTubeTimedText.mockResolvedValueOnce({
+      rawText: '{"events":[]}',
+      contentType: 'application/json',
+      parsed: { events: [{ tStartMs: 0, dDurationMs: 1500, segs: [{ utf8: 'Hello there' }] }] },
+    });
+    mockEnqueueTranslation.mockResolvedValueOnce('job-new');
+    const { generateCacheKey } = await import('../src/services/youtube.js');
+    const { default: app } = await import('../src/http/routes.js');
+
+    const first = await app.request('/api/timedtext?v=dQw4w9WgXcQ&lang=en&tlang=ja&fmt=json3');
+    expect(first.headers.get('X-Cache-Status')).toBe('MISS');
+    const [queuedParams] = mockEnqueueTranslation.mock.calls[0];
+    documents.set(generateCacheKey(queuedParams), {
+      version: 1,
+      sourceLanguage: 'en',
+      targetLanguage: 'ja',
+      track: 'asr',
+      cues: [{ startTime: 0, endTime: 1500, original: 'Hello there', translation: '你好' }],
+    });
+
+    const vtt = await app.request('/api/timedtext?v=dQw4w9WgXcQ&lang=en&tlang=ja&fmt=vtt');
+    const srv3 = await app.request('/api/timedtext?v=dQw4w9WgXcQ&lang=en&tlang=ja&fmt=srv3');
+
+    expect(vtt.headers.get('X-Cache-Status')).toBe('HIT');
+    expect(await vtt.text()).toContain('你好');
+    expect(srv3.headers.get('X-Cache-Status')).toBe('HIT');
+    expect(await srv3.text()).toContain('你好');
+    expect(mockFetchYouTubeTimedText).toHaveBeenCalledTimes(1);
+    expect(mockEnqueueTranslation).toHaveBeenCalledTimes(1);
+  });
+
+  it('fetches json3 upstream and renders the originals for other formats on cache miss', async () => {
+    mockFetchYouTubeTimedText.mockResolvedValueOnce({
+      rawText: '{"events":[]}',
+      contentType: 'application/json',
+      parsed: { events: [{ tStartMs: 0, dDurationMs: 1500, segs: [{ utf8: 'Hello there' }] }] },
+    });
+    const { default: app } = await import('../src/http/routes.js');
+
+    const originalUrl = encodeURIComponent('https://www.youtube.com/api/timedtext?v=dQw4w9WgXcQ&lang=en&fmt=vtt');
+    const response = await app.request(`/api/timedtext?v=dQw4w9WgXcQ&lang=en&tlang=ja&fmt=vtt&original_url=${originalUrl}`);
+
+    expect(response.headers.get('Content-Type')).toContain('text/vtt');
+    expect(await response.text()).toContain('Hello there');
+    const upstreamUrl = new URL(mockFetchYouTubeTimedText.mock.calls[0][0].original_url);
+    expect(upstreamUrl.searchParams.get('fmt')).toBe('json3');
+  });
+
+  it('serves the translated prefix of a running job as a partial response', async () => {
+    mockFetchYouTubeTimedText.mockResolvedValueOnce({
+      rawText: '{"events":[]}',
+      contentType: 'application/json',
+      parsed: { events: [] },
+    });
+    mockGetCaptionJobByKey.mockResolvedValueOnce({ id: 'job-1', status: 'translating', updated_at: 0 });
+    mockGetCaptionJob.mockResolvedValueOnce({
+      ...baseJob,
+      status: 'translating',
+      segments_total: 4,
+      model: 'test-model',
+    });
+    mockCountTranslatedSegments.mockResolvedValueOnce(1);
+    const segment = (index: number, translated: string | null) => ({
+      id: `job-1:${index}`,
+      job_id: 'job-1',
+      segment_index: index,
+      start_ms: index * 2000,
+      end_ms: index * 2000 + 1500,
+      source_text: `Line ${index}`,
+      translated_text: translated,
+      status: translated ? 'done' : 'pending',
+      created_at: 0,
+      updated_at: 0,
+    });
+    mockGetCaptionSegments.mockResolvedValueOnce([
+      segment(1, null),
+      segment(0, '第零行'),
+      segment(2, null),
+      segment(3, null),
+    ]);
+    const { default: app } = await import('../src/http/routes.js');
+
+    const response = await app.request('/api/timedtext?v=dQw4w9WgXcQ&lang=en&tlang=ja&fmt=json3&mode=translation-only');
+    const body = await response.json();
+
+    expect(response.headers.get('X-Translation-Status')).toBe('partial');
+    expect(response.headers.get('X-Translation-Coverage')).toBe('25.0');
+    expect(response.headers.get('X-Cache-Status')).toBe('MISS');
+    expect(response.headers.get('X-Job-Id')).toBe('job-1');
+    const text = body.events
+      .flatMap((event: { segs?: Array<{ utf8: string }> }) => event.segs ?? [])
+      .map((seg: { utf8: string }) => seg.utf8)
+      .join('');
+    expect(text).toContain('第零行');
+    expect(text).not.toContain('Line 0');
+    expect(text).toContain('Line 3');
+  });
+});
+
+describe('job priority api', () => {
+  it('re-prioritizes a running job around the given playback position', async () => {
+    mockGetCaptionJob.mockResolvedValueOnce({ ...baseJob, status: 'translating' });
+    const { default: app } = await import('../src/http/routes.js');
+
+    const response = await app.request('/api/jobs/job-1/priority', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ t: 125000 }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ jobId: 'job-1', t: 125000, status: 'translating' });
+    expect(mockSetJobPriority).toHaveBeenCalledWith('job-1', 125000);
+  });
+
+  it('rejects invalid positions', async () => {
+    mockGetCaptionJob.mockResolvedValueOnce({ ...baseJob, status: 'translating' });
+    const { default: app } = await import('../src/http/routes.js');
+
+    const response = await app.request('/api/jobs/job-1/priority?t=-5', { method: 'POST' });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: 'invalid_position' });
+    expect(mockSetJobPriority).not.toHaveBeenCalled();
+  });
+
+  it('requires an API key when keys are required', async () => {
+    process.env.API_KEYS_REQUIRED = 'true';
+    const { resetConfigForTests } = await import('../src/config/env.js');
+    resetConfigForTests();
+    try {
+      mockGetCaptionJob.mockResolvedValue({ ...baseJob, status: 'translating' });
+      mockAuthorizeApiKey.mockResolvedValueOnce({ key: { id: 'key_1', client_id: 'family' } });
+      const { default: app } = await import('../src/http/routes.js');
+
+      const anonymous = await app.request('/api/jobs/job-1/priority?t=125000', { method: 'POST' });
+      expect(anonymous.status).toBe(401);
+      expect(await anonymous.json()).toMatchObject({ error: 'api_key_required' });
+      expect(mockSetJobPriority).not.toHaveBeenCalled();
+
+      const keyed = await app.request('/api/jobs/job-1/priority?t=125000', {
+        method: 'POST',
+        headers: { 'X-Api-Key': 'ysk_secret' },
+      });
+      expect(keyed.status).toBe(200);
+      expect(mockAuthorizeApiKey).toHaveBeenCalledWith('ysk_secret', 'ja');
+      expect(mockSetJobPriority).toHaveBeenCalledWith('job-1', 125000);
+    } finally {
+      delete process.env.API_KEYS_REQUIRED;
+      resetConfigForTests();
+    }
+  });
+});
+
+describe('upload translate api', () => {
+  const srt = '1\n00:00:01,000 --> 00:00:02,500\nHello there\n\n2\n00:00:03,000 --> 00:00:04,000\nGeneral Kenobi\n';
+
+  it('queues an uploaded SRT file and returns a download link', async () => {
+    mockEnqueueTranslation.mockResolvedValueOnce('job-upload');
+    const { default: app } = await import('../src/http/routes.js');
+
+    const response = await app.request('/api/translate?tlang=ja&fmt=srt&mode=bilingual', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-subrip' },
+      body: srt,
+    });
+
+    expect(response.status).toBe(202);
+    expect(await response.json()).toEqual({
+      jobId: 'job-upload',
+      status: 'pending',
+      statusUrl: '/api/jobs/job-upload',
+      eventsUrl: '/api/jobs/job-upload/events',
+      downloadUrl: '/api/translate/job-upload/download?fmt=srt&mode=bilingual',
+    });
+
+    const [params, source] = mockEnqueueTranslation.mock.calls[0];
+    expect(params).toMatchObject({ lang: 'auto', tlang: 'ja', kind: 'upload', fmt: 'json3' });
+    expect(params.v).toMatch(/^upload-[0-9a-z]+$/);
+    expect(source.events).toHaveLength(2);
+  });
+
+  it('accepts multipart uploads', async () => {
+    mockEnqueueTranslation.mockResolvedValueOnce('job-upload');
+    const { default: app } = await import('../src/http/routes.js');
+    const form = new FormData();
+    form.append('file', new File(['WEBVTT\n\n00:00:01.000 --> 00:00:02.000\nHi\n'], 'talk.vtt', { type: 'text/vtt' }));
+    form.append('tlang', 'de');
+
+    const response = await app.request('/api/translate', { method: 'POST', body: form });
+
+    expect(response.status).toBe(202);
+    expect(mockEnqueueTranslation.mock.calls[0][0]).toMatchObject({ tlang: 'de' });
+  });
+
+  it('cuts off chunked uploads over the size limit while reading', async () => {
+    const { default: app } = await import('../src/http/routes.js');
+    const chunk = new TextEncoder().encode('x'.repeat(1024 * 1024));
+    let sent = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        sent++;
+        controller.enqueue(chunk);
+      },
+    });
+
+    const response = await app.request(new Request('http://localhost/api/translate', {
+      method: 'POST',
+      body,
+      duplex: 'half',
+    } as RequestInit));
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toMatchObject({ error: 'payload_too_large' });
+    expect(sent).toBeLessThan(10);
+    expect(mockEnqueueTranslation).not.toHaveBeenCalled();
+  });
+
+  it('rejects malformed subtitle files with the parser error', async () => {
+    const { default: app } = await import('../src/http/routes.js');
+
+    const response = await app.request('/api/translate', {
+      method: 'POST',
+      body: '1\n00:00:01,000 --> 00:00:02,000\nOk\n\n2\nnot a timing line\n',
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      error: 'invalid_subtitle',
+      message: expect.stringContaining('at line 6'),
+    });
+    expect(mockEnqueueTranslation).not.toHaveBeenCalled();
+  });
+
+  it('refuses downloads until the job is done', async () => {
+    mockGetCaptionJob.mockResolvedValueOnce({ ...baseJob, track: 'upload', status: 'translating' });
+    const { default: app } = await import('../src/http/routes.js');
+
+    const response = await app.request('/api/translate/job-1/download?fmt=srt');
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toMatchObject({ error: 'translation_not_ready' });
+  });
+
+  it('renders the finished translation in the requested format', async () => {
+    mockGetCaptionJob.mockResolvedValueOnce({
+      ...baseJob,
+      video_id: 'upload-0123456789abcdef',
+      lang: 'auto',
+      track: 'upload',
+      status: 'done',
+    });
+    mockGetBilingualSubtitle.mockResolvedValueOnce({
+      version: 1,
+      sourceLanguage: 'auto',
+      targetLanguage: 'ja',
+      track: 'upload',
+      cues: [{ startTime: 1000, endTime: 2500, original: 'Hello there', translation: 'こんにちは' }],
+    });
+    const { default: app } = await import('../src/http/routes.js');
+
+    const response = await app.request('/api/translate/job-1/download?fmt=srt&mode=bilingual');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="upload-0123456789abcdef.ja.srt"');
+    expect(mockGetBilingualSubtitle).toHaveBeenCalledWith('upload-0123456789abcdef|auto|ja|upload');
+    expect(await response.text()).toBe('1\n00:00:01,000 --> 00:00:02,500\nHello there\nこんにちは\n');
+  });
+});
+
+describe('admin access', () => {
+  afterEach(async () => {
+    delete process.env.ADMIN_TOKEN;
+    const { resetConfigForTests } = await import('../src/config/env.js');
+    resetConfigForTests();
+  });
+
+  it('allows PATCH and DELETE in CORS preflights', async () => {
+    const { default: app } = await import('../src/http/routes.js');
+
+    const response = await app.request('/admin/keys/key_1', {
+      method: 'OPTIONS',
+      headers: { Origin: 'https://admin.example', 'Access-Control-Request-Method': 'DELETE' },
+    });
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get('Access-Control-Allow-Methods')).toBe('GET, POST, PATCH, DELETE, OPTIONS');
+  });
+
+  it('refuses to manage keys while no admin token is configured', async () => {
+    const { issueApiKey } = await import('../src/services/api-keys.js');
+    const { default: app } = await import('../src/http/routes.js');
+
+    const issued = await app.request('/admin/keys', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'Mallory' }),
+    });
+    const revoked = await app.request('/admin/keys/key_1', { method: 'DELETE' });
+    const listed = await app.request('/admin/keys');
+
+    expect(issued.status).toBe(503);
+    expect(await issued.json()).toMatchObject({ error: 'admin_token_not_configured' });
+    expect(revoked.status).toBe(503);
+    expect(listed.status).toBe(503);
+    expect(issueApiKey).not.toHaveBeenCalled();
+  });
+
+  it('refuses to purge translation memory while no admin token is configured', async () => {
+    const { default: app } = await import('../src/http/routes.js');
+
+    const purged = await app.request('/admin/memory?target_lang=zh-CN', { method: 'DELETE' });
+    const deleted = await app.request('/admin/memory/1', { method: 'DELETE' });
+
+    expect(purged.status).toBe(503);
+    expect(await purged.json()).toMatchObject({ error: 'admin_token_not_configured' });
+    expect(deleted.status).toBe(503);
+  });
+
+  it('refuses glossary changes while no admin token is configured', async () => {
+    const { default: app } = await import('../src/http/routes.js');
+
+    const created = await app.request('/admin/glossary', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ source: 'Foo', translation: 'Bar', target_lang: 'zh-CN' }),
+    });
+    const approved = await app.request('/admin/glossary/1/approve', { method: 'POST' });
+    const deleted = await app.request('/admin/glossary/1', { method: 'DELETE' });
+
+    expect(created.status).toBe(503);
+    expect(await created.json()).toMatchObject({ error: 'admin_token_not_configured' });
+    expect(approved.status).toBe(503);
+    expect(deleted.status).toBe(503);
+  });
+
+  it('requires the configured admin token', async () => {
+    process.env.ADMIN_TOKEN = 'admin-secret';
+    const { resetConfigForTests } = await import('../src/config/env.js');
+    resetConfigForTests();
+    const { issueApiKey } = await import('../src/services/api-keys.js');
+    vi.mocked(issueApiKey).mockResolvedValueOnce({ key: { id: 'key_1' }, secret: 'ysk_new' } as never);
+    const { default: app } = await import('../src/http/routes.js');
+
+    const anonymous = await app.request('/admin/keys', { method: 'POST', body: '{"name":"Mallory"}' });
+    const admin = await app.request('/admin/keys', {
+      method: 'POST',
+      headers: { 'Authorization': 'Bearer admin-secret', 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'Alice' }),
+    });
+
+    expect(anonymous.status).toBe(401);
+    expect(admin.status).toBe(201);
+    expect(issueApiKey).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import { parseASS, parseSRT, parseTTML, SubtitleParseError } from '../src/subtitle/parse.js';
+import { detectSubtitleFormat, parseTimedTextResponse } from '../src/services/youtube.js';
+
+function captureParseError(parse: () => unknown): SubtitleParseError {
+  try {
+    parse();
+  } catch (error) {
+    if (error instanceof SubtitleParseError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error('Expected a SubtitleParseError');
+}
+
+describe('parseSRT', () => {
+  it('parses numbered cues with markup and CRLF line endings', () => {
+    const srt = [
+      '\uFEFF1',
+      '00:00:01,000 --> 00:00:02,500',
+      '<i>Hello</i> there',
+      'second line',
+      '',
+      '2',
+      '00:00:03.000 --> 00:00:04,250 X1:10 X2:20',
+      '{\\an8}Top &amp; bottom',
+      '',
+    ].join('\r\n');
+
+    expect(parseSRT(srt)).toEqual([
+      { startTime: 1000, endTime: 2500, text: 'Hello there\nsecond line' },
+      { startTime: 3000, endTime: 4250, text: 'Top & bottom' },
+    ]);
+  });
+
+  it('replaces out-of-range character references instead of throwing', () => {
+    const srt = '1\n00:00:01,000 --> 00:00:02,000\nA&#99999999;B&#x110000;C&#xD800;&#x263A;\n';
+
+    expect(parseSRT(srt)).toEqual([
+      { startTime: 1000, endTime: 2000, text: 'A\uFFFDB\uFFFDC\uFFFD\u263A' },
+    ]);
+  });
+
+  it('reports the line of a malformed timing', () => {
+    const error = captureParseError(() => parseSRT('1\n00:00:01,000 --> 00:00:02,000\nOk\n\n2\n00:00:03 -> 00:00:04\nBroken\n'));
+
+    expect(error.format).toBe('srt');
+    expect(error.line).toBe(6);
+    expect(error.message).toContain('at line 6');
+  });
+
+  it('rejects cues that end before they start', () => {
+    const error = captureParseError(() => parseSRT('1\n00:00:05,000 --> 00:00:02,000\nBackwards\n'));
+
+    expect(error.line).toBe(2);
+    expect(error.message).toContain('ends before it starts');
+  });
+});
+
+describe('parseTTML', () => {
+  it('parses clock, offset and tick times with line breaks', () => {
+    const ttml = `<?xml version="1.0" encoding="utf-8"?>
+<tt xmlns="http://www.w3.org/ns/ttml" xmlns:ttp="http://www.w3.org/ns/ttml#parameter" ttp:tickRate="10000000">
+  <body><div>
+    <p begin="00:00:01.500" end="00:00:03.000">Hello<br/><span tts:color="yellow">world</span></p>
+    <p begin="4s" dur="1500ms">Fish &amp; chips</p>
+    <p begin="50000000t" end="60000000t">Ticks</p>
+  </div></body>
+</tt>`;
+
+    expect(parseTTML(ttml)).toEqual([
+      { startTime: 1500, endTime: 3000, text: 'Hello\nworld' },
+      { startTime: 4000, endTime: 5500, text: 'Fish & chips' },
+      { startTime: 5000, endTime: 6000, text: 'Ticks' },
+    ]);
+  });
+
+  it('reports missing timing attributes with their line', () => {
+    const ttml = '<tt>\n<body>\n<div>\n<p end="2s">No begin</p>\n</div>\n</body>\n</tt>';
+    const error = captureParseError(() => parseTTML(ttml));
+
+    expect(error.format).toBe('ttml');
+    expect(error.line).toBe(4);
+  });
+
+  it('parses large documents in linear time', () => {
+    const paragraphs = Array.from({ length: 20000 }, (_, index) => (
+      `<p begin="${index}s" end="${index + 1}s">Line ${index}</p>`
+    ));
+    const ttml = `<tt><body><div>\n${paragraphs.join('\n')}\n</div></body></tt>`;
+
+    const started = Date.now();
+    const cues = parseTTML(ttml);
+
+    expect(cues).toHaveLength(20000);
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+
+  it('rejects documents without a tt root', () => {
+    expect(() => parseTTML('<html><p begin="1s" end="2s">Hi</p></html>')).toThrow(/missing <tt> root/);
+  });
+});
+
+describe('parseASS', () => {
+  const header = [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+  ];
+
+  it('parses dialogue events, strips overrides and keeps commas in text', () => {
+    const ass = [
+      ...header,
+      'Comment: 0,0:00:00.00,0:00:01.00,Default,,0,0,0,,ignored',
+      'Dialogue: 0,0:00:03.00,0:00:04.50,Default,,0,0,0,,{\\i1}Later{\\i0}, then more',
+      'Dialogue: 0,0:00:01.00,0:00:02.25,Default,,0,0,0,,First\\Nsecond \\{literal\\}',
+    ].join('\n');
+
+    expect(parseASS(ass)).toEqual([
+      { startTime: 1000, endTime: 2250, text: 'First\nsecond {literal}' },
+      { startTime: 3000, endTime: 4500, text: 'Later, then more' },
+    ]);
+  });
+
+  it('reports dialogue lines with too few fields', () => {
+    const error = captureParseError(() => parseASS([...header, 'Dialogue: 0,0:00:01.00'].join('\n')));
+
+    expect(error.format).toBe('ass');
+    expect(error.line).toBe(6);
+  });
+
+  it('requires an events section', () => {
+    expect(() => parseASS('[Script Info]\nTitle: empty\n')).toThrow(/missing \[Events\] section/);
+  });
+});
+
+describe('parseTimedTextResponse', () => {
+  it('sniffs each supported format', () => {
+    expect(detectSubtitleFormat('{"events":[]}', null)).toBe('json3');
+    expect(detectSubtitleFormat('WEBVTT\n\n', null)).toBe('vtt');
+    expect(detectSubtitleFormat('1\n00:00:01,000 --> 00:00:02,000\nHi', null)).toBe('srt');
+    expect(detectSubtitleFormat('<?xml version="1.0"?><tt xmlns="http://www.w3.org/ns/ttml"></tt>', null)).toBe('ttml');
+    expect(detectSubtitleFormat('[Script Info]\nTitle: x\n', null)).toBe('ass');
+    expect(detectSubtitleFormat('<timedtext format="3"><body></body></timedtext>', 'text/xml')).toBe('srv3');
+  });
+
+  it('converts SRT into json3 events', () => {
+    const parsed = parseTimedTextResponse('1\n00:00:01,000 --> 00:00:02,000\nHello\n', 'text/plain');
+
+    expect(parsed.events).toEqual([
+      { tStartMs: 1000, dDurationMs: 1000, segs: [{ utf8: 'Hello' }] },
+    ]);
+  });
+});
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SubtitleCue } from '../src/types/subtitle.js';
+
+const baseEnv = { ...process.env };
+let activeEnvKeys: string[] = [];
+
+function applyEnv(overrides: Record<string, string>) {
+  activeEnvKeys = Object.keys(overrides);
+  for (const key of activeEnvKeys) {
+    process.env[key] = overrides[key];
+  }
+}
+
+function restoreEnv() {
+  for (const key of activeEnvKeys) {
+    if (baseEnv[key] === undefined) {
+      delete process.env[key];
+    } else {
+      process.env[key] = baseEnv[key];
+    }
+  }
+  activeEnvKeys = [];
+}
+
+async function loadTranslator(overrides: Record<string, string>) {
+  applyEnv(overrides);
+  vi.resetModules();
+  return await import('../src/services/translator.js');
+}
+
+const cues: SubtitleCue[] = [
+  { startTime: 0, endTime: 1000, text: 'Hello there.' },
+  { startTime: 1000, endTime: 2000, text: 'General Kenobi.' },
+  { startTime: 2000, endTime: 3000, text: 'You are a bold one.' },
+];
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  restoreEnv();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('translation providers', () => {
+  it('runs the full bilingual pipeline with the mock provider', async () => {
+    const translator = await loadTranslator({
+      TRANSLATION_PROVIDER: 'mock',
+      OPENAI_API_KEY: '',
+      TRANSLATION_CONTEXT_BATCH_SIZE: '2',
+    });
+    const onBatchTranslated = vi.fn();
+
+    const result = await translator.translateToBilingual(cues, 'ja', 2, {
+      completed: new Map([[0, '既訳']]),
+      onBatchTranslated,
+    });
+
+    expect(result.map(cue => cue.text)).toEqual([
+      'Hello there.\n既訳',
+      'General Kenobi.\n[ja] General Kenobi.',
+      'You are a bold one.\n[ja] You are a bold one.',
+    ]);
+    const persisted = onBatchTranslated.mock.calls.flatMap(([segments]) => segments);
+    expect(persisted.map((segment: { index: number }) => segment.index)).toEqual([1, 2]);
+  });
+
+  it('sends batches to a DeepL-style API with mapped language codes', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+      translations: [{ text: '你好。' }, { text: '克诺比将军。' }],
+    })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const translator = await loadTranslator({
+      TRANSLATION_PROVIDER: 'deepl',
+      DEEPL_API_KEY: 'deepl-key',
+      TRANSLATION_CONTEXT_BATCH_SIZE: '2',
+    });
+
+    const result = await translator.translateBatchDirect(cues.slice(0, 2), 'zh-CN', { sourceLanguage: 'en-GB' });
+
+    expect(result.map(cue => cue.text)).toEqual(['你好。', '克诺比将军。']);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api-free.deepl.com/v2/translate');
+    expect(init.headers.Authorization).toBe('DeepL-Auth-Key deepl-key');
+    expect(JSON.parse(init.body)).toEqual({
+      text: ['Hello there.', 'General Kenobi.'],
+      target_lang: 'ZH-HANS',
+      source_lang: 'EN',
+    });
+  });
+
+  it('keeps original text when a Google-style batch fails', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('quota', {
+      status: 429,
+      statusText: 'Too Many Requests',
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const translator = await loadTranslator({
+      TRANSLATION_PROVIDER: 'google',
+      GOOGLE_TRANSLATE_API_KEY: 'google-key',
+    });
+    const onBatchTranslated = vi.fn();
+
+    const result = await translator.translateBatchDirect(cues, 'fr', { onBatchTranslated, sourceLanguage: 'zh-Hans' });
+
+    expect(result).toEqual(cues);
+    expect(String(fetchMock.mock.calls[0][0])).toContain('key=google-key');
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({ source: 'zh-CN', target: 'fr' });
+    const persisted = onBatchTranslated.mock.calls.flatMap(([segments]) => segments);
+    expect(persisted.every((segment: { status: string }) => segment.status === 'failed')).toBe(true);
+  });
+});
@@ -5,9 +5,24 @@ const mockCreateCaptionJob = vi.fn();
 const mockUpdateCaptionJobStatus = vi.fn();
 const mockSetBilingualSubtitle = vi.fn();
 const mockIncrementJobRetry = vi.fn();
+const mockDeferCaptionJob = vi.fn();
+const mockGetPendingJobs = vi.fn();
+const mockGetCaptionJobByKey = vi.fn();
+const mockGetCaptionSegments = vi.fn();
+const mockSaveCaptionSegments = vi.fn();
+const mockSetCaptionJobWorkload = vi.fn();
+const mockRecordTranslationThroughput = vi.fn();
+const mockEvaluateBudget = vi.fn();
 const mockBuildSourceSegments = vi.fn((_, cues) => cues);
 const mockOptimizeSubtitleTiming = vi.fn((cues) => cues);
 const mockOptimizeBilingualCues = vi.fn((cues) => cues);
+const expectedDocument = {
+  version: 1,
+  sourceLanguage: 'en',
+  targetLanguage: 'zh-CN',
+  track: 'asr',
+  cues: [{ startTime: 0, endTime: 1000, original: 'Hello world.', translation: '你好，世界。' }],
+};
 
 vi.mock('../src/config/env.js', () => ({
   getConfig: () => ({
@@ -33,6 +48,14 @@ vi.mock('../src/config/env.js', () => ({
       renderMaxCharsCjk: 20,
       renderMaxWords: 12,
       outputMode: 'translation-only',
+      speakerLabels: 'none',
+      lyricsMode: 'translate',
+    },
+    translationProvider: {
+      name: 'openai',
+    },
+    budget: {
+      economyModel: 'cheap-model',
     },
   }),
 }));
@@ -49,10 +72,6 @@ vi.mock('../src/subtitle/segment.js', () => ({
   optimizeBilingualCues: mockOptimizeBilingualCues,
 }));
 
-vi.mock('../src/subtitle/render.js', () => ({
-  renderWebVTT: vi.fn(() => 'WEBVTT\n\ntranslated'),
-}));
-
 vi.mock('../src/services/translator.js', () => ({
   translateToBilingual: mockTranslateToBilingual,
 }));
@@ -60,11 +79,30 @@ vi.mock('../src/services/translator.js', () => ({
 vi.mock('../src/services/cache.js', () => ({
   createCaptionJob: mockCreateCaptionJob,
   updateCaptionJobStatus: mockUpdateCaptionJobStatus,
-  getPendingJobs: vi.fn(async () => []),
+  getCaptionJobByKey: mockGetCaptionJobByKey,
+  getCaptionSegments: mockGetCaptionSegments,
+  initCaptionSegments: vi.fn(async () => undefined),
+  saveCaptionSegments: mockSaveCaptionSegments,
+  clearCaptionSegments: vi.fn(async () => undefined),
+  getPendingJobs: mockGetPendingJobs,
   incrementJobRetry: mockIncrementJobRetry,
+  deferCaptionJob: mockDeferCaptionJob,
+  resetInterruptedJobs: vi.fn(async () => 0),
+  setCaptionJobWorkload: mockSetCaptionJobWorkload,
+  setCaptionJobGlossaryStats: vi.fn(async () => undefined),
+  recordTranslationThroughput: mockRecordTranslationThroughput,
   setBilingualSubtitle: mockSetBilingualSubtitle,
 }));
 
+vi.mock('../src/services/budget.js', () => ({
+  evaluateBudget: mockEvaluateBudget,
+  nextBudgetWindow: () => Date.UTC(2026, 0, 2),
+}));
+
+vi.mock('../src/services/providers/index.js', () => ({
+  getTranslationProvider: () => ({ name: 'mock', model: 'test-model' }),
+}));
+
 vi.mock('../src/services/youtube.js', () => ({
   generateCacheKey: vi.fn(() => 'video-1|en|zh-CN|asr|json3'),
 }));
@@ -77,6 +115,14 @@ beforeEach(() => {
   mockUpdateCaptionJobStatus.mockReset().mockResolvedValue(undefined);
   mockSetBilingualSubtitle.mockReset().mockResolvedValue(undefined);
   mockIncrementJobRetry.mockReset().mockResolvedValue(undefined);
+  mockDeferCaptionJob.mockReset().mockResolvedValue(undefined);
+  mockGetPendingJobs.mockReset().mockResolvedValue([]);
+  mockGetCaptionJobByKey.mockReset().mockResolvedValue(null);
+  mockGetCaptionSegments.mockReset().mockResolvedValue([]);
+  mockSaveCaptionSegments.mockReset().mockResolvedValue(undefined);
+  mockSetCaptionJobWorkload.mockReset().mockResolvedValue(undefined);
+  mockRecordTranslationThroughput.mockReset().mockResolvedValue(undefined);
+  mockEvaluateBudget.mockReset().mockResolvedValue({ level: 'ok', reason: null });
   mockBuildSourceSegments.mockClear();
   mockOptimizeSubtitleTiming.mockClear();
   mockOptimizeBilingualCues.mockClear();
@@ -114,7 +160,7 @@ describe('translation queue', () => {
     await vi.waitFor(() => {
       expect(mockSetBilingualSubtitle).toHaveBeenCalledWith(
         'video-1|en|zh-CN|asr|json3',
-        'WEBVTT\n\ntranslated'
+        expectedDocument
       );
     });
 
@@ -125,5 +171,152 @@ describe('translation queue', () => {
     expect(mockBuildSourceSegments).toHaveBeenCalled();
     expect(mockOptimizeBilingualCues).not.toHaveBeenCalled();
     expect(mockIncrementJobRetry).not.toHaveBeenCalled();
+    expect(mockSetCaptionJobWorkload).toHaveBeenCalledWith(
+      expect.any(String),
+      { segmentsTotal: 1, model: 'test-model' }
+    );
+    expect(mockRecordTranslationThroughput).toHaveBeenCalledWith(expect.objectContaining({
+      model: 'test-model',
+      segmentCount: 1,
+    }));
+  });
+
+  it('defers jobs past a hard budget cap to the next budget window without using a retry', async () => {
+    mockEvaluateBudget.mockResolvedValueOnce({ level: 'hard', reason: 'Client friend-1 daily budget exhausted ($2.00 of $2.00)' });
+    const { enqueueTranslation } = await import('../src/queue/queue.js');
+
+    const taskId = await enqueueTranslation(
+      { v: 'video-1', lang: 'en', tlang: 'zh-CN', kind: 'asr', fmt: 'json3', client: 'friend-1' },
+      { events: [] },
+      'hash-1'
+    );
+
+    await vi.waitFor(() => {
+      expect(mockDeferCaptionJob).toHaveBeenCalledWith(taskId, Date.UTC(2026, 0, 2));
+    });
+
+    expect(mockIncrementJobRetry).not.toHaveBeenCalled();
+    expect(mockEvaluateBudget).toHaveBeenCalledWith('friend-1');
+    expect(mockCreateCaptionJob).toHaveBeenCalledWith(expect.objectContaining({ clientId: 'friend-1' }));
+    expect(mockUpdateCaptionJobStatus).toHaveBeenCalledWith(taskId, 'failed', undefined, {
+      code: 'budget_exceeded',
+      message: 'Client friend-1 daily budget exhausted ($2.00 of $2.00)',
+    });
+    expect(mockTranslateToBilingual).not.toHaveBeenCalled();
+  });
+
+  it('translates in economy mode on the economy model past a soft budget threshold', async () => {
+    mockEvaluateBudget.mockResolvedValueOnce({ level: 'soft', reason: 'Global daily budget nearly exhausted ($8.50 of $10.00)' });
+    const { enqueueTranslation } = await import('../src/queue/queue.js');
+
+    await enqueueTranslation(
+      { v: 'video-1', lang: 'en', tlang: 'zh-CN', kind: 'asr', fmt: 'json3' },
+      { events: [] },
+      'hash-1'
+    );
+
+    await vi.waitFor(() => {
+      expect(mockSetBilingualSubtitle).toHaveBeenCalled();
+    });
+
+    expect(mockTranslateToBilingual.mock.calls[0][3]).toMatchObject({ economy: true });
+    expect(mockSetCaptionJobWorkload).toHaveBeenCalledWith(
+      expect.any(String),
+      { segmentsTotal: 1, model: 'cheap-model' }
+    );
+  });
+
+  it('persists the source payload and reuses an existing job id', async () => {
+    mockGetCaptionJobByKey.mockResolvedValueOnce({ id: 'job-existing', status: 'failed', updated_at: 0 });
+    const { enqueueTranslation } = await import('../src/queue/queue.js');
+
+    const taskId = await enqueueTranslation(
+      { v: 'video-1', lang: 'en', tlang: 'zh-CN', kind: 'asr', fmt: 'json3' },
+      { events: [{ tStartMs: 0, dDurationMs: 1000, segs: [{ utf8: 'Hello world.' }] }] },
+      'hash-1'
+    );
+
+    expect(taskId).toBe('job-existing');
+    expect(mockCreateCaptionJob).toHaveBeenCalledWith(expect.objectContaining({
+      id: 'job-existing',
+      status: 'pending',
+      sourceJson: JSON.stringify({ events: [{ tStartMs: 0, dDurationMs: 1000, segs: [{ utf8: 'Hello world.' }] }] }),
+    }));
+
+    await vi.waitFor(() => {
+      expect(mockSetBilingualSubtitle).toHaveBeenCalled();
+    });
+  });
+
+  it('rehydrates pending jobs from the database when the memory queue is empty', async () => {
+    mockGetPendingJobs.mockResolvedValueOnce([
+      {
+        id: 'job-persisted',
+        video_id: 'video-1',
+        lang: 'en',
+        tlang: 'zh-CN',
+        track: 'asr',
+        fmt: 'json3',
+        source_hash: 'hash-1',
+        status: 'failed',
+        retry_count: 1,
+        next_retry_at: 0,
+        error_code: 'translation_error',
+        error_message: 'boom',
+        bilingual_json: null,
+        source_json: JSON.stringify({ events: [] }),
+        created_at: 0,
+        updated_at: 0,
+        expires_at: 0,
+      },
+    ]);
+
+    vi.useFakeTimers();
+    const { startWorker } = await import('../src/queue/queue.js');
+    startWorker();
+    await vi.advanceTimersByTimeAsync(5000);
+    vi.useRealTimers();
+
+    await vi.waitFor(() => {
+      expect(mockUpdateCaptionJobStatus).toHaveBeenCalledWith(
+        'job-persisted',
+        'done',
+        JSON.stringify(expectedDocument)
+      );
+    });
+    expect(mockTranslateToBilingual).toHaveBeenCalled();
+  });
+
+  it('resumes from persisted segments that still match the segmentation', async () => {
+    mockGetCaptionSegments.mockResolvedValueOnce([
+      {
+        id: 'job-1:0',
+        job_id: 'job-1',
+        segment_index: 0,
+        start_ms: 0,
+        end_ms: 1000,
+        source_text: 'Hello world.',
+        translated_text: '你好，世界。',
+        status: 'done',
+        created_at: 0,
+        updated_at: 0,
+      },
+    ]);
+    const { enqueueTranslation } = await import('../src/queue/queue.js');
+
+    await enqueueTranslation(
+      { v: 'video-1', lang: 'en', tlang: 'zh-CN', kind: 'asr', fmt: 'json3' },
+      { events: [] },
+      'hash-1'
+    );
+
+    await vi.waitFor(() => {
+      expect(mockTranslateToBilingual).toHaveBeenCalled();
+    });
+
+    const options = mockTranslateToBilingual.mock.calls[0][3];
+    expect(options.completed).toEqual(new Map([[0, '你好，世界。']]));
+    await options.onBatchTranslated([]);
+    expect(mockSaveCaptionSegments).toHaveBeenCalledWith(expect.any(String), []);
   });
 });
@@ -1,12 +1,19 @@
 import { afterEach, beforeEach, describe, expect, it } from 'vitest';
 import { resetConfigForTests } from '../src/config/env.js';
-import { parseYouTubeSrv3 } from '../src/subtitle/parse.js';
+import { parseYouTubeSrv3, parseYouTubeTimedText } from '../src/subtitle/parse.js';
+import { buildSourceSegments } from '../src/subtitle/segment.js';
+import { buildRenderCues, createBilingualDocument } from '../src/subtitle/document.js';
+import { extractStyleSheet } from '../src/subtitle/style.js';
 import {
   prepareCuesForRender,
+  renderASS,
+  renderSRT,
+  renderTTML,
   renderYouTubeSrv3,
   renderYouTubeTimedText,
+  resolveRenderFormat,
 } from '../src/subtitle/render.js';
-import type { SubtitleCue } from '../src/types/subtitle.js';
+import type { SubtitleCue, YouTubeTimedTextResponse } from '../src/types/subtitle.js';
 
 const baseEnv = { ...process.env };
 
@@ -58,6 +65,140 @@ describe('renderYouTubeTimedText', () => {
   });
 });
 
+describe('source styling', () => {
+  const source: YouTubeTimedTextResponse = {
+    wireMagic: 'pb3',
+    pens: [{}, { iAttr: 1, fcForeColor: 16776960 }],
+    wsWinStyles: [{}, { juJustifCode: 2 }],
+    wpWinPositions: [{}, { apPoint: 6, ahHorPos: 50, avVerPos: 100 }, { apPoint: 0, ahHorPos: 50, avVerPos: 0 }],
+    events: [
+      { tStartMs: 0, dDurationMs: 0, id: 1, wpWinPosId: 1, wsWinStyleId: 1 },
+      { tStartMs: 0, dDurationMs: 2000, wWinId: 1, segs: [{ utf8: 'The meeting starts now.' }] },
+      { tStartMs: 2000, dDurationMs: 2000, wWinId: 1, segs: [{ utf8: 'Everyone please sit down.' }] },
+      { tStartMs: 4000, dDurationMs: 2000, wpWinPosId: 2, wsWinStyleId: 1, segs: [{ utf8: 'Off-screen voice', pPenId: 1 }] },
+      { tStartMs: 6000, dDurationMs: 2000, wWinId: 1, segs: [{ utf8: 'Thank you all for coming.' }] },
+    ],
+  };
+
+  function buildStyledDocument() {
+    const parsed = parseYouTubeTimedText(source);
+    const segments = buildSourceSegments(source, parsed, { preserveTiming: true });
+    return createBilingualDocument(
+      segments.map(cue => ({ ...cue, text: `${cue.text}\n译:${cue.text}` })),
+      { sourceLanguage: 'en', targetLanguage: 'zh-CN', track: '', styles: extractStyleSheet(source) }
+    );
+  }
+
+  it('keeps only deviating styles on parsed cues and never merges across them', () => {
+    const parsed = parseYouTubeTimedText(source);
+
+    expect(parsed.map(cue => cue.style)).toEqual([
+      undefined,
+      undefined,
+      { penId: 1, windowStyleId: 1, windowPositionId: 2 },
+      undefined,
+    ]);
+
+    const document = buildStyledDocument();
+    const styled = document.cues.filter(cue => cue.style);
+    expect(styled).toHaveLength(1);
+    expect(styled[0].original).toBe('Off-screen voice');
+  });
+
+  it('carries pens and window positions into json3 output', () => {
+    const document = buildStyledDocument();
+    const timedText = renderYouTubeTimedText(buildRenderCues(document, 'bilingual'), {
+      outputMode: 'bilingual',
+      styles: document.styles,
+    });
+
+    expect(timedText.pens).toEqual([{}, {}, { iAttr: 1, fcForeColor: 16776960 }]);
+    expect(timedText.wpWinPositions?.[4]).toEqual({ apPoint: 0, ahHorPos: 50, avVerPos: 0 });
+    const styledEvent = timedText.events.find(event => event.segs?.[0].utf8.startsWith('Off-screen'));
+    expect(styledEvent).toMatchObject({ wpWinPosId: 4, wsWinStyleId: 3, segs: [{ pPenId: 2 }] });
+    expect(styledEvent?.wWinId).toBeUndefined();
+    const plainEvent = timedText.events.find(event => event.segs?.[0].utf8.startsWith('The meeting'));
+    expect(plainEvent?.wWinId).toBe(1);
+  });
+
+  it('writes source styles into the srv3 head and paragraphs', () => {
+    const document = buildStyledDocument();
+    const xml = renderYouTubeSrv3(buildRenderCues(document, 'bilingual'), {
+      outputMode: 'bilingual',
+      styles: document.styles,
+    });
+
+    expect(xml).toContain('<pen id="2" i="1" fc="#FFFF00" />');
+    expect(xml).toContain('<wp id="4" ap="0" ah="50" av="0" />');
+    expect(xml).toMatch(/<p t="4000" d="\d+" wp="4" ws="3" p="2">/);
+  });
+
+  it('renders the original fixed window when a document has no styles', () => {
+    const timedText = renderYouTubeTimedText([{ startTime: 0, endTime: 1000, text: 'Hi\n你好' }], { outputMode: 'bilingual' });
+
+    expect(timedText.pens).toEqual([{}]);
+    expect(timedText.wpWinPositions).toHaveLength(2);
+  });
+});
+
+describe('download formats', () => {
+  const cues: SubtitleCue[] = [
+    { startTime: 1200, endTime: 3250, text: 'Hello {world}\n你好，世界' },
+    { startTime: 3661005, endTime: 3663000, text: 'Fish & chips\n炸鱼薯条' },
+  ];
+
+  it('renders numbered SRT cues with comma timestamps', () => {
+    const srt = renderSRT(cues, { outputMode: 'bilingual' });
+
+    expect(srt).toBe([
+      '1',
+      '00:00:01,200 --> 00:00:03,250',
+      'Hello {world}',
+      '你好，世界',
+      '',
+      '2',
+      '01:01:01,005 --> 01:01:03,000',
+      'Fish & chips',
+      '炸鱼薯条',
+      '',
+    ].join('\n'));
+  });
+
+  it('renders TTML with separately styled original and translation spans', () => {
+    const ttml = renderTTML(cues, { language: 'zh-CN', outputMode: 'bilingual' });
+
+    expect(ttml).toContain('xml:lang="zh-CN"');
+    expect(ttml).toContain(
+      '<p begin="01:01:01.005" end="01:01:03.000"><span style="original">Fish &amp; chips</span><br/><span style="translation">炸鱼薯条</span></p>'
+    );
+  });
+
+  it('renders ASS with distinct styles and escaped override braces', () => {
+    const ass = renderASS(cues, { outputMode: 'bilingual' });
+
+    expect(ass).toContain('Style: Original,');
+    expect(ass).toContain('Style: Translation,');
+    expect(ass).toContain('Dialogue: 0,0:00:01.20,0:00:03.25,Original,,0,0,0,,Hello \\{world\\}\\N{\\rTranslation}你好，世界');
+  });
+
+  it('uses the translation style for translation-only ASS output', () => {
+    const ass = renderASS(cues, { outputMode: 'translation-only' });
+    const dialogues = ass.split('\n').filter(line => line.startsWith('Dialogue:'));
+
+    expect(dialogues.length).toBeGreaterThan(0);
+    expect(dialogues.every(line => line.includes(',Translation,'))).toBe(true);
+    expect(ass).not.toContain('Hello');
+  });
+
+  it('maps fmt aliases to render formats', () => {
+    expect(resolveRenderFormat('SRT')).toBe('srt');
+    expect(resolveRenderFormat('dfxp')).toBe('ttml');
+    expect(resolveRenderFormat('ssa')).toBe('ass');
+    expect(resolveRenderFormat('srv1')).toBe('srv3');
+    expect(resolveRenderFormat(undefined)).toBe('json3');
+  });
+});
+
 describe('prepareCuesForRender', () => {
   it('keeps srv3 cues to two stable lines', () => {
     process.env.SUBTITLE_OUTPUT_MODE = 'bilingual';
@@ -105,6 +246,21 @@ describe('prepareCuesForRender', () => {
     expect(prepared[0].text).toBe('译文字幕');
   });
 
+  it('lets a per-request output mode override the configured mode', () => {
+    process.env.SUBTITLE_OUTPUT_MODE = 'translation-only';
+    const cues: SubtitleCue[] = [
+      {
+        startTime: 0,
+        endTime: 3000,
+        text: 'Original subtitle line\n译文字幕',
+      },
+    ];
+
+    expect(prepareCuesForRender(cues, 'srv3', 'bilingual')[0].text).toBe('Original subtitle line\n译文字幕');
+    expect(prepareCuesForRender(cues, 'srv3', 'original-only')[0].text).toBe('Original subtitle line');
+    expect(prepareCuesForRender(cues, 'srv3')[0].text).toBe('译文字幕');
+  });
+
   it('compacts tiny translation-only cues before json3 rendering', () => {
     delete process.env.SUBTITLE_OUTPUT_MODE;
     process.env.SUBTITLE_RENDER_MAX_CHARS_CJK = '20';
@@ -639,6 +639,47 @@ describe('buildSourceSegments', () => {
   });
 });
 
+describe('speaker turns', () => {
+  it('detects >> and [Name]: turns and never merges across them', () => {
+    const parsed = [
+      { startTime: 0, endTime: 800, text: '>> Are you' },
+      { startTime: 800, endTime: 1600, text: 'coming' },
+      { startTime: 1600, endTime: 2400, text: '>> no' },
+      { startTime: 2400, endTime: 3200, text: 'thanks' },
+      { startTime: 3200, endTime: 4000, text: '[Anna]: why not' },
+    ];
+
+    const segments = buildSourceSegments({ events: [] }, parsed, { preserveTiming: true });
+
+    expect(segments.map(cue => [cue.text, cue.speaker])).toEqual([
+      ['Are you coming', { turn: 1 }],
+      ['no thanks', { turn: 2 }],
+      ['why not', { turn: 3, name: 'Anna' }],
+    ]);
+  });
+
+  it('splits scrolling ASR rows at a mid-row speaker change', () => {
+    const segments = buildSourceSegments({
+      events: [
+        {
+          tStartMs: 0,
+          dDurationMs: 4000,
+          wWinId: 1,
+          segs: [
+            { utf8: 'it is fine' },
+            { utf8: ' >>', tOffsetMs: 2000 },
+            { utf8: ' really', tOffsetMs: 2200 },
+          ],
+        },
+      ],
+    }, []);
+
+    expect(segments.map(cue => cue.text)).toEqual(['it is fine', 'really']);
+    expect(segments[1].speaker).toEqual({ turn: 1 });
+    expect(segments[0].speaker).toBeUndefined();
+  });
+});
+
 describe('compactShortCues', () => {
   it('merges very short neighboring cues for translation-only mode', () => {
     const cues = [
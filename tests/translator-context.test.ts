@@ -1,6 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 const mockCreate = vi.fn();
+const mockLookupTranslationMemory = vi.fn();
+const mockSaveTranslationMemory = vi.fn();
+const mockResolveGlossaryTerms = vi.fn();
+const mockSaveGlossarySuggestions = vi.fn();
+const mockRecordApiUsage = vi.fn();
 
 vi.mock('openai', () => {
   class OpenAI {
@@ -9,6 +14,14 @@ vi.mock('openai', () => {
   return { default: OpenAI };
 });
 
+vi.mock('../src/services/cache.js', () => ({
+  lookupTranslationMemory: mockLookupTranslationMemory,
+  saveTranslationMemory: mockSaveTranslationMemory,
+  resolveGlossaryTerms: mockResolveGlossaryTerms,
+  saveGlossarySuggestions: mockSaveGlossarySuggestions,
+  recordApiUsage: mockRecordApiUsage,
+}));
+
 const baseEnv = { ...process.env };
 const requiredEnv = {
   OPENAI_API_KEY: 'test-key',
@@ -44,6 +57,11 @@ async function loadTranslator(overrides: Record<string, string>) {
 
 beforeEach(() => {
   mockCreate.mockReset();
+  mockLookupTranslationMemory.mockReset();
+  mockSaveTranslationMemory.mockReset();
+  mockResolveGlossaryTerms.mockReset().mockResolvedValue([]);
+  mockSaveGlossarySuggestions.mockReset().mockResolvedValue(0);
+  mockRecordApiUsage.mockReset().mockResolvedValue(undefined);
   vi.spyOn(console, 'log').mockImplementation(() => {});
   vi.spyOn(console, 'warn').mockImplementation(() => {});
   vi.spyOn(console, 'error').mockImplementation(() => {});
@@ -307,4 +325,577 @@ describe('translator context batching', () => {
     expect(translatePrompt).toContain('This is a restored first sentence.');
     expect(translatePrompt).toContain('This is a restored second sentence.');
   });
+
+  it('labels speaker turns in the context prompt', async () => {
+    mockCreate.mockResolvedValueOnce({
+      choices: [
+        {
+          message: {
+            content: '[{"id":0,"translation":"你今晚会和我们一起来吗？我们很想见到你"},{"id":1,"translation":"不了，我今晚待在家里休息，明天还要早起"}]',
+          },
+        },
+      ],
+    });
+
+    const { translateToBilingual } = await loadTranslator({
+      TRANSLATION_SOURCE_RESTORE_ENABLED: 'false',
+      TRANSLATION_CONTEXT_ENABLED: 'true',
+      TRANSLATION_CONTEXT_BATCH_SIZE: '2',
+      TRANSLATION_CONTEXT_CONCURRENCY: '1',
+      TRANSLATION_SUMMARY_ENABLED: 'false',
+      TRANSLATION_GLOSSARY_ENABLED: 'false',
+    });
+
+    await translateToBilingual([
+      { startTime: 0, endTime: 2000, text: 'Are you coming with us tonight? We would love to see you.', speaker: { turn: 1, name: 'Anna' } },
+      { startTime: 2000, endTime: 4000, text: 'No, I am staying home tonight to rest, early start tomorrow.', speaker: { turn: 2 } },
+    ], 'zh-CN', 1);
+
+    const prompt = mockCreate.mock.calls[0][0].messages[0].content as string;
+    expect(prompt).toContain('[0] <Anna> Are you coming with us tonight?');
+    expect(prompt).toContain('[1] <Speaker 2> No, I am staying home');
+    expect(prompt).toContain('A <Speaker> label marks who is talking');
+  });
+
+  it('translates sound events locally and drops lyrics when configured', async () => {
+    mockCreate.mockResolvedValueOnce({
+      choices: [
+        {
+          message: {
+            content: '谢谢大家今晚来到这里，我们开始今天的节目吧',
+          },
+        },
+      ],
+    });
+
+    const { translateToBilingual } = await loadTranslator({
+      TRANSLATION_SOURCE_RESTORE_ENABLED: 'false',
+      TRANSLATION_CONTEXT_ENABLED: 'true',
+      TRANSLATION_CONTEXT_CONCURRENCY: '1',
+      TRANSLATION_SUMMARY_ENABLED: 'false',
+      TRANSLATION_GLOSSARY_ENABLED: 'false',
+      SUBTITLE_LYRICS_MODE: 'drop',
+    });
+
+    const results = await translateToBilingual([
+      { startTime: 0, endTime: 1000, text: '[Applause]', category: 'sound' },
+      { startTime: 1000, endTime: 3000, text: 'Thank you all for coming tonight, let us get the show started.' },
+      { startTime: 3000, endTime: 5000, text: '♪ We will rock you ♪', category: 'lyrics' },
+    ], 'zh-CN', 1);
+
+    expect(mockCreate).toHaveBeenCalledTimes(1);
+    const prompt = mockCreate.mock.calls[0][0].messages[0].content as string;
+    expect(prompt).toContain('Thank you all for coming tonight');
+    expect(results.map(cue => cue.text)).toEqual([
+      '[Applause]\n[掌声]',
+      'Thank you all for coming tonight, let us get the show started.\n谢谢大家今晚来到这里，我们开始今天的节目吧',
+    ]);
+  });
+
+  it('reuses translation memory hits and stores newly translated pairs', async () => {
+    mockLookupTranslationMemory.mockResolvedValueOnce(new Map([[0, '感谢本期视频的赞助商']]));
+    mockSaveTranslationMemory.mockResolvedValueOnce(1);
+    mockCreate.mockResolvedValueOnce({
+      choices: [{ message: { content: '今天我们来聊聊如何在家里自己烤出好吃的面包' } }],
+    });
+
+    const { translateToBilingual } = await loadTranslator({
+      TRANSLATION_SOURCE_RESTORE_ENABLED: 'false',
+      TRANSLATION_CONTEXT_ENABLED: 'true',
+      TRANSLATION_CONTEXT_CONCURRENCY: '1',
+      TRANSLATION_SUMMARY_ENABLED: 'false',
+      TRANSLATION_GLOSSARY_ENABLED: 'false',
+    });
+
+    const cues = [
+      { startTime: 0, endTime: 2000, text: 'Thanks to the sponsor of this video.' },
+      { startTime: 2000, endTime: 4000, text: 'Today we are talking about baking tasty bread at home.' },
+    ];
+    const onBatchTranslated = vi.fn();
+
+    const results = await translateToBilingual(cues, 'zh-CN', 1, { sourceLanguage: 'en', onBatchTranslated });
+
+    expect(mockLookupTranslationMemory).toHaveBeenCalledWith(
+      [cues[0].text, cues[1].text],
+      { sourceLanguage: 'en', targetLanguage: 'zh-CN', model: 'gpt-4o' },
+      { fuzzy: false }
+    );
+    expect(mockCreate).toHaveBeenCalledTimes(1);
+    expect(onBatchTranslated.mock.calls[0][0]).toEqual([
+      expect.objectContaining({ index: 0, translatedText: '感谢本期视频的赞助商', status: 'done' }),
+    ]);
+    expect(mockSaveTranslationMemory).toHaveBeenCalledWith(
+      [{ sourceText: cues[1].text, translatedText: '今天我们来聊聊如何在家里自己烤出好吃的面包' }],
+      { sourceLanguage: 'en', targetLanguage: 'zh-CN', model: 'gpt-4o' }
+    );
+    expect(results[0].text).toBe(`${cues[0].text}\n感谢本期视频的赞助商`);
+  });
+
+  it('does not store lines that fell back to restored source text in translation memory', async () => {
+    mockLookupTranslationMemory.mockResolvedValueOnce(new Map());
+    mockSaveTranslationMemory.mockResolvedValueOnce(1);
+    mockCreate
+      .mockResolvedValueOnce({
+        choices: [{
+          message: {
+            content: '[{"id":0,"restored":"Thanks to the sponsor of this video."},{"id":1,"restored":"Today we are baking bread at home."}]',
+          },
+        }],
+      })
+      .mockResolvedValueOnce({
+        choices: [{ message: { content: '[{"id":0,"translation":"感谢本期视频的赞助商"}]' } }],
+      })
+      .mockResolvedValueOnce({
+        choices: [{ message: { content: '感谢本期视频的赞助商' } }],
+      })
+      .mockRejectedValue(new Error('provider unavailable'));
+
+    const { translateToBilingual } = await loadTranslator({
+      TRANSLATION_SOURCE_RESTORE_ENABLED: 'true',
+      TRANSLATION_CONTEXT_ENABLED: 'true',
+      TRANSLATION_CONTEXT_BATCH_SIZE: '2',
+      TRANSLATION_CONTEXT_CONCURRENCY: '1',
+      TRANSLATION_CONTEXT_BATCH_RETRIES: '0',
+      TRANSLATION_SUMMARY_ENABLED: 'false',
+      TRANSLATION_GLOSSARY_ENABLED: 'false',
+    });
+
+    const cues = [
+      { startTime: 0, endTime: 2000, text: 'thanks to the sponsor of this video' },
+      { startTime: 2000, endTime: 4000, text: 'today we are baking bread at home' },
+    ];
+
+    const results = await translateToBilingual(cues, 'zh-CN', 1, { sourceLanguage: 'en' });
+
+    expect(results[1].text).toBe(`${cues[1].text}\nToday we are baking bread at home.`);
+    expect(mockSaveTranslationMemory).toHaveBeenCalledWith(
+      [{ sourceText: cues[0].text, translatedText: '感谢本期视频的赞助商' }],
+      { sourceLanguage: 'en', targetLanguage: 'zh-CN', model: 'gpt-4o' }
+    );
+  });
+
+  it('merges stored glossary terms into the prompt and suggests new extracted terms', async () => {
+    const storedTerm = {
+      scope: 'channel',
+      scope_id: 'UCabc',
+      target_lang: 'zh-CN',
+      status: 'approved',
+      note: null,
+      created_at: 0,
+      updated_at: 0,
+    };
+    mockResolveGlossaryTerms.mockResolvedValueOnce([
+      { ...storedTerm, id: 1, source_term: 'Acme Cloud', translation: '顶点云', never_translate: 0 },
+      { ...storedTerm, id: 2, scope: 'global', scope_id: '', source_term: 'Kubernetes', translation: null, never_translate: 1 },
+      { ...storedTerm, id: 3, source_term: 'Unused Term', translation: '未使用', never_translate: 0 },
+    ]);
+    mockCreate
+      .mockResolvedValueOnce({
+        choices: [{
+          message: {
+            content: '[{"source":"Acme Cloud","target":"艾克米云"},{"source":"Helm","target":"Helm 包管理器"}]',
+          },
+        }],
+      })
+      .mockResolvedValueOnce({
+        choices: [{
+          message: {
+            content: '[{"id":0,"translation":"我们今天把应用部署到顶点云上面去试试看"},{"id":1,"translation":"然后用 Helm 在 Kubernetes 集群里安装所有服务"}]',
+          },
+        }],
+      });
+
+    const { translateToBilingual } = await loadTranslator({
+      TRANSLATION_SOURCE_RESTORE_ENABLED: 'false',
+      TRANSLATION_CONTEXT_ENABLED: 'true',
+      TRANSLATION_CONTEXT_BATCH_SIZE: '2',
+      TRANSLATION_CONTEXT_CONCURRENCY: '1',
+      TRANSLATION_SUMMARY_ENABLED: 'false',
+      TRANSLATION_GLOSSARY_ENABLED: 'true',
+    });
+
+    await translateToBilingual([
+      { startTime: 0, endTime: 2000, text: 'Today we deploy the app to Acme Cloud and see how it goes.' },
+      { startTime: 2000, endTime: 4000, text: 'Then we use Helm to install every service in the Kubernetes cluster.' },
+    ], 'zh-CN', 1, { glossary: { videoId: 'abcdefghijk', channelId: 'UCabc' } });
+
+    expect(mockResolveGlossaryTerms).toHaveBeenCalledWith({
+      targetLanguage: 'zh-CN',
+      videoId: 'abcdefghijk',
+      channelId: 'UCabc',
+    });
+
+    const prompt = mockCreate.mock.calls[1][0].messages[0].content as string;
+    expect(prompt).toContain('{"source":"Acme Cloud","target":"顶点云"}');
+    expect(prompt).toContain('{"source":"Kubernetes","target":"Kubernetes","note":"Never translate; keep as written"}');
+    expect(prompt).toContain('{"source":"Helm","target":"Helm 包管理器"}');
+    expect(prompt).not.toContain('艾克米云');
+    expect(prompt).not.toContain('Unused Term');
+
+    expect(mockSaveGlossarySuggestions).toHaveBeenCalledWith(
+      [{ sourceTerm: 'Helm', translation: 'Helm 包管理器' }],
+      { scope: 'channel', scopeId: 'UCabc', targetLanguage: 'zh-CN' }
+    );
+  });
+
+  it('re-requests batches that ignore stored glossary terms and reports violations', async () => {
+    mockResolveGlossaryTerms.mockResolvedValueOnce([{
+      id: 1,
+      scope: 'global',
+      scope_id: '',
+      target_lang: '',
+      source_term: 'Acme Cloud',
+      translation: '顶点云',
+      never_translate: 0,
+      status: 'approved',
+      note: null,
+      created_at: 0,
+      updated_at: 0,
+    }]);
+    mockCreate
+      .mockResolvedValueOnce({
+        choices: [{
+          message: {
+            content: '[{"id":0,"translation":"我们今天把应用部署到艾克米云上面去试试看"},{"id":1,"translation":"部署完成以后我们再一起检查一下所有的日志"}]',
+          },
+        }],
+      })
+      .mockResolvedValueOnce({
+        choices: [{
+          message: {
+            content: '[{"id":0,"translation":"我们今天把应用部署到顶点云上面去试试看"},{"id":1,"translation":"部署完成以后我们再一起检查一下所有的日志"}]',
+          },
+        }],
+      });
+
+    const { translateToBilingual } = await loadTranslator({
+      TRANSLATION_SOURCE_RESTORE_ENABLED: 'false',
+      TRANSLATION_CONTEXT_ENABLED: 'true',
+      TRANSLATION_CONTEXT_BATCH_SIZE: '2',
+      TRANSLATION_CONTEXT_CONCURRENCY: '1',
+      TRANSLATION_CONTEXT_BATCH_RETRIES: '0',
+      TRANSLATION_SUMMARY_ENABLED: 'false',
+      TRANSLATION_GLOSSARY_ENABLED: 'false',
+    });
+    const onGlossaryChecked = vi.fn();
+
+    const results = await translateToBilingual([
+      { startTime: 0, endTime: 2000, text: 'Today we deploy the app to Acme Cloud and see how it goes.' },
+      { startTime: 2000, endTime: 4000, text: 'Once it is deployed we will check all of the logs together.' },
+    ], 'zh-CN', 1, { onGlossaryChecked });
+
+    expect(mockCreate).toHaveBeenCalledTimes(2);
+    const firstPrompt = mockCreate.mock.calls[0][0].messages[0].content as string;
+    const retryPrompt = mockCreate.mock.calls[1][0].messages[0].content as string;
+    expect(firstPrompt).not.toContain('## Glossary Corrections');
+    expect(retryPrompt).toContain('## Glossary Corrections');
+    expect(retryPrompt).toContain('- [0] translate "Acme Cloud" as "顶点云"');
+    expect(results[0].text).toContain('顶点云');
+    expect(onGlossaryChecked).toHaveBeenCalledWith({ checked: 1, violations: 1, unresolved: 0 });
+  });
+
+  it('treats ids dropped by a glossary correction retry as missing', async () => {
+    mockResolveGlossaryTerms.mockResolvedValueOnce([{
+      id: 1,
+      scope: 'global',
+      scope_id: '',
+      target_lang: '',
+      source_term: 'Acme Cloud',
+      translation: '顶点云',
+      never_translate: 0,
+      status: 'approved',
+      note: null,
+      created_at: 0,
+      updated_at: 0,
+    }]);
+    mockCreate
+      .mockResolvedValueOnce({
+        choices: [{
+          message: {
+            content: '[{"id":0,"translation":"我们今天把应用部署到艾克米云上面去试试看"},{"id":1,"translation":"部署完成以后我们再一起检查一下所有的日志"}]',
+          },
+        }],
+      })
+      .mockResolvedValueOnce({
+        choices: [{
+          message: {
+            content: '[{"id":0,"translation":"我们今天把应用部署到顶点云上面去试试看"},{"id":0,"translation":"我们今天把应用部署到顶点云上面去试试看"}]',
+          },
+        }],
+      })
+      .mockResolvedValueOnce({
+        choices: [{ message: { content: '我们今天把应用部署到顶点云上去看看效果' } }],
+      })
+      .mockResolvedValueOnce({
+        choices: [{ message: { content: '部署好之后我们一起检查所有日志' } }],
+      });
+
+    const { translateToBilingual } = await loadTranslator({
+      TRANSLATION_SOURCE_RESTORE_ENABLED: 'false',
+      TRANSLATION_CONTEXT_ENABLED: 'true',
+      TRANSLATION_CONTEXT_BATCH_SIZE: '2',
+      TRANSLATION_CONTEXT_CONCURRENCY: '1',
+      TRANSLATION_CONTEXT_BATCH_RETRIES: '0',
+      TRANSLATION_SUMMARY_ENABLED: 'false',
+      TRANSLATION_GLOSSARY_ENABLED: 'false',
+    });
+
+    const results = await translateToBilingual([
+      { startTime: 0, endTime: 2000, text: 'Today we deploy the app to Acme Cloud and see how it goes.' },
+      { startTime: 2000, endTime: 4000, text: 'Once it is deployed we will check all of the logs together.' },
+    ], 'zh-CN', 1);
+
+    // The retry's missing id 1 splits the batch instead of keeping the first attempt's line
+    expect(mockCreate).toHaveBeenCalledTimes(4);
+    expect(results[1].text).toContain('部署好之后我们一起检查所有日志');
+  });
+
+  it('records token usage and cost for each completion under the running job', async () => {
+    mockCreate
+      .mockResolvedValueOnce({
+        choices: [{ message: { content: '今天我们来聊聊如何在家里自己烤出好吃的面包' } }],
+        usage: { prompt_tokens: 1200, completion_tokens: 300 },
+      })
+      .mockRejectedValueOnce(new Error('upstream timeout'));
+
+    const { translateToBilingual } = await loadTranslator({
+      TRANSLATION_SOURCE_RESTORE_ENABLED: 'false',
+      TRANSLATION_CONTEXT_ENABLED: 'true',
+      TRANSLATION_CONTEXT_BATCH_SIZE: '1',
+      TRANSLATION_CONTEXT_CONCURRENCY: '1',
+      TRANSLATION_SUMMARY_ENABLED: 'false',
+      TRANSLATION_GLOSSARY_ENABLED: 'false',
+    });
+    const { runWithUsageScope } = await import('../src/services/usage.js');
+
+    const cues = [
+      { startTime: 0, endTime: 2000, text: 'Today we are talking about baking tasty bread at home.' },
+      { startTime: 2000, endTime: 4000, text: 'First mix the flour, water and salt into a smooth dough.' },
+    ];
+
+    await runWithUsageScope({ jobId: 'job-1', clientId: 'friend-1' }, () => translateToBilingual(cues, 'zh-CN', 1));
+
+    const records = mockRecordApiUsage.mock.calls.map(([record]) => record);
+    expect(records[0]).toMatchObject({
+      provider: 'openai',
+      model: 'gpt-4o',
+      purpose: 'single-line',
+      promptTokens: 1200,
+      completionTokens: 300,
+      failed: false,
+      jobId: 'job-1',
+      clientId: 'friend-1',
+    });
+    expect(records[0].costUsd).toBeCloseTo(0.006);
+    expect(records[1]).toMatchObject({ purpose: 'single-line', failed: true, promptTokens: 0, costUsd: 0, jobId: 'job-1' });
+    expect(records).toHaveLength(2);
+  });
+
+  it('skips summary, glossary and restore passes and switches model in economy mode', async () => {
+    mockCreate.mockResolvedValueOnce({
+      choices: [{
+        message: {
+          content: '[{"id":0,"translation":"今天我们来聊聊如何在家里自己烤出好吃的面包"},{"id":1,"translation":"先把面粉、水和盐混合均匀再揉成光滑的面团"}]',
+        },
+      }],
+    });
+
+    const { translateToBilingual } = await loadTranslator({
+      TRANSLATION_SOURCE_RESTORE_ENABLED: 'true',
+      TRANSLATION_CONTEXT_ENABLED: 'true',
+      TRANSLATION_CONTEXT_BATCH_SIZE: '2',
+      TRANSLATION_CONTEXT_CONCURRENCY: '1',
+      TRANSLATION_SUMMARY_ENABLED: 'true',
+      TRANSLATION_GLOSSARY_ENABLED: 'true',
+    });
+    const { runWithUsageScope } = await import('../src/services/usage.js');
+
+    const cues = [
+      { startTime: 0, endTime: 2000, text: 'Today we are talking about baking tasty bread at home.' },
+      { startTime: 2000, endTime: 4000, text: 'First mix the flour, water and salt into a smooth dough.' },
+    ];
+
+    const results = await runWithUsageScope(
+      { jobId: 'job-1', model: 'gpt-4o-mini' },
+      () => translateToBilingual(cues, 'zh-CN', 1, { sourceLanguage: 'en', economy: true })
+    );
+
+    expect(mockCreate).toHaveBeenCalledTimes(1);
+    expect(mockCreate.mock.calls[0][0].model).toBe('gpt-4o-mini');
+    expect(mockRecordApiUsage.mock.calls[0][0]).toMatchObject({ model: 'gpt-4o-mini', purpose: 'context' });
+    expect(mockLookupTranslationMemory.mock.calls[0][1]).toMatchObject({ model: 'gpt-4o-mini' });
+    expect(results[1].text).toBe(`${cues[1].text}\n先把面粉、水和盐混合均匀再揉成光滑的面团`);
+  });
+
+  it('estimates every pass with the model tokenizer without calling the provider', async () => {
+    const { estimateTranslationRun } = await loadTranslator({
+      TRANSLATION_SOURCE_RESTORE_ENABLED: 'true',
+      TRANSLATION_CONTEXT_ENABLED: 'true',
+      TRANSLATION_CONTEXT_BATCH_SIZE: '2',
+      TRANSLATION_SUMMARY_ENABLED: 'true',
+      TRANSLATION_SUMMARY_MAX_TOKENS: '200',
+      TRANSLATION_GLOSSARY_ENABLED: 'false',
+      MODEL_PRICES: JSON.stringify({ 'gpt-4o': { input: 2.5, output: 10 } }),
+    });
+
+    const cues = [
+      { startTime: 0, endTime: 2000, text: 'Today we are talking about baking tasty bread at home.' },
+      { startTime: 2000, endTime: 4000, text: 'First mix the flour, water and salt into a smooth dough.' },
+      { startTime: 4000, endTime: 5000, text: '[Music]', category: 'sound' as const },
+      { startTime: 5000, endTime: 7000, text: 'Then let it rest for an hour.' },
+    ];
+
+    const estimate = await estimateTranslationRun(cues, 'zh-CN');
+
+    expect(mockCreate).not.toHaveBeenCalled();
+    expect(mockRecordApiUsage).not.toHaveBeenCalled();
+    expect(estimate).toMatchObject({
+      provider: 'openai',
+      model: 'gpt-4o',
+      tokenizer: { encoding: 'o200k_base', approximate: false },
+      segments: 4,
+      localSegments: 1,
+      batches: 2,
+    });
+    expect(estimate.passes.summary).toMatchObject({ requests: 1, completionTokens: 200 });
+    expect(estimate.passes.glossary).toBeUndefined();
+    expect(estimate.passes.restore?.requests).toBe(2);
+    expect(estimate.passes.context?.requests).toBe(1);
+    expect(estimate.passes['single-line']?.requests).toBe(1);
+    // Each context prompt carries the summary it will be given
+    expect(estimate.passes.context!.promptTokens).toBeGreaterThan(200);
+    expect(estimate.promptTokens).toBe(
+      Object.values(estimate.passes).reduce((sum, pass) => sum + pass.promptTokens, 0)
+    );
+    expect(estimate.costUsd).toBeCloseTo(
+      (estimate.promptTokens * 2.5 + estimate.completionTokens * 10) / 1_000_000,
+      10
+    );
+  });
+
+  it('skips segments completed by a previous run and reports new batches', async () => {
+    mockCreate.mockResolvedValueOnce({
+      choices: [
+        {
+          message: {
+            content: '[{"id":2,"translation":"这是第二句的正常翻译结果"},{"id":3,"translation":"这是第三句的正常翻译结果"}]',
+          },
+        },
+      ],
+    });
+
+    const { translateToBilingual } = await loadTranslator({
+      TRANSLATION_SOURCE_RESTORE_ENABLED: 'false',
+      TRANSLATION_CONTEXT_ENABLED: 'true',
+      TRANSLATION_CONTEXT_BATCH_SIZE: '2',
+      TRANSLATION_CONTEXT_PRECEDING_LINES: '1',
+      TRANSLATION_CONTEXT_FOLLOWING_LINES: '0',
+      TRANSLATION_CONTEXT_CONCURRENCY: '1',
+      TRANSLATION_SUMMARY_ENABLED: 'false',
+      TRANSLATION_GLOSSARY_ENABLED: 'false',
+    });
+
+    const cues = [
+      { startTime: 0, endTime: 1000, text: 'Hello world, this is the first longer source line for context translation.' },
+      { startTime: 1000, endTime: 2000, text: 'This is a test, and this is the second longer source line for batching.' },
+      { startTime: 2000, endTime: 3000, text: 'Final line, but still long enough to avoid suspicious short-translation fallback.' },
+      { startTime: 3000, endTime: 4000, text: 'Wrap it up with one more longer sentence so the fallback heuristic stays quiet.' },
+    ];
+    const onBatchTranslated = vi.fn();
+
+    const results = await translateToBilingual(cues, 'zh-CN', 2, {
+      completed: new Map([
+        [0, '这是第零句的已保存翻译'],
+        [1, '这是第一句的已保存翻译'],
+      ]),
+      onBatchTranslated,
+    });
+
+    expect(mockCreate).toHaveBeenCalledTimes(1);
+    const prompt = mockCreate.mock.calls[0][0].messages[0].content as string;
+    expect(prompt).toContain('[1] This is a test');
+    expect(results.map(cue => cue.text.split('\n')[1])).toEqual([
+      '这是第零句的已保存翻译',
+      '这是第一句的已保存翻译',
+      '这是第二句的正常翻译结果',
+      '这是第三句的正常翻译结果',
+    ]);
+    expect(onBatchTranslated).toHaveBeenCalledTimes(1);
+    expect(onBatchTranslated.mock.calls[0][0]).toEqual([
+      expect.objectContaining({ index: 2, translatedText: '这是第二句的正常翻译结果', status: 'done' }),
+      expect.objectContaining({ index: 3, translatedText: '这是第三句的正常翻译结果', status: 'done' }),
+    ]);
+  });
+
+  it('finishes the opening window before restoring the rest of the video', async () => {
+    const calls: string[] = [];
+    mockCreate.mockImplementation(async (body: { messages: Array<{ content: string }> }) => {
+      const prompt = body.messages[0].content;
+      const ids = [...prompt.matchAll(/^\[(\d+)\]/gm)].map(match => Number(match[1]));
+      const isRestore = prompt.includes('reconstructing noisy ASR subtitle fragments');
+      calls.push(`${isRestore ? 'restore' : 'translate'}:${ids.join(',')}`);
+      const items = ids.map(id => (isRestore
+        ? { id, restored: `Restored sentence number ${id} with enough words.` }
+        : { id, translation: `这是第${id}句经过恢复后的完整翻译结果` }));
+      return { choices: [{ message: { content: JSON.stringify(items) } }] };
+    });
+
+    const { translateToBilingual } = await loadTranslator({
+      TRANSLATION_SOURCE_RESTORE_ENABLED: 'true',
+      TRANSLATION_PRIORITY_WINDOW_MS: '2000',
+      TRANSLATION_CONTEXT_ENABLED: 'true',
+      TRANSLATION_CONTEXT_BATCH_SIZE: '2',
+      TRANSLATION_CONTEXT_PRECEDING_LINES: '0',
+      TRANSLATION_CONTEXT_FOLLOWING_LINES: '0',
+      TRANSLATION_CONTEXT_CONCURRENCY: '1',
+      TRANSLATION_SUMMARY_ENABLED: 'false',
+      TRANSLATION_GLOSSARY_ENABLED: 'false',
+    });
+
+    const cues = [0, 1, 2, 3].map(index => ({
+      startTime: index * 1000,
+      endTime: (index + 1) * 1000,
+      text: `broken fragment number ${index} from`,
+    }));
+    const onProgress = vi.fn();
+
+    const results = await translateToBilingual(cues, 'zh-CN', 2, { onProgress });
+
+    expect(calls).toEqual(['restore:0,1', 'translate:0,1', 'restore:2,3', 'translate:2,3']);
+    expect(results[3].text).toBe('broken fragment number 3 from\n这是第3句经过恢复后的完整翻译结果');
+    expect(onProgress.mock.calls.map(([progress]) => progress.segmentsDone)).toEqual([2, 4]);
+    expect(onProgress.mock.calls.every(([progress]) => progress.segmentsTotal === 4)).toBe(true);
+  });
+
+  it('translates ranges near the playback position first', async () => {
+    const calls: string[] = [];
+    mockCreate.mockImplementation(async (body: { messages: Array<{ content: string }> }) => {
+      const prompt = body.messages[0].content;
+      const ids = [...prompt.matchAll(/^\[(\d+)\]/gm)].map(match => Number(match[1]));
+      calls.push(ids.join(','));
+      const items = ids.map(id => ({ id, translation: `这是第${id}句按播放位置优先的完整翻译` }));
+      return { choices: [{ message: { content: JSON.stringify(items) } }] };
+    });
+
+    const { translateToBilingual } = await loadTranslator({
+      TRANSLATION_SOURCE_RESTORE_ENABLED: 'false',
+      TRANSLATION_CONTEXT_ENABLED: 'true',
+      TRANSLATION_CONTEXT_BATCH_SIZE: '2',
+      TRANSLATION_CONTEXT_PRECEDING_LINES: '0',
+      TRANSLATION_CONTEXT_FOLLOWING_LINES: '0',
+      TRANSLATION_CONTEXT_CONCURRENCY: '1',
+      TRANSLATION_SUMMARY_ENABLED: 'false',
+      TRANSLATION_GLOSSARY_ENABLED: 'false',
+    });
+
+    const cues = [0, 1, 2, 3, 4, 5].map(index => ({
+      startTime: index * 1000,
+      endTime: (index + 1) * 1000,
+      text: `Source sentence number ${index} is long enough for context batching.`,
+    }));
+
+    await translateToBilingual(cues, 'zh-CN', 2, { getPlaybackPosition: () => 4000 });
+
+    expect(calls).toEqual(['4,5', '0,1', '2,3']);
+  });
 });